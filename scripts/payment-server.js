@@ -0,0 +1,693 @@
+/**
+ * Payment stand-in server for Vamo Store
+ *
+ * Local substitute for vm-service, for developing and testing the cart →
+ * payment → dispensing → receipt path without vm-service or a payment gateway:
+ * Swish (src/components/payment/SwishPayment.tsx) without a Swish merchant
+ * agreement, and the test payment provider (src/lib/payment/providers/test.ts).
+ * It answers every vm-service endpoint those flows use itself, from an
+ * in-memory demo machine, and forwards nothing.
+ *
+ * Every store has one demo machine (vm-1) with a few stocked springs. Orders
+ * are priced from those springs (applied promotions and cash rounding are taken
+ * from the request as sent), dispensing takes units from their inventory, and
+ * everything is forgotten when the server stops.
+ *
+ * Endpoints:
+ *   POST /api/v1/token, /api/v1/token/refresh          token for any credentials
+ *   GET  /api/v1/stores/:storeId/springs                demo springs of the store
+ *   GET  /api/v1/stores/:storeId/vms/:vmId/connectionStatus   always connected
+ *   POST /api/v1/stores/:storeId/vms/:vmId/dispense     take a unit from a spring; 409 if it is empty
+ *   POST /api/v1/stores/:storeId/vms/:vmId/requestSpringData
+ *   POST /api/v1/orders/validate                        check the items against the springs
+ *   POST /api/v1/orders                                 create an order (repeats of an Idempotency-Key return it)
+ *   GET  /api/v1/orders/:orderId                        current order
+ *   POST /api/v1/orders/:orderId/cancel                 409 if paid, else cancel it and its open requests
+ *   POST /api/v1/orders/:orderId/test-payment           settle an order with a test payment
+ *   POST /api/v1/orders/:orderId/swish                  create a payment request (CREATED)
+ *   GET  /api/v1/payments/swish/:paymentId              current payment request
+ *   POST /api/v1/orders/:orderId/dispense               start dispensing a paid order
+ *   POST /api/v1/orders/:orderId/items/:itemId/dispense-status
+ *   POST /api/v1/orders/:orderId/dispense/complete      finish dispensing
+ *   POST /api/v1/orders/:orderId/refunds                create a refund (at most what is left of the total)
+ *   POST /api/v1/refunds/:refundId/process              mark a refund processed
+ *   GET  /swish/:paymentId                              "Swish app": page with Pay / Decline buttons
+ *   POST /swish/:paymentId/:result                      answer a request; result is pay, decline, error or cancel
+ *   GET  /health                                        -> 200 "healthy"
+ *
+ * Configuration (environment variables):
+ *   PAYMENT_SERVER_PORT             port to listen on (default: 8789)
+ *   PAYMENT_SERVER_ALLOWED_ORIGINS  comma separated origins of the PWA (default: http://localhost:3000,
+ *                                   `*` is not accepted); browser requests from other origins are refused
+ *   PAYMENT_SERVER_CURRENCY         currency of the demo prices and orders (default: SEK)
+ *   SWISH_AUTO_PAY_MS               answer every request with PAID after this many ms (default: 0, answer by hand)
+ *   SWISH_EXPIRY_MS                 requests not answered in time become CANCELLED (default: 180000)
+ *   SWISH_REALTIME_URL              realtime stand-in to notify of status changes (e.g. http://localhost:8788)
+ *
+ * Usage:
+ *   npm run payment-server
+ *   NEXT_PUBLIC_VM_SERVICE_URL=http://localhost:8789 NEXT_PUBLIC_VM_SERVICE_CLIENT_ID=test \
+ *     NEXT_PUBLIC_VM_SERVICE_CLIENT_SECRET=test npm run dev
+ *
+ *   curl -X POST localhost:8789/swish/<paymentId>/pay
+ */
+
+const http = require('http');
+const crypto = require('crypto');
+
+const PORT = parseInt(process.env.PAYMENT_SERVER_PORT || '8789', 10);
+const ALLOWED_ORIGINS = (process.env.PAYMENT_SERVER_ALLOWED_ORIGINS || 'http://localhost:3000')
+  .split(',')
+  .map((origin) => origin.trim().replace(/\/$/, ''))
+  .filter(Boolean);
+const CURRENCY = (process.env.PAYMENT_SERVER_CURRENCY || 'SEK').toUpperCase();
+const AUTO_PAY_MS = parseInt(process.env.SWISH_AUTO_PAY_MS || '0', 10);
+const EXPIRY_MS = parseInt(process.env.SWISH_EXPIRY_MS || '180000', 10);
+const REALTIME_URL = (process.env.SWISH_REALTIME_URL || '').replace(/\/$/, '');
+
+const PROJECT_ID = 'payment-server';
+const VM_ID = 'vm-1';
+const TOKEN_TTL_MS = 60 * 60 * 1000;
+
+const TOKEN_PATHS = ['/api/v1/token', '/api/v1/token/refresh'];
+const SPRINGS_PATH = /^\/api\/v1\/stores\/([^/]+)\/springs$/;
+const VM_PATH = /^\/api\/v1\/stores\/([^/]+)\/vms\/([^/]+)\/(connectionStatus|dispense|requestSpringData)$/;
+const VALIDATE_PATH = '/api/v1/orders/validate';
+const ORDERS_PATH = '/api/v1/orders';
+const ORDER_PATH = /^\/api\/v1\/orders\/([^/]+)$/;
+const ORDER_ACTION_PATH =
+  /^\/api\/v1\/orders\/([^/]+)\/(cancel|test-payment|swish|dispense|dispense\/complete|refunds)$/;
+const DISPENSE_STATUS_PATH = /^\/api\/v1\/orders\/([^/]+)\/items\/([^/]+)\/dispense-status$/;
+const PAYMENT_PATH = /^\/api\/v1\/payments\/swish\/([^/]+)$/;
+const PROCESS_REFUND_PATH = /^\/api\/v1\/refunds\/([^/]+)\/process$/;
+const APP_PATH = /^\/swish\/([^/]+)$/;
+const ANSWER_PATH = /^\/swish\/([^/]+)\/(pay|decline|error|cancel)$/;
+
+const ANSWER_STATUS = { pay: 'PAID', decline: 'DECLINED', error: 'ERROR', cancel: 'CANCELLED' };
+
+/**
+ * Products of the demo machine by selection number; selection 5 holds the same
+ * product as 1 (for substitutions) and selection 6 is empty
+ */
+const DRINK = { tax_rate: 12, category: 'Drinks' };
+const SNACK = { tax_rate: 12, category: 'Snacks' };
+const COLA = { ...DRINK, id: 'cola-33', title: 'Coca-Cola 33 cl', price: 15, deposit_amount: 1 };
+const DEMO_PRODUCTS = [
+  { ...COLA, inventory: 6 },
+  { ...DRINK, id: 'water-50', title: 'Ramlösa 50 cl', price: 18, deposit_amount: 2, inventory: 5 },
+  { ...SNACK, id: 'chocolate', title: 'Marabou Mjölkchoklad', price: 25, inventory: 10 },
+  { ...DRINK, id: 'lager-50', title: 'Folköl 3.5% 50 cl', price: 22, deposit_amount: 1, is_age_restricted: true,
+    inventory: 4 },
+  { ...COLA, inventory: 3 },
+  { ...SNACK, id: 'crisps', title: 'OLW Grillchips', price: 20, inventory: 0 },
+];
+
+// Demo springs by store ID
+const springsByStore = new Map();
+
+// Orders and refunds by ID, and the resources created for each idempotency key
+const orders = new Map();
+const refunds = new Map();
+const idempotentResults = new Map();
+
+// Swish payment requests by ID
+const payments = new Map();
+
+function log(...args) {
+  console.log(`[payment-server ${new Date().toISOString()}]`, ...args);
+}
+
+function isAllowedOrigin(req) {
+  const origin = req.headers.origin;
+  // curl and the stand-in's own Swish page
+  return !origin || ALLOWED_ORIGINS.includes(origin) || origin === `http://${req.headers.host}`;
+}
+
+function corsHeaders(req) {
+  const origin = req.headers.origin;
+  if (!origin || !ALLOWED_ORIGINS.includes(origin)) return {};
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': req.headers['access-control-request-headers'] || 'Content-Type, Authorization',
+    'Vary': 'Origin',
+  };
+}
+
+function sendJson(req, res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...corsHeaders(req) });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > 1024 * 1024) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+function parseJson(body) {
+  if (body.length === 0) return {};
+  try {
+    const value = JSON.parse(body.toString());
+    return value && typeof value === 'object' ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+function newId(prefix) {
+  return `${prefix}-${crypto.randomBytes(8).toString('hex')}`;
+}
+
+/**
+ * Major units to minor units, as the PWA does (see src/lib/money)
+ */
+function toMinor(amount) {
+  return Math.round((Number(amount) || 0) * 100);
+}
+
+/**
+ * Run `create` once per idempotency key and return its result for repeats
+ */
+function idempotent(req, scope, create) {
+  const key = req.headers['idempotency-key'];
+  if (!key) return create();
+
+  const cacheKey = `${scope}:${key}`;
+  if (!idempotentResults.has(cacheKey)) idempotentResults.set(cacheKey, create());
+  return idempotentResults.get(cacheKey);
+}
+
+function notifyRealtime(event) {
+  if (!REALTIME_URL) return;
+
+  fetch(`${REALTIME_URL}/emit`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ type: 'payment.status', ...event }),
+  }).catch((error) => log('Failed to notify realtime server:', error.message));
+}
+
+// ============================================
+// Demo machine
+// ============================================
+
+function tokenResponse() {
+  const encode = (value) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const expiresAt = new Date(Date.now() + TOKEN_TTL_MS);
+  const payload = { sub: PROJECT_ID, project_id: PROJECT_ID, exp: Math.floor(expiresAt.getTime() / 1000) };
+  return {
+    // Shaped like a JWT; nothing checks its signature
+    access_token: `${encode({ alg: 'none', typ: 'JWT' })}.${encode(payload)}.stand-in`,
+    refresh_token: crypto.randomBytes(16).toString('hex'),
+    token_type: 'Bearer',
+    expires_at: expiresAt.toISOString(),
+    project_id: PROJECT_ID,
+  };
+}
+
+function getSprings(storeId) {
+  if (!springsByStore.has(storeId)) {
+    const now = new Date().toISOString();
+    springsByStore.set(
+      storeId,
+      DEMO_PRODUCTS.map(({ inventory, ...product }, index) => ({
+        id: `${storeId}-spring-${index + 1}`,
+        vm_id: VM_ID,
+        project_id: PROJECT_ID,
+        store_id: storeId,
+        selection_number: String(index + 1),
+        capacity: 10,
+        inventory,
+        linked_product: product,
+        spring_status: 'active',
+        stripe_code: `S${index + 1}`,
+        last_update: Date.now(),
+        created_at: now,
+        updated_at: now,
+      }))
+    );
+  }
+  return springsByStore.get(storeId);
+}
+
+function findSpring(storeId, vmId, { spring_id: springId, selection_number: selection }) {
+  if (vmId !== VM_ID) return undefined;
+  return getSprings(storeId).find((spring) =>
+    springId ? spring.id === springId : spring.selection_number === String(selection)
+  );
+}
+
+function dispense(storeId, vmId, request) {
+  const spring = findSpring(storeId, vmId, request);
+  if (!spring) return { status: 404, body: { error: `No spring ${request.selection_number} in ${vmId}` } };
+  if (spring.inventory <= 0) return { status: 409, body: { error: `Spring ${spring.selection_number} is empty` } };
+
+  spring.inventory -= 1;
+  spring.updated_at = new Date().toISOString();
+  log(`Dispensed from spring ${spring.selection_number} of ${storeId}/${vmId}; ${spring.inventory} left`);
+  return { status: 200, body: { success: true, message: 'Dispensed' } };
+}
+
+// ============================================
+// Orders
+// ============================================
+
+/**
+ * Check order items against the springs, as vm-service does before payment
+ */
+function validateOrder(request) {
+  const productValidation = (request.items || []).map((item) => {
+    const spring = findSpring(request.store_id, request.vm_id, item);
+    const available = spring ? spring.inventory : 0;
+    const isAvailable = Boolean(spring) && available >= item.quantity;
+    return {
+      spring_id: item.spring_id,
+      selection_number: String(item.selection_number),
+      product_name: spring ? spring.linked_product.title : `Selection ${item.selection_number}`,
+      requested_qty: item.quantity,
+      available_qty: available,
+      spring_status: spring ? spring.spring_status : 'unknown',
+      is_available: isAvailable,
+      is_purchasable: isAvailable,
+      error_message: isAvailable ? null : spring ? `Only ${available} left` : 'Product not found',
+    };
+  });
+  const errors = productValidation.filter((item) => !item.is_available).map((item) => item.error_message);
+  return {
+    valid: productValidation.length > 0 && errors.length === 0,
+    vm_connected: request.vm_id === VM_ID,
+    message: errors.length === 0 ? 'Order is valid' : 'Some products are not available',
+    errors,
+    product_validation: productValidation,
+  };
+}
+
+/**
+ * Create an order priced from the springs; discounts and cash rounding are
+ * taken as sent, since the stand-in does not know the promotions
+ */
+function createOrder(request) {
+  const now = new Date().toISOString();
+  const id = newId('order');
+  const items = request.items.map((item, index) => {
+    const spring = findSpring(request.store_id, request.vm_id, item);
+    const product = spring ? spring.linked_product : {};
+    const unitPrice = spring ? product.price : item.unit_price;
+    return {
+      id: `${id}-item-${index + 1}`,
+      order_id: id,
+      spring_id: item.spring_id,
+      selection_number: String(item.selection_number),
+      product_name: product.title || `Selection ${item.selection_number}`,
+      quantity: item.quantity,
+      unit_price: unitPrice,
+      deposit_amount: spring ? product.deposit_amount || 0 : item.deposit_amount || 0,
+      total_price: (toMinor(unitPrice) * item.quantity) / 100,
+      tax_rate: spring ? product.tax_rate : item.tax_rate,
+      dispense_status: 'pending',
+    };
+  });
+
+  const metadata = request.metadata || {};
+  const totalMinor =
+    items.reduce((sum, item) => sum + (toMinor(item.unit_price) + toMinor(item.deposit_amount)) * item.quantity, 0) -
+    toMinor(metadata.discount_amount) +
+    toMinor(request.rounding_amount);
+
+  const order = {
+    id,
+    order_number: `ORD-${String(orders.size + 1).padStart(5, '0')}`,
+    project_id: PROJECT_ID,
+    store_id: request.store_id,
+    vm_id: request.vm_id,
+    total_amount: totalMinor / 100,
+    currency: CURRENCY,
+    payment_method: metadata.payment_method || null,
+    payment_status: 'pending',
+    order_status: 'pending',
+    payment_verified: false,
+    dispense_status: 'pending',
+    items,
+    metadata,
+    refunded_amount: 0,
+    created_at: now,
+    updated_at: now,
+  };
+  orders.set(id, order);
+  log(`Order ${order.order_number} (${id}) created: ${order.total_amount} ${CURRENCY}`);
+  return order;
+}
+
+function updateOrder(order, changes) {
+  return Object.assign(order, changes, { updated_at: new Date().toISOString() });
+}
+
+/**
+ * Report an order as paid and verified, as vm-service does once a payment is confirmed
+ */
+function markPaid(order, method) {
+  if (order.payment_status === 'paid') return order;
+  updateOrder(order, { payment_method: method, payment_status: 'paid', payment_verified: true, order_status: 'paid' });
+  log(`Order ${order.order_number} paid with ${method}`);
+  return order;
+}
+
+function completeDispense(order) {
+  const statuses = order.items.map((item) => item.dispense_status);
+  const dispenseStatus = statuses.every((status) => status === 'success')
+    ? 'completed'
+    : statuses.some((status) => status === 'success')
+      ? 'partial'
+      : 'failed';
+  return updateOrder(order, { dispense_status: dispenseStatus, order_status: 'completed' });
+}
+
+function createRefund(order, request) {
+  const remaining = toMinor(order.total_amount) - toMinor(order.refunded_amount);
+  const amount = toMinor(request.refund_amount);
+  if (amount > remaining) {
+    return { status: 400, body: { error: `Refund exceeds the ${remaining / 100} ${order.currency} left to refund` } };
+  }
+
+  const refund = {
+    id: newId('refund'),
+    refund_number: `REF-${String(refunds.size + 1).padStart(5, '0')}`,
+    order_id: order.id,
+    refund_amount: amount / 100,
+    refund_reason: request.refund_reason,
+    refund_type: request.refund_type,
+    failed_items: request.failed_items || [],
+    status: 'pending',
+    created_at: new Date().toISOString(),
+  };
+  refunds.set(refund.id, refund);
+  updateOrder(order, { refunded_amount: (toMinor(order.refunded_amount) + amount) / 100 });
+  log(`Refund ${refund.refund_number} of ${refund.refund_amount} ${order.currency} for order ${order.order_number}`);
+  return { status: 201, body: { success: true, data: refund } };
+}
+
+// ============================================
+// Swish
+// ============================================
+
+/**
+ * Placeholder QR code: an SVG naming the request, since the stand-in has no QR encoder
+ */
+function placeholderQrCode(payment) {
+  const svg =
+    '<svg xmlns="http://www.w3.org/2000/svg" width="240" height="240">' +
+    '<rect width="240" height="240" fill="#fff" stroke="#000" stroke-width="8"/>' +
+    '<text x="120" y="110" font-family="sans-serif" font-size="22" text-anchor="middle">SWISH TEST</text>' +
+    `<text x="120" y="140" font-family="monospace" font-size="12" text-anchor="middle">${payment.id}</text>` +
+    '</svg>';
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`;
+}
+
+function answer(payment, status) {
+  if (payment.status !== 'CREATED') return false;
+
+  payment.status = status;
+  if (status === 'PAID') {
+    payment.payment_reference = crypto.randomBytes(16).toString('hex').toUpperCase();
+    payment.paid_at = new Date().toISOString();
+    const order = orders.get(payment.order_id);
+    if (order) markPaid(order, 'swish');
+  }
+  if (status === 'ERROR') {
+    payment.error_code = 'RF07';
+    payment.error_message = 'Transaction declined';
+  }
+  log(`Payment ${payment.id} for order ${payment.order_id}: ${status}`);
+  notifyRealtime({ order_id: payment.order_id, payment_id: payment.id, payment_method: 'swish', status });
+  return true;
+}
+
+function currentPayment(id) {
+  const payment = payments.get(id);
+  if (payment && payment.status === 'CREATED' && Date.now() > new Date(payment.expires_at).getTime()) {
+    answer(payment, 'CANCELLED');
+  }
+  return payment;
+}
+
+function createPayment(order) {
+  const payment = {
+    id: newId('swish'),
+    order_id: order.id,
+    status: 'CREATED',
+    payment_request_token: crypto.randomBytes(16).toString('hex'),
+    amount: toMinor(order.total_amount),
+    currency: order.currency,
+    expires_at: new Date(Date.now() + EXPIRY_MS).toISOString(),
+  };
+  payment.qr_code = placeholderQrCode(payment);
+  payments.set(payment.id, payment);
+
+  log(`Payment ${payment.id} created for order ${order.id}; answer it at http://localhost:${PORT}/swish/${payment.id}`);
+  if (AUTO_PAY_MS > 0) {
+    setTimeout(() => answer(payment, 'PAID'), AUTO_PAY_MS);
+  }
+  return payment;
+}
+
+function renderApp(payment) {
+  const buttons = Object.keys(ANSWER_STATUS)
+    .map((result) => `<button onclick="answer('${result}')">${result}</button>`)
+    .join(' ');
+  return `<!doctype html><html><head><meta name="viewport" content="width=device-width"><title>Swish stand-in</title></head>
+<body style="font-family:sans-serif;padding:2rem">
+<h1>Swish stand-in</h1>
+<p>Payment <code>${payment.id}</code> for order <code>${payment.order_id}</code></p>
+<p>Status: <strong id="status">${payment.status}</strong></p>
+${buttons}
+<script>
+function answer(result) {
+  fetch('/swish/${payment.id}/' + result, { method: 'POST' })
+    .then((response) => response.json())
+    .then((body) => { document.getElementById('status').textContent = body.data ? body.data.status : body.error; });
+}
+</script></body></html>`;
+}
+
+// ============================================
+// Routes
+// ============================================
+
+/**
+ * Answer an order action; returns [status, body]
+ */
+function handleOrderAction(req, order, action, request) {
+  switch (action) {
+    case 'cancel':
+      // vm-service refuses to cancel paid orders ...
+      if (order.payment_status === 'paid') return [409, { error: 'Order is already paid' }];
+      // ... and closes the payment requests still open for them
+      for (const payment of payments.values()) {
+        if (payment.order_id === order.id) answer(payment, 'CANCELLED');
+      }
+      updateOrder(order, { order_status: 'cancelled', payment_status: 'cancelled' });
+      log(`Order ${order.order_number} cancelled: ${request.reason || 'no reason given'}`);
+      return [200, { success: true, data: order }];
+
+    case 'test-payment':
+      if (order.order_status === 'cancelled') return [409, { error: 'Order is cancelled' }];
+      markPaid(order, 'test');
+      notifyRealtime({ order_id: order.id, payment_method: 'test', status: 'paid' });
+      return [200, { success: true, data: order }];
+
+    case 'swish':
+      if (order.payment_status !== 'pending') return [409, { error: `Order is already ${order.payment_status}` }];
+      return [201, { success: true, data: idempotent(req, `swish:${order.id}`, () => createPayment(order)) }];
+
+    case 'dispense':
+      if (order.payment_status !== 'paid') return [409, { error: 'Order is not paid' }];
+      if (order.order_status === 'paid') {
+        updateOrder(order, { order_status: 'dispensing', dispense_status: 'in_progress' });
+      }
+      return [200, { success: true, message: 'Dispense initiated' }];
+
+    case 'dispense/complete':
+      if (order.payment_status !== 'paid') return [409, { error: 'Order is not paid' }];
+      return [200, { success: true, data: completeDispense(order) }];
+
+    case 'refunds': {
+      if (order.payment_status !== 'paid') return [409, { error: 'Order is not paid' }];
+      const { status, body } = idempotent(req, `refund:${order.id}`, () => createRefund(order, request));
+      return [status, body];
+    }
+  }
+  return [404, { error: 'Not found' }];
+}
+
+/**
+ * Answer a vm-service API request; returns [status, body]
+ */
+function handleApi(req, pathname, request) {
+  let match;
+
+  if (req.method === 'POST' && TOKEN_PATHS.includes(pathname)) {
+    return [200, tokenResponse()];
+  }
+
+  if (!/^Bearer \S+/.test(req.headers.authorization || '')) {
+    return [401, { error: 'Missing bearer token' }];
+  }
+
+  if (req.method === 'GET' && (match = pathname.match(SPRINGS_PATH))) {
+    return [200, { data: getSprings(decodeURIComponent(match[1])) }];
+  }
+
+  if ((match = pathname.match(VM_PATH))) {
+    const [, storeId, vmId, command] = match.map(decodeURIComponent);
+    if (command === 'connectionStatus' && req.method === 'GET') {
+      const lastSeen = new Date().toISOString();
+      return [200, { connected: vmId === VM_ID, vm_id: vmId, store_id: storeId, last_seen: lastSeen }];
+    }
+    if (command === 'dispense' && req.method === 'POST') {
+      const { status, body } = idempotent(req, 'dispense', () => dispense(storeId, vmId, request));
+      return [status, body];
+    }
+    if (command === 'requestSpringData' && req.method === 'POST') {
+      return [200, { success: true, message: 'Spring data requested' }];
+    }
+  }
+
+  if (req.method === 'POST' && pathname === VALIDATE_PATH) {
+    return [200, { success: true, data: validateOrder(request) }];
+  }
+
+  if (req.method === 'POST' && pathname === ORDERS_PATH) {
+    if (!request.store_id || !request.vm_id || !Array.isArray(request.items) || request.items.length === 0) {
+      return [400, { error: 'store_id, vm_id and at least one item are required' }];
+    }
+    return [201, { success: true, data: idempotent(req, 'order', () => createOrder(request)) }];
+  }
+
+  if (req.method === 'GET' && (match = pathname.match(ORDER_PATH))) {
+    const order = orders.get(decodeURIComponent(match[1]));
+    return order ? [200, { data: order }] : [404, { error: 'Order not found' }];
+  }
+
+  if (req.method === 'POST' && (match = pathname.match(ORDER_ACTION_PATH))) {
+    const order = orders.get(decodeURIComponent(match[1]));
+    return order ? handleOrderAction(req, order, match[2], request) : [404, { error: 'Order not found' }];
+  }
+
+  if (req.method === 'POST' && (match = pathname.match(DISPENSE_STATUS_PATH))) {
+    const order = orders.get(decodeURIComponent(match[1]));
+    const item = order && order.items.find((orderItem) => orderItem.id === decodeURIComponent(match[2]));
+    if (!item) return [404, { error: 'Order item not found' }];
+    Object.assign(item, { dispense_status: request.status, dispense_error: request.error || null });
+    if (request.metadata) item.dispense_metadata = request.metadata;
+    updateOrder(order, {});
+    return [200, { success: true }];
+  }
+
+  if (req.method === 'GET' && (match = pathname.match(PAYMENT_PATH))) {
+    const payment = currentPayment(decodeURIComponent(match[1]));
+    return payment ? [200, { success: true, data: payment }] : [404, { error: 'Payment not found' }];
+  }
+
+  if (req.method === 'POST' && (match = pathname.match(PROCESS_REFUND_PATH))) {
+    const refund = refunds.get(decodeURIComponent(match[1]));
+    if (!refund) return [404, { error: 'Refund not found' }];
+    Object.assign(refund, { status: 'processed', processed_at: refund.processed_at || new Date().toISOString() });
+    return [200, { success: true, message: 'Refund processed' }];
+  }
+
+  return [404, { error: `No stand-in for ${req.method} ${pathname}` }];
+}
+
+// ============================================
+// HTTP server
+// ============================================
+
+const server = http.createServer(async (req, res) => {
+  const { pathname } = new URL(req.url, `http://${req.headers.host}`);
+
+  if (req.method === 'GET' && pathname === '/health') {
+    res.writeHead(200, { 'Content-Type': 'text/plain' });
+    res.end('healthy');
+    return;
+  }
+
+  if (!isAllowedOrigin(req)) {
+    sendJson(req, res, 403, { error: `Origin ${req.headers.origin} is not allowed` });
+    return;
+  }
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders(req));
+    res.end();
+    return;
+  }
+
+  let request;
+  try {
+    request = parseJson(await readBody(req));
+  } catch (error) {
+    sendJson(req, res, 413, { error: error.message });
+    return;
+  }
+  if (!request) {
+    sendJson(req, res, 400, { error: 'Request body is not a JSON object' });
+    return;
+  }
+
+  if (pathname.startsWith('/api/')) {
+    const [status, body] = handleApi(req, pathname, request);
+    sendJson(req, res, status, body);
+    return;
+  }
+
+  let match;
+  if (req.method === 'GET' && (match = pathname.match(APP_PATH))) {
+    const payment = currentPayment(decodeURIComponent(match[1]));
+    if (!payment) {
+      sendJson(req, res, 404, { error: 'Payment not found' });
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    res.end(renderApp(payment));
+    return;
+  }
+
+  if (req.method === 'POST' && (match = pathname.match(ANSWER_PATH))) {
+    const payment = currentPayment(decodeURIComponent(match[1]));
+    if (!payment) {
+      sendJson(req, res, 404, { error: 'Payment not found' });
+      return;
+    }
+    if (!answer(payment, ANSWER_STATUS[match[2]])) {
+      sendJson(req, res, 409, { error: `Payment is already ${payment.status}` });
+      return;
+    }
+    sendJson(req, res, 200, { success: true, data: payment });
+    return;
+  }
+
+  sendJson(req, res, 404, { error: 'Not found' });
+});
+
+if (ALLOWED_ORIGINS.length === 0 || ALLOWED_ORIGINS.includes('*')) {
+  console.error('❌ PAYMENT_SERVER_ALLOWED_ORIGINS must list the PWA origins to serve');
+  process.exit(1);
+}
+
+server.listen(PORT, () => {
+  log(`Listening on port ${PORT} for ${ALLOWED_ORIGINS.join(', ')}; prices in ${CURRENCY}`);
+  if (AUTO_PAY_MS > 0) log(`Answering payment requests with PAID after ${AUTO_PAY_MS}ms`);
+});
@@ -0,0 +1,335 @@
+/**
+ * Realtime stand-in server for Vamo Store
+ *
+ * Local substitute for the vm-service event stream, for developing and testing
+ * the realtime channel (src/lib/api/realtime.ts) without a real backend. It
+ * speaks both transports the PWA uses and does not check access tokens.
+ *
+ * Endpoints:
+ *   GET  /api/v1/stores/:storeId/events/ws   WebSocket upgrade, one JSON event per text frame
+ *   GET  /api/v1/stores/:storeId/events      Server-Sent Events, one JSON event per `data:` line
+ *   POST /emit   { "type": "...", "store_id": "...", ... }  -> broadcast an event to subscribers of that store
+ *   GET  /health                                             -> 200 "healthy"
+ *
+ * Event shapes (see realtimeEventSchema in src/lib/api/schemas.ts):
+ *   { "type": "vm.connection", "store_id", "vm_id", "connected", "last_seen" }
+ *   { "type": "spring.inventory", "store_id", "spring_id", "inventory", "spring_status" }
+ *   { "type": "dispense.status", "store_id", "order_id", "item_id", "status", "error" }
+ *   { "type": "payment.status", "store_id", "order_id", "payment_id", "payment_method", "status" }
+ *
+ * Configuration (environment variables):
+ *   REALTIME_PORT          port to listen on (default: 8788)
+ *   REALTIME_DISABLE_WS    set to 1 to reject WebSocket upgrades (exercises the SSE fallback)
+ *   REALTIME_SIMULATE      set to 1 to emit random events for REALTIME_STORE_ID
+ *   REALTIME_STORE_ID      store used by the simulation
+ *   REALTIME_VM_ID         VM whose connection the simulation toggles
+ *   REALTIME_SPRING_IDS    comma separated spring IDs whose inventory the simulation changes
+ *   REALTIME_INTERVAL_MS   simulation interval (default: 5000)
+ *
+ * Usage:
+ *   NEXT_PUBLIC_VM_REALTIME_URL=http://localhost:8788 npm run dev
+ *   REALTIME_SIMULATE=1 REALTIME_STORE_ID=store-1 REALTIME_VM_ID=vm-1 node scripts/realtime-server.js
+ *
+ *   curl -X POST localhost:8788/emit -d '{"type":"vm.connection","store_id":"store-1","vm_id":"vm-1","connected":false}'
+ */
+
+const http = require('http');
+const crypto = require('crypto');
+
+const PORT = parseInt(process.env.REALTIME_PORT || '8788', 10);
+const DISABLE_WS = process.env.REALTIME_DISABLE_WS === '1';
+const SIMULATE = process.env.REALTIME_SIMULATE === '1';
+const SIM_STORE_ID = process.env.REALTIME_STORE_ID || '';
+const SIM_VM_ID = process.env.REALTIME_VM_ID || '';
+const SIM_SPRING_IDS = (process.env.REALTIME_SPRING_IDS || '')
+  .split(',')
+  .map((entry) => entry.trim())
+  .filter(Boolean);
+const SIM_INTERVAL_MS = parseInt(process.env.REALTIME_INTERVAL_MS || '5000', 10);
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const EVENTS_PATH = /^\/api\/v1\/stores\/([^/]+)\/events(\/ws)?$/;
+const HEARTBEAT_MS = 15000;
+
+// Connected clients per store: { send(json), close() }
+const clients = new Map();
+
+function log(...args) {
+  console.log(`[realtime-server ${new Date().toISOString()}]`, ...args);
+}
+
+function addClient(storeId, client) {
+  if (!clients.has(storeId)) {
+    clients.set(storeId, new Set());
+  }
+  clients.get(storeId).add(client);
+  log(`${client.transport} client connected for store ${storeId} (${clients.get(storeId).size} total)`);
+
+  return () => {
+    const storeClients = clients.get(storeId);
+    if (!storeClients) return;
+    storeClients.delete(client);
+    if (storeClients.size === 0) clients.delete(storeId);
+    log(`${client.transport} client disconnected from store ${storeId}`);
+  };
+}
+
+/**
+ * Send an event to every client of its store (or every client when it has no store_id)
+ */
+function broadcast(event) {
+  const payload = JSON.stringify(event);
+  const targets = event.store_id
+    ? [...(clients.get(event.store_id) || [])]
+    : [...clients.values()].flatMap((storeClients) => [...storeClients]);
+
+  targets.forEach((client) => client.send(payload));
+  log(`Broadcast ${event.type} to ${targets.length} client(s)`);
+  return targets.length;
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+  });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+      if (body.length > 64 * 1024) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+// ============================================
+// Server-Sent Events
+// ============================================
+
+function handleSse(req, res, storeId) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'Access-Control-Allow-Origin': '*',
+  });
+  res.write('retry: 5000\n\n');
+
+  const client = {
+    transport: 'sse',
+    send: (payload) => res.write(`data: ${payload}\n\n`),
+  };
+  const remove = addClient(storeId, client);
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_MS);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    remove();
+  });
+}
+
+// ============================================
+// WebSocket (RFC 6455, text frames only)
+// ============================================
+
+function encodeFrame(opcode, payload) {
+  const data = Buffer.from(payload);
+  let header;
+  if (data.length < 126) {
+    header = Buffer.from([0x80 | opcode, data.length]);
+  } else if (data.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(data.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(data.length), 2);
+  }
+  return Buffer.concat([header, data]);
+}
+
+/**
+ * Parse complete client frames from the buffer; returns the unconsumed remainder
+ */
+function decodeFrames(buffer, onFrame) {
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let headerLength = 2;
+
+    if (length === 126) {
+      if (buffer.length - offset < 4) break;
+      length = buffer.readUInt16BE(offset + 2);
+      headerLength = 4;
+    } else if (length === 127) {
+      if (buffer.length - offset < 10) break;
+      length = Number(buffer.readBigUInt64BE(offset + 2));
+      headerLength = 10;
+    }
+
+    const maskLength = masked ? 4 : 0;
+    const frameLength = headerLength + maskLength + length;
+    if (buffer.length - offset < frameLength) break;
+
+    const payload = Buffer.from(buffer.subarray(offset + headerLength + maskLength, offset + frameLength));
+    if (masked) {
+      const mask = buffer.subarray(offset + headerLength, offset + headerLength + 4);
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= mask[i % 4];
+      }
+    }
+
+    onFrame(opcode, payload);
+    offset += frameLength;
+  }
+  return buffer.subarray(offset);
+}
+
+function handleUpgrade(req, socket) {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  const match = url.pathname.match(EVENTS_PATH);
+  const key = req.headers['sec-websocket-key'];
+
+  if (DISABLE_WS || !match || !match[2] || !key) {
+    socket.end('HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n');
+    return;
+  }
+
+  const accept = crypto.createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  const storeId = decodeURIComponent(match[1]);
+  const client = {
+    transport: 'websocket',
+    send: (payload) => socket.write(encodeFrame(0x1, payload)),
+  };
+  const remove = addClient(storeId, client);
+
+  let pending = Buffer.alloc(0);
+  socket.on('data', (chunk) => {
+    pending = decodeFrames(Buffer.concat([pending, chunk]), (opcode, payload) => {
+      if (opcode === 0x8) {
+        socket.end(encodeFrame(0x8, payload));
+      } else if (opcode === 0x9) {
+        socket.write(encodeFrame(0xa, payload));
+      }
+      // Text frames from clients are not part of the protocol; ignore them
+    });
+  });
+  socket.on('close', remove);
+  socket.on('error', () => socket.destroy());
+}
+
+// ============================================
+// HTTP server
+// ============================================
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    });
+    res.end();
+    return;
+  }
+
+  if (req.method === 'GET' && url.pathname === '/health') {
+    res.writeHead(200, { 'Content-Type': 'text/plain' });
+    res.end('healthy');
+    return;
+  }
+
+  const match = url.pathname.match(EVENTS_PATH);
+  if (req.method === 'GET' && match && !match[2]) {
+    handleSse(req, res, decodeURIComponent(match[1]));
+    return;
+  }
+
+  if (req.method === 'POST' && url.pathname === '/emit') {
+    try {
+      const event = JSON.parse(await readBody(req));
+      if (!event || typeof event.type !== 'string') {
+        sendJson(res, 400, { error: 'Event must be a JSON object with a type' });
+        return;
+      }
+      sendJson(res, 200, { delivered: broadcast(event) });
+    } catch (error) {
+      sendJson(res, 400, { error: error.message || 'Invalid JSON' });
+    }
+    return;
+  }
+
+  sendJson(res, 404, { error: 'Not found' });
+});
+
+server.on('upgrade', handleUpgrade);
+
+// ============================================
+// Simulation
+// ============================================
+
+function startSimulation() {
+  if (!SIM_STORE_ID) {
+    log('REALTIME_SIMULATE is set but REALTIME_STORE_ID is missing; simulation disabled');
+    return;
+  }
+
+  let connected = true;
+  const inventory = new Map(SIM_SPRING_IDS.map((springId) => [springId, 10]));
+
+  setInterval(() => {
+    if (SIM_VM_ID && Math.random() < 0.2) {
+      connected = !connected;
+      broadcast({
+        type: 'vm.connection',
+        store_id: SIM_STORE_ID,
+        vm_id: SIM_VM_ID,
+        connected,
+        last_seen: new Date().toISOString(),
+      });
+    }
+
+    if (SIM_SPRING_IDS.length > 0) {
+      const springId = SIM_SPRING_IDS[Math.floor(Math.random() * SIM_SPRING_IDS.length)];
+      const current = inventory.get(springId);
+      const next = current > 0 ? current - 1 : 10; // Refill when empty
+      inventory.set(springId, next);
+      broadcast({
+        type: 'spring.inventory',
+        store_id: SIM_STORE_ID,
+        spring_id: springId,
+        inventory: next,
+      });
+    }
+  }, SIM_INTERVAL_MS);
+
+  log(`Simulating events for store ${SIM_STORE_ID} every ${SIM_INTERVAL_MS}ms`);
+}
+
+server.listen(PORT, () => {
+  log(`Listening on port ${PORT}${DISABLE_WS ? ' (WebSocket disabled, SSE only)' : ''}`);
+  if (SIMULATE) startSimulation();
+});
@@ -0,0 +1,273 @@
+/**
+ * Token Broker for Vamo Store
+ *
+ * Small backend-for-frontend service that keeps the vm-service client secret
+ * off the browser. The PWA asks the broker for a token for its store, the
+ * broker exchanges its own client credentials with vm-service and hands back
+ * the access token (never the secret or the refresh token).
+ *
+ * NOT DELIVERED: short-lived, store-scoped tokens. The broker hands out the
+ * token vm-service issues for its client credentials. It passes the store ID
+ * along, but unless vm-service scopes the token to it, the token is valid for
+ * the whole project until vm-service's own expiry. Scoping and lifetime have
+ * to be enforced by vm-service (or by a broker that proxies every API call);
+ * until then the broker only limits who can fetch a token, and refuses to
+ * start without a list of stores and origins it serves.
+ *
+ * Endpoints:
+ *   POST /token   { "store_id": "<store id>" }  -> { access_token, token_type, expires_at, project_id, store_id }
+ *   GET  /health                                -> 200 "healthy"
+ *
+ * Configuration (environment variables):
+ *   VM_SERVICE_URL             vm-service base URL (required)
+ *   VM_SERVICE_CLIENT_ID       client ID (required)
+ *   VM_SERVICE_CLIENT_SECRET   client secret (required)
+ *   BROKER_PORT                port to listen on (default: 8787)
+ *   BROKER_ALLOWED_ORIGINS     comma separated origins of the PWA (required, `*` is not accepted);
+ *                              token requests without an Origin header are refused
+ *   BROKER_ALLOWED_STORES      comma separated store IDs the broker may issue tokens for (required)
+ *
+ * Usage:
+ *   VM_SERVICE_URL=http://localhost:8080 \
+ *   VM_SERVICE_CLIENT_ID=... VM_SERVICE_CLIENT_SECRET=... \
+ *   BROKER_ALLOWED_ORIGINS=http://localhost:3000 BROKER_ALLOWED_STORES=... \
+ *   node scripts/token-broker.js
+ */
+
+const http = require('http');
+
+const VM_SERVICE_URL = (process.env.VM_SERVICE_URL || '').replace(/\/$/, '');
+const CLIENT_ID = (process.env.VM_SERVICE_CLIENT_ID || '').trim();
+const CLIENT_SECRET = (process.env.VM_SERVICE_CLIENT_SECRET || '').trim();
+const PORT = parseInt(process.env.BROKER_PORT || '8787', 10);
+const EXPIRY_BUFFER_MS = 60 * 1000;
+
+const parseList = (value) =>
+  (value || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+const ALLOWED_ORIGINS = parseList(process.env.BROKER_ALLOWED_ORIGINS);
+const ALLOWED_STORES = parseList(process.env.BROKER_ALLOWED_STORES);
+
+// Upstream tokens cached per store, plus in-flight requests so concurrent
+// PWA clients share a single exchange with vm-service
+const upstreamTokens = new Map();
+const inFlight = new Map();
+
+function log(...args) {
+  console.log(`[token-broker ${new Date().toISOString()}]`, ...args);
+}
+
+/**
+ * Exchange the broker's client credentials for a vm-service token
+ */
+async function requestUpstreamToken(storeId) {
+  const response = await fetch(`${VM_SERVICE_URL}/api/v1/token`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+    },
+    body: JSON.stringify({
+      client_id: CLIENT_ID,
+      client_secret: CLIENT_SECRET,
+      // Lets vm-service scope the token to this store when it supports it
+      store_id: storeId,
+    }),
+  });
+
+  const text = await response.text();
+  if (!response.ok) {
+    let message = `vm-service token request failed with status ${response.status}`;
+    try {
+      const body = JSON.parse(text);
+      message = body.error || body.message || message;
+    } catch {
+      // Not JSON
+    }
+    if (response.status < 500) {
+      // Not something a retry fixes: usually the broker's own credentials are wrong
+      log(`vm-service refused the token request (${response.status}): ${message}`);
+    }
+    const error = new Error(message);
+    error.status = 502;
+    throw error;
+  }
+
+  const token = JSON.parse(text);
+  if (!token.access_token) {
+    const error = new Error('vm-service token response is missing access_token');
+    error.status = 502;
+    throw error;
+  }
+
+  return {
+    accessToken: token.access_token,
+    tokenType: token.token_type || 'Bearer',
+    expiresAt: new Date(token.expires_at).getTime(),
+    projectId: token.project_id,
+  };
+}
+
+/**
+ * Get a valid upstream token for the store (cached, single-flight)
+ */
+async function getUpstreamToken(storeId) {
+  const cached = upstreamTokens.get(storeId);
+  if (cached && Date.now() < cached.expiresAt - EXPIRY_BUFFER_MS) {
+    return cached;
+  }
+
+  if (inFlight.has(storeId)) {
+    return inFlight.get(storeId);
+  }
+
+  const request = requestUpstreamToken(storeId)
+    .then((token) => {
+      upstreamTokens.set(storeId, token);
+      log(`Issued upstream token for store ${storeId}, expires ${new Date(token.expiresAt).toISOString()}`);
+      return token;
+    })
+    .finally(() => inFlight.delete(storeId));
+
+  inFlight.set(storeId, request);
+  return request;
+}
+
+function corsHeaders(origin) {
+  if (origin && ALLOWED_ORIGINS.includes(origin)) {
+    return { 'Access-Control-Allow-Origin': origin, 'Vary': 'Origin' };
+  }
+  return {};
+}
+
+function sendJson(res, status, body, headers = {}) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Cache-Control': 'no-store',
+    ...headers,
+  });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', (chunk) => {
+      data += chunk;
+      if (data.length > 10 * 1024) {
+        reject(Object.assign(new Error('Request body too large'), { status: 413 }));
+        req.destroy();
+      }
+    });
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+  });
+}
+
+async function handleToken(req, res, cors) {
+  // Browsers always send an Origin on a cross-origin POST; requests without one
+  // (curl, scripts) are not the PWA and get no token
+  const origin = req.headers.origin;
+  if (!origin) {
+    return sendJson(res, 403, { error: 'Origin header is required' }, cors);
+  }
+  if (!ALLOWED_ORIGINS.includes(origin)) {
+    return sendJson(res, 403, { error: `Origin ${origin} is not allowed` }, cors);
+  }
+
+  let storeId;
+  try {
+    const body = JSON.parse((await readBody(req)) || '{}');
+    storeId = typeof body.store_id === 'string' ? body.store_id.trim() : '';
+  } catch {
+    return sendJson(res, 400, { error: 'Request body must be JSON' }, cors);
+  }
+
+  if (!storeId) {
+    return sendJson(res, 400, { error: 'store_id is required' }, cors);
+  }
+
+  if (!ALLOWED_STORES.includes(storeId)) {
+    return sendJson(res, 403, { error: `Store ${storeId} is not served by this broker` }, cors);
+  }
+
+  const token = await getUpstreamToken(storeId);
+
+  // The PWA never gets the refresh token; it comes back to the broker instead
+  return sendJson(
+    res,
+    200,
+    {
+      access_token: token.accessToken,
+      token_type: token.tokenType,
+      expires_at: new Date(token.expiresAt).toISOString(),
+      project_id: token.projectId,
+      store_id: storeId,
+    },
+    cors
+  );
+}
+
+const server = http.createServer(async (req, res) => {
+  const cors = corsHeaders(req.headers.origin);
+  const url = new URL(req.url, 'http://localhost');
+
+  try {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        ...cors,
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, Accept',
+        'Access-Control-Max-Age': '600',
+      });
+      return res.end();
+    }
+
+    if (req.method === 'GET' && url.pathname === '/health') {
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      return res.end('healthy\n');
+    }
+
+    if (req.method === 'POST' && url.pathname === '/token') {
+      return await handleToken(req, res, cors);
+    }
+
+    return sendJson(res, 404, { error: 'Not found' }, cors);
+  } catch (error) {
+    log('Request failed:', error.message);
+    return sendJson(res, error.status || 500, { error: error.message || 'Internal error' }, cors);
+  }
+});
+
+function main() {
+  const missing = [
+    ['VM_SERVICE_URL', VM_SERVICE_URL],
+    ['VM_SERVICE_CLIENT_ID', CLIENT_ID],
+    ['VM_SERVICE_CLIENT_SECRET', CLIENT_SECRET],
+  ]
+    .filter(([, value]) => !value)
+    .map(([name]) => name);
+
+  if (missing.length > 0) {
+    console.error(`❌ Missing required environment variables: ${missing.join(', ')}`);
+    process.exit(1);
+  }
+
+  // Without both lists anyone could fetch a token that may be valid for the whole project
+  if (ALLOWED_STORES.length === 0 || ALLOWED_ORIGINS.length === 0 || ALLOWED_ORIGINS.includes('*')) {
+    console.error('❌ BROKER_ALLOWED_STORES and BROKER_ALLOWED_ORIGINS must list the stores and PWA origins to serve');
+    process.exit(1);
+  }
+
+  server.listen(PORT, () => {
+    log(`Listening on http://localhost:${PORT}`);
+    log(`Forwarding token requests to ${VM_SERVICE_URL}`);
+    log(`Serving stores: ${ALLOWED_STORES.join(', ')}`);
+    log(`Allowed origins: ${ALLOWED_ORIGINS.join(', ')}`);
+  });
+}
+
+main();
@@ -3,14 +3,56 @@
 import { useRouter } from 'next/navigation';
 import { Header } from '@/components/layout/Header';
 import { CartItem } from '@/components/cart/CartItem';
-import { useCartStore } from '@/lib/stores/cartStore';
+import { TaxSummary } from '@/components/cart/TaxSummary';
+import { CouponInput } from '@/components/cart/CouponInput';
+import { getCartScope, useCartStore } from '@/lib/stores/cartStore';
+import { useValidatePrePayment } from '@/lib/api/hooks';
+import { buildCreateOrderRequest } from '@/lib/payment';
+import { mapValidationToCart } from '@/lib/cartRevalidation';
 import { formatPrice } from '@/lib/utils/formatters';
+import { showApiError, showError } from '@/lib/utils/toast';
 import { ShoppingCart } from 'lucide-react';
 
 export default function CartPage() {
   const router = useRouter();
-  const { items, getTotal, clearCart } = useCartStore();
-  const total = getTotal();
+  const { items, getTax, getDiscounts, couponCode, clearCart, lineIssues, setLineIssues } = useCartStore();
+  const { mutateAsync: validatePrePayment, isPending: validating } = useValidatePrePayment();
+  const tax = getTax();
+  const total = tax.total;
+  const promotions = getDiscounts();
+
+  const handleCheckout = async () => {
+    const scope = getCartScope(items);
+    // The payment page validates the order anyway; only a cart that failed before is checked here
+    if (lineIssues === null || !scope) {
+      router.push('/checkout');
+      return;
+    }
+
+    try {
+      const result = await validatePrePayment(
+        buildCreateOrderRequest({ items, scope, tax, promotions, couponCode })
+      );
+      if (result.data.valid) {
+        setLineIssues(null);
+        router.push('/checkout');
+        return;
+      }
+
+      const issues = mapValidationToCart(items, result.data.product_validation || []);
+      setLineIssues(issues);
+      showError('Some Products Need Attention', {
+        description:
+          Object.keys(issues).length > 0
+            ? 'Check the highlighted products in your cart.'
+            : result.data.errors?.join(', ') || result.data.message || 'Order validation failed',
+        duration: 8000,
+      });
+    } catch (err) {
+      console.error('Cart validation failed:', err);
+      showApiError(err);
+    }
+  };
 
   if (items.length === 0) {
     return (
@@ -50,12 +92,14 @@ export default function CartPage() {
           ))}
         </div>
         
+        {/* Discount Code */}
+        <div className="mt-6">
+          <CouponInput />
+        </div>
+
         {/* Summary */}
-        <div className="mt-6 p-4 bg-card rounded-2xl shadow-sm">
-          <div className="flex items-center justify-between mb-4">
-            <span className="text-muted-foreground">Subtotal</span>
-            <span className="font-semibold text-foreground">{formatPrice(total)}</span>
-          </div>
+        <div className="mt-3 p-4 bg-card rounded-2xl shadow-sm">
+          <TaxSummary tax={tax} discounts={promotions.discounts} />
           <div className="flex items-center justify-between border-t border-border pt-4">
             <span className="font-semibold text-foreground">Total</span>
             <span className="text-xl font-bold text-price">{formatPrice(total)}</span>
@@ -66,10 +110,11 @@ export default function CartPage() {
       {/* Checkout Button */}
       <div className="fixed bottom-0 left-0 right-0 p-4 bg-background safe-bottom">
         <button
-          onClick={() => router.push('/checkout')}
+          onClick={handleCheckout}
           className="vm-btn-primary"
+          disabled={validating}
         >
-          Checkout
+          {validating ? 'Checking Availability...' : 'Checkout'}
         </button>
       </div>
     </div>
@@ -2,20 +2,27 @@
 
 import { useRouter } from 'next/navigation';
 import { Header } from '@/components/layout/Header';
+import { TaxSummary } from '@/components/cart/TaxSummary';
 import { useCartStore } from '@/lib/stores/cartStore';
 import { useAppStore } from '@/lib/stores/appStore';
 import { formatPrice } from '@/lib/utils/formatters';
+import { multiply } from '@/lib/money';
 import { AlertTriangle } from 'lucide-react';
 
 export default function CheckoutPage() {
   const router = useRouter();
-  const { items, getTotal, hasAgeRestrictedItems } = useCartStore();
+  const { items, getTax, getDiscounts, hasAgeRestrictedItems, revalidating, pendingChanges } = useCartStore();
   const { ageVerification } = useAppStore();
-  const total = getTotal();
+  const tax = getTax();
+  const total = tax.total;
   
   const needsAgeVerification = hasAgeRestrictedItems() && ageVerification.status !== 'approved';
+  // CartRevalidation checks the cart against fresh springs on entering checkout
+  const blocked = revalidating || !!pendingChanges;
 
   const handleProceed = () => {
+    if (blocked) return;
+
     if (needsAgeVerification) {
       router.push('/age-verification');
     } else {
@@ -56,14 +63,15 @@ export default function CheckoutPage() {
                   </div>
                 </div>
                 <span className="font-semibold text-foreground">
-                  {formatPrice(item.product.price * item.quantity)}
+                  {formatPrice(multiply(item.product.price, item.quantity))}
                 </span>
               </div>
             ))}
           </div>
           
           <div className="p-4 bg-secondary/50">
-            <div className="flex items-center justify-between">
+            <TaxSummary tax={tax} discounts={getDiscounts().discounts} />
+            <div className="flex items-center justify-between border-t border-border pt-4">
               <span className="font-semibold text-foreground">Total</span>
               <span className="text-xl font-bold text-price">
                 {formatPrice(total)}
@@ -93,8 +101,13 @@ export default function CheckoutPage() {
         <button
           onClick={handleProceed}
           className="vm-btn-primary"
+          disabled={blocked}
         >
-          {needsAgeVerification ? 'Verify Age' : `Pay - ${formatPrice(total)}`}
+          {revalidating
+            ? 'Checking Prices...'
+            : needsAgeVerification
+              ? 'Verify Age'
+              : `Pay - ${formatPrice(total)}`}
         </button>
       </div>
     </div>
@@ -1,20 +1,35 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useRef, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { StatusScreen } from '@/components/ui/StatusScreen';
 import { useCartStore } from '@/lib/stores/cartStore';
 import { useAppStore } from '@/lib/stores/appStore';
+import { useDispenseJournalStore } from '@/lib/stores/dispenseJournalStore';
+import { useQueryClient } from '@tanstack/react-query';
 import {
-  dispenseProduct,
-  initiateDispense,
-  updateDispenseStatus,
-  completeDispense,
-  createRefund,
-  processRefund,
-  getOrder,
-  type Order as BackendOrder,
-} from '@/lib/api/vmService';
+  orderQueryOptions,
+  connectionStatusQueryOptions,
+  springsQueryOptions,
+  useDispenseProduct,
+  useInitiateDispense,
+  useUpdateDispenseStatus,
+  useCompleteDispense,
+  useCreateRefund,
+  useProcessRefund,
+} from '@/lib/api/hooks';
+import { showError, showInfo } from '@/lib/utils/toast';
+import { formatPrice } from '@/lib/utils/formatters';
+import { multiply, sum } from '@/lib/money';
+import { chargedUnitPrice } from '@/lib/tax';
+import {
+  runDispense,
+  initialDispenseContext,
+  isDispenseFinished,
+  type DispenseApi,
+  type DispenseContext,
+} from '@/lib/dispense/orchestrator';
+import { VM } from '@/config/constants';
 import { AlertCircle, Package } from 'lucide-react';
 
 export default function DispensingPage() {
@@ -25,14 +40,48 @@ export default function DispensingPage() {
     currentOrder, 
     setCurrentOrder, 
     setIsDispensing, 
-    setDispensedCount 
+    setDispensedCount,
+    startDispenseRun,
+    finishDispenseRun,
+    releaseDispenseRun,
   } = useAppStore();
-  const [phase, setPhase] = useState<'ready' | 'dispensing' | 'complete' | 'partial'>('ready');
-  const [dispensedItems, setDispensedItems] = useState(0);
-  const [failedItems, setFailedItems] = useState<any[]>([]);
+  const { entries: journal, saveEntry, removeEntry, recordInterruption } = useDispenseJournalStore();
+  const [dispense, setDispense] = useState<DispenseContext>(initialDispenseContext);
   const [error, setError] = useState<string | null>(null);
+  const [retryNotice, setRetryNotice] = useState<string | null>(null);
+  const isRunning = useRef(false);
   const totalItems = getTotalItems();
 
+  // Run for this order that was interrupted by a reload or crash
+  const interruptedRun = currentOrder ? journal[currentOrder.id] : undefined;
+  const resumeEntry = interruptedRun && !isDispenseFinished(interruptedRun.context) ? interruptedRun : null;
+
+  const queryClient = useQueryClient();
+  const { mutateAsync: initiateDispense } = useInitiateDispense();
+  const { mutateAsync: dispenseProduct } = useDispenseProduct();
+  const { mutateAsync: updateDispenseStatus } = useUpdateDispenseStatus();
+  const { mutateAsync: completeDispense } = useCompleteDispense();
+  const { mutateAsync: createRefund } = useCreateRefund();
+  const { mutateAsync: processRefund } = useProcessRefund();
+
+  // vm-service calls for the orchestrator, routed through the query cache
+  const api: DispenseApi = {
+    // Always read the order fresh from vm-service (orderQueryOptions has staleTime 0)
+    getOrder: (orderId) => queryClient.fetchQuery(orderQueryOptions(orderId)),
+    initiateDispense: (orderId) => initiateDispense(orderId),
+    dispenseProduct: (productStoreId, vmId, request, options) =>
+      dispenseProduct({ storeId: productStoreId, vmId, request, options }),
+    getConnectionStatus: (productStoreId, vmId) =>
+      queryClient.fetchQuery(connectionStatusQueryOptions(productStoreId, vmId)),
+    getSprings: async (productStoreId) =>
+      (await queryClient.fetchQuery({ ...springsQueryOptions(productStoreId), staleTime: 0 })).data,
+    updateDispenseStatus: (orderId, itemId, status, statusError, metadata) =>
+      updateDispenseStatus({ orderId, itemId, status, error: statusError, metadata }),
+    completeDispense: (orderId) => completeDispense(orderId),
+    createRefund: (orderId, request) => createRefund({ orderId, request }),
+    processRefund: (refundId) => processRefund(refundId),
+  };
+
   const handleCollect = async () => {
     // Validate store ID
     if (!storeId) {
@@ -46,318 +95,105 @@ export default function DispensingPage() {
       return;
     }
 
-    setPhase('dispensing');
+    if (isRunning.current) {
+      return;
+    }
+
+    // Only one dispense run per order, even across double taps and reloads.
+    // An interrupted run already holds the claim and continues from its journal.
+    if (!resumeEntry && !startDispenseRun(currentOrder.id)) {
+      const message = 'Dispensing has already been started for this order. Please contact support if you did not receive your products.';
+      setError(message);
+      showError('Already dispensing', { description: message });
+      return;
+    }
+
+    isRunning.current = true;
     setIsDispensing(true);
     setError(null);
-    setFailedItems([]);
-
-    try {
-      const failedProducts: any[] = [];
-      const failedItemsForRefund: any[] = [];
-      let successCount = 0;
-
-      // Step 1: Verify order is paid before dispensing (security check)
-      console.log('Verifying order payment status before dispensing...');
-      const backendOrderCheck = await getOrder(currentOrder.id);
-
-      if (!backendOrderCheck.payment_verified) {
-        setError('Payment not verified. Cannot dispense products. Please contact support.');
-        setIsDispensing(false);
-        setPhase('ready');
-        return;
-      }
 
-      if (backendOrderCheck.order_status !== 'paid') {
-        setError(`Order is not in paid status (current: ${backendOrderCheck.order_status}). Cannot dispense.`);
-        setIsDispensing(false);
-        setPhase('ready');
-        return;
+    const order = currentOrder;
+    const cartProducts = resumeEntry?.cartProducts ?? items.map((item) => item.product);
+    const runStoreId = resumeEntry?.storeId ?? storeId;
+
+    const result = await runDispense(
+      {
+        orderId: order.id,
+        storeId: runStoreId,
+        orderItems: order.items || [],
+        cartProducts,
+      },
+      {
+        api,
+        resumeFrom: resumeEntry?.context,
+        onChange: (context, event) => {
+          setDispense(context);
+          if (event.type === 'UNIT_RETRYING') {
+            setRetryNotice(`Retrying ${event.unit.name} (${event.retry}/${VM.DISPENSE_MAX_RETRIES})...`);
+          } else if (event.type === 'UNIT_SUCCEEDED' || event.type === 'UNIT_FAILED') {
+            setRetryNotice(null);
+          }
+          setDispensedCount(context.dispensedCount);
+          // Journal every step so the run can be resumed after a reload or crash
+          saveEntry({ orderId: order.id, storeId: runStoreId, order, cartProducts, context });
+        },
       }
+    );
 
-      console.log('Payment verified. Proceeding with dispense...');
-
-      // Step 2: Initiate dispense process in backend
-      console.log('Initiating dispense for order:', currentOrder.id);
-      await initiateDispense(currentOrder.id);
-
-      // Step 3: Get the order details to get item IDs
-      const backendOrder: BackendOrder = await getOrder(currentOrder.id);
-      const backendOrderItems = backendOrder.items || [];
-
-      console.log('=== DEBUG: Order Details ===');
-      console.log('Backend order response:', JSON.stringify(backendOrder, null, 2));
-      console.log('Backend order items:', backendOrderItems);
-      console.log('Backend order items length:', backendOrderItems.length);
-      console.log('Cart items:', items);
-      console.log('Cart items length:', items.length);
-      console.log('Current order items:', currentOrder.items);
-      console.log('=== END DEBUG ===');
-
-      // Validate we have backend order items
-      if (!backendOrderItems || backendOrderItems.length === 0) {
-        setError('No order items found in backend. Cannot proceed with dispense.');
-        setIsDispensing(false);
-        setPhase('ready');
-        return;
-      }
+    isRunning.current = false;
+    setIsDispensing(false);
 
-      // Create a map of frontend items by productId for quick lookup
-      const frontendItemMap = new Map<string, any>();
-      (currentOrder.items || []).forEach((item: any) => {
-        const key = item.productId || item.springId || item.id;
-        if (key) {
-          // Store array of items with same productId (in case of duplicates)
-          if (!frontendItemMap.has(key)) {
-            frontendItemMap.set(key, []);
-          }
-          frontendItemMap.get(key)!.push(item);
-        }
-      });
+    // Interrupted: the journal and the claim stay, so the run is continued and not started over
+    if (!isDispenseFinished(result)) {
+      recordInterruption(currentOrder.id);
+      return;
+    }
 
-      // Step 4: Dispense each backend order item (source of truth)
-      // This ensures we process ALL items, even if same product appears multiple times
-      for (const backendOrderItem of backendOrderItems) {
-        const orderItemId = backendOrderItem.id;
-        
-        if (!orderItemId) {
-          console.error('Backend order item missing ID:', backendOrderItem);
-          failedProducts.push({
-            productId: backendOrderItem.spring_id,
-            name: backendOrderItem.product_name || 'Unknown',
-            price: backendOrderItem.unit_price || 0,
-            quantity: backendOrderItem.quantity || 0,
-            taxRate: backendOrderItem.tax_rate || 0,
-            reason: 'Backend order item missing ID',
-          });
-          await updateDispenseStatus(currentOrder.id, orderItemId, 'failed', 'Backend order item missing ID');
-          continue;
-        }
-
-        // Find matching frontend item(s) for this backend item
-        const springId = backendOrderItem.spring_id;
-        const frontendItems = frontendItemMap.get(springId) || frontendItemMap.get(orderItemId) || [];
-        
-        // Use first matching frontend item, or fallback to backend item data
-        const frontendItem = frontendItems.length > 0 ? frontendItems.shift() : null;
-        // Find product info from backend item, frontend item, or cart items
-        const product = {
-          // Start with backend item data (most reliable)
-          id: springId,
-          productId: springId,
-          springId: springId,
-          name: backendOrderItem.product_name,
-          price: backendOrderItem.unit_price,
-          quantity: backendOrderItem.quantity,
-          taxRate: backendOrderItem.tax_rate,
-          selectionNumber: backendOrderItem.selection_number,
-          // Merge with frontend item data if available
-          ...(frontendItem || {}),
-          // Merge with cart item product data if available
-          ...(items.find((ci) => ci.product.id === springId)?.product || {}),
-        };
-        console.log('Processing order item:', {
-          orderItemId,
-          springId,
-          productName: product.name,
-          quantity: backendOrderItem.quantity,
-        });
-
-        // Validate product has required fields for dispense
-        if (!product.selectionNumber || !product.vmId || !product.storeId) {
-          console.error('Product missing required fields:', product);
-          failedProducts.push({
-            productId: springId,
-            name: product.name || backendOrderItem.product_name,
-            price: product.price || backendOrderItem.unit_price,
-            quantity: backendOrderItem.quantity,
-            taxRate: product.taxRate || backendOrderItem.tax_rate,
-            reason: 'Missing required product information',
-          });
-          // Update backend status using order item ID
-          await updateDispenseStatus(currentOrder.id, orderItemId, 'failed', 'Missing required product information');
-          continue;
-        }
-
-        // Use storeId from store (Zustand) - it's the source of truth
-        const productStoreId = storeId || product.storeId;
-        const vmId = product.vmId;
-
-        // Dispense each quantity unit for this order item
-        // backendOrderItem.quantity is the correct quantity to dispense
-        for (let i = 0; i < backendOrderItem.quantity; i++) {
-          try {
-            console.log(`Dispensing product: ${product.name} (selection: ${product.selectionNumber}, vm: ${vmId}, store: ${productStoreId})`);
-
-            const response = await dispenseProduct(
-              productStoreId,
-              vmId,
-              {
-                selection_number: product.selectionNumber,
-                spring_id: springId,
-                products: [{
-                  id: springId,
-                  name: product.name || backendOrderItem.product_name,
-                  price: product.price || backendOrderItem.unit_price,
-                }],
-                metadata: {
-                  orderId: currentOrder?.id,
-                  itemId: orderItemId,
-                  timestamp: new Date().toISOString(),
-                },
-              }
-            );
-
-            if (response.success) {
-              successCount++;
-              setDispensedItems(successCount);
-              setDispensedCount(successCount);
-
-              // Update backend status for success using order item ID
-              await updateDispenseStatus(currentOrder.id, orderItemId, 'success');
-            } else {
-              const errorMsg = response.message || 'Dispense failed';
-              console.error('Dispense failed for product:', product.name, errorMsg);
-
-              failedProducts.push({
-                productId: springId,
-                name: product.name || backendOrderItem.product_name,
-                price: product.price || backendOrderItem.unit_price,
-                quantity: 1,
-                taxRate: product.taxRate || backendOrderItem.tax_rate,
-                reason: errorMsg,
-              });
-
-              failedItemsForRefund.push({
-                product_name: product.name || backendOrderItem.product_name,
-                selection_number: product.selectionNumber?.toString() || backendOrderItem.selection_number,
-                quantity: 1,
-                unit_price: product.price || backendOrderItem.unit_price,
-                total_price: product.price || backendOrderItem.unit_price,
-                reason: errorMsg,
-              });
-
-              // Update backend status for failure using order item ID
-              await updateDispenseStatus(currentOrder.id, orderItemId, 'failed', errorMsg);
-            }
-          } catch (dispenseError) {
-            const errorMsg = dispenseError instanceof Error ? dispenseError.message : 'Unknown error';
-            console.error('Error dispensing product:', product.name, dispenseError);
-
-            failedProducts.push({
-              productId: springId,
-              name: product.name || backendOrderItem.product_name,
-              price: product.price || backendOrderItem.unit_price,
-              quantity: 1,
-              taxRate: product.taxRate || backendOrderItem.tax_rate,
-              reason: errorMsg,
-            });
-
-            failedItemsForRefund.push({
-              product_name: product.name || backendOrderItem.product_name,
-              selection_number: product.selectionNumber?.toString() || backendOrderItem.selection_number,
-              quantity: 1,
-              unit_price: product.price || backendOrderItem.unit_price,
-              total_price: product.price || backendOrderItem.unit_price,
-              reason: errorMsg,
-            });
-
-            // Update backend status for failure using order item ID
-            try {
-              await updateDispenseStatus(currentOrder.id, orderItemId, 'failed', errorMsg);
-            } catch (statusError) {
-              console.error('Failed to update dispense status:', statusError);
-            }
-          }
-        }
-      }
+    removeEntry(currentOrder.id);
 
-      // Step 5: Complete dispense process
-      console.log('Completing dispense process...');
-      const completeResult = await completeDispense(currentOrder.id);
-      console.log('Dispense completed:', completeResult);
-      if(completeResult.data.order_status != "failed"){
-            clearCart();
-      }
+    // Allow another attempt only if nothing can have reached the VM
+    if (result.dispenseStarted) {
+      finishDispenseRun(currentOrder.id);
+    } else {
+      releaseDispenseRun(currentOrder.id);
+    }
 
-      
-      // Step 6: Handle refunds for failed items
-      if (failedItemsForRefund.length > 0) {
-        const refundAmount = failedItemsForRefund.reduce(
-          (sum, item) => sum + item.total_price,
-          0
-        );
-
-        console.log('Creating refund for failed items:', failedItemsForRefund);
-
-        try {
-          const refundResult = await createRefund(currentOrder.id, {
-            refund_amount: refundAmount,
-            refund_reason: 'Product dispense failed',
-            refund_type: 'failed_dispense',
-            failed_items: failedItemsForRefund,
-          });
-
-          console.log('Refund created:', refundResult);
-
-          // Process the refund via Razorpay
-          const processResult = await processRefund(refundResult.data.id);
-          console.log('Refund processed:', processResult);
-
-          // Store refund info in order
-          if (currentOrder) {
-            setCurrentOrder({
-              ...currentOrder,
-              dispensed: true,
-              refundItems: failedProducts,
-              refundAmount,
-              refundId: refundResult.data.refund_number,
-            });
-          }
-        } catch (refundError) {
-          console.error('Failed to process refund:', refundError);
-          // Continue anyway - refund can be processed manually
-        }
-      }
+    if (result.orderStatus && result.orderStatus !== 'failed') {
+      clearCart();
+    }
 
-      setIsDispensing(false);
-
-      // Check results
-      if (failedProducts.length === 0) {
-        // All products dispensed successfully
-        setPhase('complete');
-        if (currentOrder) {
-          setCurrentOrder({ ...currentOrder, dispensed: true });
-        }
-      } else if (successCount > 0) {
-        // Partial success
-        setPhase('partial');
-        setFailedItems(failedProducts);
-        const refundAmount = failedProducts.reduce(
-          (sum, item) => sum + item.price * item.quantity,
-          0
-        );
-        if (currentOrder) {
-          setCurrentOrder({
-            ...currentOrder,
-            dispensed: true,
-            refundItems: failedProducts,
-            refundAmount,
-            refundId: `REF-${Date.now()}`,
-          });
-        }
-      } else {
-        // All failed
-        setError('Failed to dispense products. Please contact support.');
-        setPhase('ready');
-      }
-    } catch (error) {
-      console.error('Dispense error:', error);
-      setError(error instanceof Error ? error.message : 'Failed to dispense products');
-      setIsDispensing(false);
-      setPhase('ready');
+    if (result.state === 'complete') {
+      setCurrentOrder({ ...currentOrder, dispensed: true });
+    } else if (result.failedItems.length > 0 && result.dispenseStarted) {
+      // Store refund info in order
+      setCurrentOrder({
+        ...currentOrder,
+        dispensed: true,
+        refundItems: result.failedItems,
+        refundAmount:
+          result.refund?.amount ??
+          sum(
+            result.failedItems.map((item) => multiply(chargedUnitPrice(item), item.quantity)),
+            currentOrder.totalAmount.currency
+          ),
+        refundId: result.refund?.refundNumber ?? `REF-${Date.now()}`,
+      });
     }
   };
 
+  // Give up on an interrupted run: support settles the order, and the app stops coming back to it
+  const handleAbandon = () => {
+    if (!currentOrder) return;
+    removeEntry(currentOrder.id);
+    finishDispenseRun(currentOrder.id);
+    showInfo('Contact Support', {
+      description: `Please contact support and quote order ${currentOrder.id} for the products you did not receive.`,
+      duration: 10000,
+    });
+    setCurrentOrder(null);
+    router.push('/');
+  };
+
   const handleProceed = () => {
     clearCart();
     router.push('/receipt');
@@ -368,6 +204,17 @@ export default function DispensingPage() {
     router.push('/receipt');
   };
 
+  // Screen to show for the orchestrator state
+  const phase =
+    dispense.state === 'idle' || dispense.state === 'interrupted'
+      ? 'ready'
+      : dispense.state === 'complete' || dispense.state === 'partial' || dispense.state === 'failed'
+        ? dispense.state
+        : 'dispensing';
+  const dispensedItems = dispense.dispensedCount;
+  const failedItems = dispense.failedItems;
+  const errorMessage = error || dispense.error;
+
   // Ready to collect
   if (phase === 'ready') {
     return (
@@ -391,16 +238,26 @@ export default function DispensingPage() {
         
         {/* Warning & Button */}
         <div className="p-4 bg-secondary/50 rounded-t-3xl safe-bottom">
+          {dispense.state === 'interrupted' && dispense.error && (
+            <p className="text-sm text-destructive mb-4">{dispense.error}</p>
+          )}
           <div className="flex items-center gap-3 mb-4 p-4 bg-warning/10 rounded-2xl">
             <AlertCircle className="w-6 h-6 text-warning flex-shrink-0" />
             <p className="text-sm text-foreground">
-              Make sure you are in front of the Vending Machine before you Collect your Products
+              {resumeEntry
+                ? `Dispensing was interrupted after ${resumeEntry.context.dispensedCount} of ${resumeEntry.context.units.length || totalItems} products. Stay in front of the Vending Machine to collect the rest.`
+                : 'Make sure you are in front of the Vending Machine before you Collect your Products'}
             </p>
           </div>
           
           <button onClick={handleCollect} className="vm-btn-primary">
-            Collect Products
+            {resumeEntry ? 'Continue Collecting' : 'Collect Products'}
           </button>
+          {resumeEntry && (
+            <button onClick={handleAbandon} className="w-full py-3 mt-3 text-muted-foreground font-medium">
+              Stop and Contact Support
+            </button>
+          )}
         </div>
       </div>
     );
@@ -438,6 +295,10 @@ export default function DispensingPage() {
           {progress}% Complete
         </p>
 
+        {retryNotice && (
+          <p className="text-sm text-warning mb-4">{retryNotice}</p>
+        )}
+
         {/* Warning */}
         <div className="flex items-center gap-3 p-4 bg-warning/10 rounded-2xl max-w-md">
           <AlertCircle className="w-6 h-6 text-warning flex-shrink-0" />
@@ -450,13 +311,13 @@ export default function DispensingPage() {
   }
 
   // Error state
-  if (error) {
+  if (errorMessage) {
     return (
       <div className="min-h-screen bg-background flex flex-col">
         <div className="flex-1 flex flex-col items-center justify-center px-6 text-center">
           <AlertCircle className="w-16 h-16 text-destructive mb-4" />
           <h2 className="text-xl font-bold text-foreground mb-2">Error</h2>
-          <p className="text-muted-foreground mb-4">{error}</p>
+          <p className="text-muted-foreground mb-4">{errorMessage}</p>
           <button onClick={() => router.push('/')} className="vm-btn-primary">
             Go Back
           </button>
@@ -482,7 +343,7 @@ export default function DispensingPage() {
                 <div>
                   <p className="font-semibold text-foreground">{item.name}</p>
                   <p className="text-sm text-muted-foreground">
-                    {item.price} SEK x{item.quantity}
+                    {formatPrice(item.price)} x{item.quantity}
                   </p>
                   {item.reason && (
                     <p className="text-xs text-destructive mt-1">{item.reason}</p>
@@ -500,7 +361,7 @@ export default function DispensingPage() {
           <div className="bg-card rounded-2xl p-6 shadow-sm text-center">
             <p className="text-muted-foreground mb-2">Total Refund Amount</p>
             <p className="text-3xl font-bold text-price mb-4">
-              {currentOrder.refundAmount} kr
+              {currentOrder.refundAmount && formatPrice(currentOrder.refundAmount)}
             </p>
             <p className="text-xs text-muted-foreground">
               Refund ID: {currentOrder.refundId}
@@ -7,7 +7,8 @@
  * Features:
  * - VM connection status monitoring
  * - Pre-payment validation
- * - Multiple payment methods (Razorpay, Swish, Card)
+ * - Payment timeout with a visible countdown; abandoned orders are cancelled
+ * - Payment methods from the provider registry (lib/payment), per store configuration
  * - User-friendly toast notifications
  * - Error handling and recovery
  *
@@ -17,61 +18,140 @@
 'use client';
 
 import { useRouter } from 'next/navigation';
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { Header } from '@/components/layout/Header';
+import { PaymentCountdown } from '@/components/payment/PaymentCountdown';
 import { PaymentOption } from '@/components/payment/PaymentOption';
-import { useCartStore } from '@/lib/stores/cartStore';
+import { PaymentView } from '@/components/payment/PaymentView';
+import { getCartScope, useCartStore } from '@/lib/stores/cartStore';
 import { useAppStore } from '@/lib/stores/appStore';
+import { usePaymentJournalStore } from '@/lib/stores/paymentJournalStore';
 import { formatPrice } from '@/lib/utils/formatters';
-import { PaymentMethod } from '@/lib/types';
+import { equals, fromMajor } from '@/lib/money';
+import { mapValidationToCart } from '@/lib/cartRevalidation';
 import { ShoppingCart, AlertCircle, Wifi, WifiOff } from 'lucide-react';
 import {
-  createOrder,
-  createRazorpayOrder,
-  verifyPayment,
-  validatePrePayment,
-  type CreateOrderRequest,
-  type OrderItem,
-} from '@/lib/api/vmService';
+  vmQueryKeys,
+  orderQueryOptions,
+  swishPaymentQueryOptions,
+  cardPaymentQueryOptions,
+  useCreateOrder,
+  useCancelOrder,
+  useCreateRazorpayOrder,
+  useCreateSwishPayment,
+  useCreateCardPayment,
+  useCreateRefund,
+  useProcessRefund,
+  useVerifyPayment,
+  useCompleteTestPayment,
+  useValidatePrePayment,
+} from '@/lib/api/hooks';
+import {
+  assertSingleMachine,
+  buildCreateOrderRequest,
+  buildPaidOrder,
+  getAvailablePaymentProviders,
+  type PaymentApi,
+  type PaymentLaunchResult,
+  type PaymentProvider,
+  type PaymentSession,
+} from '@/lib/payment';
 import { useVMStatus } from '@/hooks/useVMStatus';
+import { PAYMENT } from '@/config/constants';
 import {
   showError,
   showSuccess,
   showWarning,
-  showPaymentStatusToast,
   showErrorByCode,
+  showApiError,
   showLoading,
   updateToast,
+  dismissToast,
 } from '@/lib/utils/toast';
-import { env } from '@/config/env';
-import { PAYMENT } from '@/config/constants';
+import { VmServiceError, PaymentError, ConflictError } from '@/lib/api/errors';
+import { releaseIdempotencyKeysFor } from '@/lib/api/idempotency';
 
-// Razorpay types
-declare global {
-  interface Window {
-    Razorpay: any;
-  }
-}
+/**
+ * What cancelling the order of an unfinished payment came to
+ */
+type UnpaidOrderOutcome =
+  | { status: 'cancelled' }
+  /** The payment went through while its UI was closing */
+  | { status: 'paid'; referenceNumber: string }
+  /** The order could not be cancelled or read back; it stays journaled for PaymentRecovery */
+  | { status: 'unknown' };
 
 export default function PaymentPage() {
   const router = useRouter();
-  const { items, getTotal, clearCart } = useCartStore();
+  const { items, couponCode, getTax, getTotal, getDiscounts, clearCart, setLineIssues } = useCartStore();
   const {
     selectedPaymentMethod,
     setSelectedPaymentMethod,
     setCurrentOrder,
+    isLoading,
     setIsLoading,
     storeId: storeIdFromStore,
   } = useAppStore();
 
   const [error, setError] = useState<string | null>(null);
+  const { saveEntry: savePaymentEntry, removeEntry: removePaymentEntry } = usePaymentJournalStore();
+  const [session, setSession] = useState<PaymentSession | null>(null);
+  const [sessionRestored, setSessionRestored] = useState(false);
+  // When the running payment times out (epoch ms); null while no payment is open
+  const [deadline, setDeadline] = useState<number | null>(null);
+  // Order of the running payment, cancelled if the payer leaves the page
+  const openOrderId = useRef<string | null>(null);
+  // Closes a modal provider's UI when the payment times out
+  const launchAbort = useRef<AbortController | null>(null);
+
+  const queryClient = useQueryClient();
+  const { mutateAsync: validatePrePayment } = useValidatePrePayment();
+  const { mutateAsync: createOrder } = useCreateOrder();
+  const { mutateAsync: cancelOrder } = useCancelOrder();
+  const { mutateAsync: createRazorpayOrder } = useCreateRazorpayOrder();
+  const { mutateAsync: createSwishPayment } = useCreateSwishPayment();
+  const { mutateAsync: createCardPayment } = useCreateCardPayment();
+  const { mutateAsync: verifyPayment } = useVerifyPayment();
+  const { mutateAsync: completeTestPayment } = useCompleteTestPayment();
+  const { mutateAsync: createRefund } = useCreateRefund();
+  const { mutateAsync: processRefund } = useProcessRefund();
 
   const total = getTotal();
 
-  // Get store ID and VM ID from first product
-  const firstProduct = items[0]?.product;
-  const storeId = firstProduct?.storeId || storeIdFromStore;
-  const vmId = firstProduct?.vmId;
+  // The store and VM the cart is scoped to (orders for mixed carts are refused in handlePay)
+  const cartScope = getCartScope(items);
+  const storeId = cartScope?.storeId || storeIdFromStore;
+  const vmId = cartScope?.vmId;
+
+  // Payment methods this store offers
+  const providers = useMemo(() => getAvailablePaymentProviders(storeId), [storeId]);
+  const selectedProvider = providers.find((provider) => provider.method === selectedPaymentMethod);
+
+  const paymentApi: PaymentApi = useMemo(
+    () => ({
+      createRazorpayOrder: (orderId) => createRazorpayOrder(orderId),
+      verifyPayment: (request) => verifyPayment(request),
+      createSwishPayment: (orderId, request) => createSwishPayment({ orderId, request }),
+      // Always read the payment fresh (swishPaymentQueryOptions has staleTime 0)
+      getSwishPayment: (paymentId) => queryClient.fetchQuery(swishPaymentQueryOptions(paymentId)),
+      createCardPayment: (orderId, request) => createCardPayment({ orderId, request }),
+      getCardPayment: (paymentId) => queryClient.fetchQuery(cardPaymentQueryOptions(paymentId)),
+      completeTestPayment: (orderId) => completeTestPayment(orderId),
+      createRefund: (orderId, request) => createRefund({ orderId, request }),
+      processRefund: (refundId) => processRefund(refundId),
+    }),
+    [
+      queryClient,
+      createRazorpayOrder,
+      verifyPayment,
+      createSwishPayment,
+      createCardPayment,
+      completeTestPayment,
+      createRefund,
+      processRefund,
+    ]
+  );
 
   // Monitor VM connection status
   const {
@@ -97,8 +177,234 @@ export default function PaymentPage() {
     }
   }, [vmStatus]);
 
+  /**
+   * Store the paid order for the dispensing page and go there
+   */
+  const completePayment = useCallback(
+    (orderId: string, referenceNumber: string) => {
+      // Read from the store: totals are new objects every render and would make the callbacks unstable
+      const cart = useCartStore.getState();
+      setCurrentOrder(
+        buildPaidOrder({
+          orderId,
+          items: cart.items,
+          total: cart.getTotal(),
+          discounts: cart.getDiscounts().discounts,
+          paymentMethod: selectedPaymentMethod || 'razorpay',
+          referenceNumber,
+        })
+      );
+      // The dispense journal takes over from here
+      removePaymentEntry(orderId);
+      // Paid: ordering the same items again is a new order
+      releaseIdempotencyKeysFor(orderId);
+
+      setIsLoading(false);
+      router.push('/dispensing');
+    },
+    [selectedPaymentMethod, setCurrentOrder, removePaymentEntry, setIsLoading, router]
+  );
+
+  /**
+   * Start the payment timeout for an order; the clock starts when the payment
+   * was journaled, so it keeps running across a trip to the provider's app
+   */
+  const startPaymentTimer = useCallback((orderId: string) => {
+    const startedAt = usePaymentJournalStore.getState().entries[orderId]?.createdAt ?? Date.now();
+    openOrderId.current = orderId;
+    setDeadline(startedAt + PAYMENT.TIMEOUT);
+  }, []);
+
+  const stopPaymentTimer = useCallback(() => {
+    openOrderId.current = null;
+    launchAbort.current = null;
+    setDeadline(null);
+  }, []);
+
+  /**
+   * Cancel the order of a payment that did not go through, so it does not
+   * stay open and the next attempt starts a fresh order.
+   */
+  const cancelUnpaidOrder = useCallback(
+    async (orderId: string, reason: string): Promise<UnpaidOrderOutcome> => {
+      try {
+        await cancelOrder({ orderId, request: { reason } });
+        removePaymentEntry(orderId);
+        return { status: 'cancelled' };
+      } catch (err) {
+        if (!(err instanceof ConflictError)) {
+          // The cancel may never have arrived and the payment may have gone through;
+          // the journal entry stays so PaymentRecovery settles the order
+          console.error('Failed to cancel order:', err);
+          return { status: 'unknown' };
+        }
+      }
+
+      // Refused: the order was paid in the meantime
+      try {
+        const order = await queryClient.fetchQuery(orderQueryOptions(orderId));
+        if (order.payment_verified && order.order_status === 'paid') {
+          return { status: 'paid', referenceNumber: order.razorpay_payment_id || order.order_number };
+        }
+      } catch (err) {
+        console.error('Failed to check order after cancellation was refused:', err);
+      }
+      // Still journaled: PaymentRecovery settles it on the next start
+      return { status: 'unknown' };
+    },
+    [cancelOrder, removePaymentEntry, queryClient]
+  );
+
+  /**
+   * Act on what the payer did in the provider's UI: verify approved payments
+   * with vm-service and continue to dispensing
+   */
+  const finishPayment = useCallback(
+    async (provider: PaymentProvider, paymentSession: PaymentSession, result: PaymentLaunchResult) => {
+      setSession(null);
+      stopPaymentTimer();
+
+      // Unpaid: cancel the order. A failed verification stays journaled,
+      // since the payment may have gone through anyway.
+      if (result.status !== 'approved') {
+        const reason =
+          result.status === 'expired'
+            ? 'Payment timed out'
+            : result.status === 'cancelled'
+            ? 'Payment cancelled by customer'
+            : `Payment failed: ${result.message}`;
+        const outcome = await cancelUnpaidOrder(paymentSession.orderId, reason);
+
+        if (outcome.status === 'paid') {
+          showSuccess('Payment Successful!', {
+            description: 'Preparing to dispense your items...',
+            duration: 3000,
+          });
+          completePayment(paymentSession.orderId, outcome.referenceNumber);
+          return;
+        }
+        if (outcome.status === 'unknown') {
+          showErrorByCode('PAYMENT_VERIFICATION_FAILED');
+          setError('We could not tell whether your payment went through. Please contact support before paying again.');
+          setIsLoading(false);
+          return;
+        }
+      }
+
+      if (result.status === 'expired') {
+        console.log('Payment timed out');
+        showWarning('Payment Timed Out', {
+          description: `The payment was not completed within ${PAYMENT.TIMEOUT / 60000} minutes. Your items are still in the cart.`,
+          duration: 7000,
+        });
+        setIsLoading(false);
+        return;
+      }
+
+      if (result.status === 'cancelled') {
+        console.log('Payment cancelled by user');
+        showWarning('Payment Cancelled', {
+          description: 'You cancelled the payment. Your items are still in the cart.',
+        });
+        setIsLoading(false);
+        return;
+      }
+
+      if (result.status === 'failed') {
+        showError('Payment Failed', { description: result.message, duration: 7000 });
+        setError(result.message);
+        setIsLoading(false);
+        return;
+      }
+
+      const verifyToastId = showLoading('Verifying Payment', {
+        description: 'Please wait while we confirm your payment...',
+      });
+
+      try {
+        const paid = await provider.verify(paymentSession, result, paymentApi);
+        queryClient.invalidateQueries({ queryKey: vmQueryKeys.order(paid.orderId) });
+
+        updateToast(verifyToastId, 'success', 'Payment Successful!', {
+          description: 'Preparing to dispense your items...',
+          duration: 3000,
+        });
+
+        // Store order data and navigate to dispensing page
+        completePayment(paid.orderId, paid.referenceNumber);
+      } catch (err: any) {
+        console.error('Payment verification failed:', err);
+        dismissToast(verifyToastId);
+        setIsLoading(false);
+
+        showErrorByCode('PAYMENT_VERIFICATION_FAILED');
+        setError(err.message || 'Payment verification failed. Please contact support with your payment details.');
+      }
+    },
+    [paymentApi, queryClient, completePayment, cancelUnpaidOrder, stopPaymentTimer, setIsLoading]
+  );
+
+  // Back from a provider's app (e.g. Swish): pick the pending session up again
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+
+    for (const provider of providers) {
+      if (!provider.restoreSession) continue;
+
+      provider
+        .restoreSession(params, paymentApi)
+        .then((restored) => {
+          if (!restored) return;
+          window.history.replaceState(null, '', window.location.pathname);
+          setSelectedPaymentMethod(provider.method);
+          setSessionRestored(true);
+          setSession(restored);
+          startPaymentTimer(restored.orderId);
+        })
+        .catch((err) => console.error(`Failed to restore ${provider.label} payment:`, err));
+    }
+    // Only when the page is opened
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Leaving the page mid-payment abandons the order
+  useEffect(() => {
+    return () => {
+      const orderId = openOrderId.current;
+      if (!orderId) return;
+      cancelOrder({ orderId, request: { reason: 'Payment abandoned' } })
+        .then(() => usePaymentJournalStore.getState().removeEntry(orderId))
+        .catch((err) => console.error('Failed to cancel abandoned order:', err));
+    };
+    // Only when the page is left
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleEmbeddedResult = useCallback(
+    (result: PaymentLaunchResult) => {
+      if (!session) return;
+      const provider = providers.find((candidate) => candidate.method === session.method);
+      if (provider) {
+        finishPayment(provider, session, result);
+      }
+    },
+    [session, providers, finishPayment]
+  );
+
+  // Out of time: close the provider's UI; its result ends the payment as `expired`
+  const handleTimeout = useCallback(() => {
+    if (launchAbort.current) {
+      launchAbort.current.abort();
+      return;
+    }
+    handleEmbeddedResult({ status: 'expired' });
+  }, [handleEmbeddedResult]);
+
   const handlePay = async () => {
-    if (!selectedPaymentMethod) {
+    // One payment at a time: a second order would charge the customer twice
+    if (isLoading || openOrderId.current) return;
+
+    if (!selectedProvider) {
       showWarning('No Payment Method Selected', {
         description: 'Please select a payment method to continue.',
       });
@@ -107,6 +413,8 @@ export default function PaymentPage() {
 
     // Track loading toast
     let loadingToastId: string | number | null = null;
+    // Order created by this attempt, cancelled if the payment cannot be started
+    let createdOrderId: string | null = null;
 
     try {
       setIsLoading(true);
@@ -135,6 +443,8 @@ export default function PaymentPage() {
         return;
       }
 
+      assertSingleMachine(items);
+
       // Check VM connection status before proceeding
       if (vmStatus === 'offline') {
         showErrorByCode('VM_OFFLINE');
@@ -157,23 +467,14 @@ export default function PaymentPage() {
 
       console.log('Creating order for store:', storeId, 'VM:', vmId);
 
-      // Prepare order items
-      const orderItems: OrderItem[] = items.map((item) => ({
-        spring_id: item.product.id,
-        selection_number: item.product.selectionNumber?.toString() || '0',
-        quantity: item.quantity,
-        unit_price: item.product.price,
-        tax_rate: item.product.taxRate,
-      }));
-
-      const createOrderRequest: CreateOrderRequest = {
-        store_id: storeId,
-        vm_id: vmId,
-        items: orderItems,
-        metadata: {
-          payment_method: selectedPaymentMethod,
-        },
-      };
+      const createOrderRequest = buildCreateOrderRequest({
+        items,
+        scope: { storeId, vmId },
+        tax: getTax(),
+        promotions: getDiscounts(),
+        couponCode,
+        paymentMethod: selectedProvider.method,
+      });
 
       // Step 1: Validate order before payment
       console.log('Validating order before payment...');
@@ -193,6 +494,19 @@ export default function PaymentPage() {
         // Dismiss loading toast
         if (loadingToastId) updateToast(loadingToastId, 'error', 'Validation Failed');
 
+        // Refused products are fixed line by line in the cart
+        const lineIssues = mapValidationToCart(items, validationResult.data.product_validation || []);
+        if (Object.keys(lineIssues).length > 0) {
+          setLineIssues(lineIssues);
+          showError('Some Products Need Attention', {
+            description: 'Check the highlighted products in your cart.',
+            duration: 8000,
+          });
+          setIsLoading(false);
+          router.push('/cart');
+          return;
+        }
+
         // Show validation errors to user
         const errorMessage = validationResult.data.message || 'Order validation failed';
         const detailedErrors = validationResult.data.errors?.join(', ') || errorMessage;
@@ -229,182 +543,87 @@ export default function PaymentPage() {
       // Step 2: Create order in backend
       const orderResponse = await createOrder(createOrderRequest);
       console.log('Order created:', orderResponse.data);
+      createdOrderId = orderResponse.data.id;
+
+      // vm-service prices the order itself; never charge a total the customer was not shown
+      const orderTotal = fromMajor(orderResponse.data.total_amount, orderResponse.data.currency);
+      if (!equals(orderTotal, total)) {
+        throw new PaymentError(
+          `The order total (${formatPrice(orderTotal)}) does not match your cart (${formatPrice(total)}). Please go back to the cart and try again.`
+        );
+      }
 
-      // Handle different payment methods
-      if (selectedPaymentMethod === 'razorpay') {
-        // Step 3: Create Razorpay order
-        if (loadingToastId) {
-          updateToast(loadingToastId, 'info', 'Opening Payment Gateway', {
-            description: 'Redirecting to Razorpay...',
-          });
-        }
-
-        const razorpayOrderResponse = await createRazorpayOrder(orderResponse.data.id);
-        console.log('Razorpay order created:', razorpayOrderResponse);
-
-        // Dismiss loading toast before opening Razorpay
-        if (loadingToastId) {
-          updateToast(loadingToastId, 'success', 'Ready for Payment', {
-            duration: 2000,
-          });
-        }
-
-        // Step 4: Get Razorpay key from validated environment
-        const razorpayKey = env.NEXT_PUBLIC_RAZORPAY_KEY_ID;
-        if (!razorpayKey) {
-          showError('Configuration Error', {
-            description: 'Payment gateway is not properly configured.',
-          });
-          throw new Error('Razorpay key not configured');
-        }
+      // Step 3: Create the provider's payment for the order
+      if (loadingToastId) {
+        updateToast(loadingToastId, 'info', 'Opening Payment Gateway', {
+          description: `Connecting to ${selectedProvider.label}...`,
+        });
+      }
 
-        // Step 5: Open Razorpay checkout
-      const options = {
-        key: razorpayKey,
-        amount: razorpayOrderResponse.amount, // Amount in paise
-        currency: razorpayOrderResponse.currency,
-        name: 'Vamo Store',
-        description: `Order ${razorpayOrderResponse.order_number}`,
-        order_id: razorpayOrderResponse.razorpay_order_id,
-        handler: async function (response: any) {
-          try {
-            console.log('Payment successful, verifying...', response);
-
-            // Show verifying toast
-            const verifyToastId = showLoading('Verifying Payment', {
-              description: 'Please wait while we confirm your payment...',
-            });
-
-            // Step 6: Verify payment
-            const verifyResponse = await verifyPayment({
-              razorpay_order_id: response.razorpay_order_id,
-              razorpay_payment_id: response.razorpay_payment_id,
-              razorpay_signature: response.razorpay_signature,
-            });
-
-            console.log('Payment verified:', verifyResponse);
-
-            // Update toast to success
-            updateToast(verifyToastId, 'success', 'Payment Successful!', {
-              description: 'Preparing to dispense your items...',
-              duration: 3000,
-            });
-
-            // Store order data for dispensing page
-            setCurrentOrder({
-              id: verifyResponse.data.id,
-              items: items.map((item) => ({
-                productId: item.product.id,
-                name: item.product.name,
-                price: item.product.price,
-                quantity: item.quantity,
-                taxRate: item.product.taxRate,
-                depositAmount: item.product.depositAmount,
-              })),
-              totalAmount: total,
-              paymentMethod: selectedPaymentMethod,
-              paymentDate: new Date(),
-              referenceNumber: verifyResponse.data.razorpay_payment_id || '',
-              dispensed: false,
-            });
-
-            // Clear cart
-            // clearCart();
-
-            // Navigate to dispensing page
-            setIsLoading(false);
-            router.push('/dispensing');
-          } catch (err: any) {
-            console.error('Payment verification failed:', err);
-            setIsLoading(false);
-
-            // Show error toast
-            showErrorByCode('PAYMENT_VERIFICATION_FAILED');
-            setError(err.message || 'Payment verification failed. Please contact support with your payment details.');
-          }
-        },
-        prefill: {
-          name: '',
-          email: '',
-          contact: '',
+      const paymentSession = await selectedProvider.createSession(
+        {
+          orderId: orderResponse.data.id,
+          orderNumber: orderResponse.data.order_number,
+          amount: total,
         },
-        theme: {
-          color: PAYMENT.RAZORPAY.THEME_COLOR,
-        },
-        modal: {
-          ondismiss: function () {
-            console.log('Payment cancelled by user');
-            showWarning('Payment Cancelled', {
-              description: 'You cancelled the payment. Your items are still in the cart.',
-            });
-            setIsLoading(false);
-          },
-        },
-      };
-
-        // Open Razorpay checkout
-        const razorpay = new window.Razorpay(options);
-        razorpay.on('payment.failed', function (response: any) {
-          console.error('Payment failed:', response.error);
-          setIsLoading(false);
+        paymentApi
+      );
 
-          // Show user-friendly error message
-          showError('Payment Failed', {
-            description: response.error.description || 'Your payment could not be processed. Please try again.',
-            duration: 7000,
-          });
-          setError(response.error.description || 'Payment failed. Please try again with a different method.');
+      if (loadingToastId) {
+        updateToast(loadingToastId, 'success', 'Ready for Payment', {
+          duration: 2000,
         });
-        razorpay.open();
-      } else if (selectedPaymentMethod === 'swish' || selectedPaymentMethod === 'card') {
-        // For Swish and Card, show not implemented message
-        if (loadingToastId) {
-          updateToast(loadingToastId, 'error', 'Not Available', {
-            description: `${selectedPaymentMethod === 'swish' ? 'Swish' : 'Card'} payment is coming soon!`,
-          });
-        } else {
-          showWarning('Payment Method Not Available', {
-            description: `${selectedPaymentMethod === 'swish' ? 'Swish' : 'Card'} payment will be available soon. Please try Razorpay.`,
-            duration: 5000,
-          });
-        }
+      }
 
-        setError(`${selectedPaymentMethod === 'swish' ? 'Swish' : 'Card'} payment is not yet available. Please use Razorpay.`);
-        setIsLoading(false);
+      // Journal the payment before its UI opens, so it can be recovered if the
+      // app is closed before the result comes back (components/PaymentRecovery)
+      savePaymentEntry({
+        orderId: orderResponse.data.id,
+        orderNumber: orderResponse.data.order_number,
+        storeId,
+        method: selectedProvider.method,
+        items,
+        total,
+        discounts: getDiscounts().discounts,
+      });
+      startPaymentTimer(orderResponse.data.id);
 
-        // Note: Uncomment below when these payment methods are integrated
-        /*
-        setCurrentOrder({
-          id: orderResponse.data.id,
-          items: items.map((item) => ({
-            productId: item.product.id,
-            name: item.product.name,
-            price: item.product.price,
-            quantity: item.quantity,
-            taxRate: item.product.taxRate,
-            depositAmount: item.product.depositAmount,
-          })),
-          totalAmount: total,
-          paymentMethod: selectedPaymentMethod,
-          paymentDate: new Date(),
-          referenceNumber: `ORDER-${orderResponse.data.order_number}`,
-          dispensed: false,
-        });
+      // Step 4: Let the payer pay, in the provider's own UI or in PaymentView
+      if (selectedProvider.capabilities.embeddedUi) {
+        setSessionRestored(false);
+        setSession(paymentSession);
+        return;
+      }
 
-        clearCart();
-        setIsLoading(false);
-        router.push('/dispensing');
-        */
-      } else {
-        throw new Error(`Payment method ${selectedPaymentMethod} is not supported`);
+      if (!selectedProvider.launch) {
+        throw new PaymentError(`Payment method ${selectedProvider.method} has no payment UI`);
       }
+
+      const abort = new AbortController();
+      launchAbort.current = abort;
+      const result = await selectedProvider.launch(paymentSession, {
+        signal: abort.signal,
+        onAttemptFailed: (message) => {
+          showError('Payment Failed', { description: message, duration: 7000 });
+          setError(message);
+        },
+      });
+      await finishPayment(selectedProvider, paymentSession, result);
     } catch (err: any) {
       console.error('Payment error:', err);
       setIsLoading(false);
 
-      // Show error toast if not already shown
+      // The payment UI never opened: don't leave the order open
+      if (createdOrderId) {
+        stopPaymentTimer();
+        cancelUnpaidOrder(createdOrderId, 'Payment could not be started');
+      }
+
+      // Typed API errors map to a user-friendly toast by error code
       const errorMessage = err.message || 'An unexpected error occurred';
-      if (!errorMessage.includes('not yet available') && !errorMessage.includes('not supported')) {
+      if (err instanceof VmServiceError) {
+        showApiError(err);
+      } else {
         showError('Payment Error', {
           description: errorMessage,
           duration: 7000,
@@ -419,6 +638,12 @@ export default function PaymentPage() {
     <div className="min-h-screen bg-background">
       <Header title="Payment" showBack showClose variant="white" />
 
+      {deadline !== null && <PaymentCountdown deadline={deadline} onExpire={handleTimeout} />}
+
+      {session && (
+        <PaymentView session={session} returned={sessionRestored} onResult={handleEmbeddedResult} />
+      )}
+
       <main className="p-4 pb-32">
         {/* VM Status Indicator */}
         {vmStatus !== 'checking' && (
@@ -490,21 +715,19 @@ export default function PaymentPage() {
           </h2>
           
           <div className="space-y-3">
-            <PaymentOption
-              method="swish"
-              selected={selectedPaymentMethod === 'swish'}
-              onSelect={setSelectedPaymentMethod}
-            />
-            <PaymentOption
-              method="card"
-              selected={selectedPaymentMethod === 'card'}
-              onSelect={setSelectedPaymentMethod}
-            />
-            <PaymentOption
-              method="razorpay"
-              selected={selectedPaymentMethod === 'razorpay'}
-              onSelect={setSelectedPaymentMethod}
-            />
+            {providers.map((provider) => (
+              <PaymentOption
+                key={provider.method}
+                method={provider.method}
+                selected={selectedProvider?.method === provider.method}
+                onSelect={setSelectedPaymentMethod}
+              />
+            ))}
+            {providers.length === 0 && (
+              <p className="text-center text-sm text-muted-foreground">
+                No payment methods are available for this store.
+              </p>
+            )}
           </div>
         </div>
       </main>
@@ -513,13 +736,10 @@ export default function PaymentPage() {
       <div className="fixed bottom-0 left-0 right-0 p-4 bg-background safe-bottom">
         <button
           onClick={handlePay}
-          disabled={!selectedPaymentMethod}
+          disabled={!selectedProvider || isLoading || !!session || deadline !== null}
           className="vm-btn-primary"
         >
-          {selectedPaymentMethod === 'razorpay' && 'Pay with Razorpay'}
-          {selectedPaymentMethod === 'swish' && 'Pay with Swish'}
-          {selectedPaymentMethod === 'card' && 'Pay with Card'}
-          {!selectedPaymentMethod && 'Select Payment Method'}
+          {selectedProvider ? `Pay with ${selectedProvider.label}` : 'Select Payment Method'}
         </button>
       </div>
     </div>
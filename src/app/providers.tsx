@@ -6,6 +6,10 @@ import { TooltipProvider } from '@/components/ui/tooltip';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { useState } from 'react';
 import { PWAInstallPrompt } from '@/components/PWAInstallPrompt';
+import { DispenseRecovery } from '@/components/DispenseRecovery';
+import { PaymentRecovery } from '@/components/PaymentRecovery';
+import { CartRevalidation } from '@/components/CartRevalidation';
+import { QUERY } from '@/config/constants';
 
 export function Providers({ children }: { children: React.ReactNode }) {
   const [queryClient] = useState(
@@ -13,7 +17,12 @@ export function Providers({ children }: { children: React.ReactNode }) {
       new QueryClient({
         defaultOptions: {
           queries: {
-            staleTime: 60 * 1000,
+            staleTime: QUERY.STALE_TIME,
+            // The shared HTTP client already retries with backoff
+            retry: false,
+          },
+          mutations: {
+            retry: false,
           },
         },
       })
@@ -24,6 +33,9 @@ export function Providers({ children }: { children: React.ReactNode }) {
       <TooltipProvider>
         <Toaster />
         <Sonner />
+        <DispenseRecovery />
+        <PaymentRecovery />
+        <CartRevalidation />
         {children}
         {/* <PWAInstallPrompt /> */}
       </TooltipProvider>
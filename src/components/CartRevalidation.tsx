@@ -0,0 +1,124 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
+import { RefreshCw } from 'lucide-react';
+import { springsQueryOptions } from '@/lib/api/hooks';
+import { describeCartChange, revalidateCart } from '@/lib/cartRevalidation';
+import { useAppStore } from '@/lib/stores/appStore';
+import { useCartStore } from '@/lib/stores/cartStore';
+import { formatPrice } from '@/lib/utils/formatters';
+import { ROUTES } from '@/config/constants';
+
+/**
+ * Checks the persisted cart against fresh spring data (see lib/cartRevalidation)
+ *
+ * Runs once on app start, when a kept cart comes back after a store switch, and
+ * every time the customer enters checkout. Changes
+ * the customer must know about (prices, removed or broken springs, stock) are
+ * shown until they are accepted; checkout stays blocked meanwhile.
+ */
+export function CartRevalidation() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const queryClient = useQueryClient();
+  const checkedOnStart = useRef(false);
+  const checking = useRef(false);
+  const { pendingChanges, revalidationNeeded, acceptChanges } = useCartStore();
+
+  useEffect(() => {
+    const onCheckout = pathname === ROUTES.CHECKOUT;
+    if (checkedOnStart.current && !onCheckout && !revalidationNeeded) return;
+    // One check at a time; it outlives navigation, since it compares the cart as it is when it ends
+    if (checking.current) return;
+    checkedOnStart.current = true;
+
+    // The cart is being paid for or dispensed; its order was priced already
+    const paying = [ROUTES.PAYMENT, ROUTES.DISPENSING, ROUTES.RECEIPT].some((route) => pathname?.startsWith(route));
+    if (paying) return;
+
+    const cartStoreId = () => useCartStore.getState().items[0]?.product.storeId || useAppStore.getState().storeId;
+    const { items, setRevalidating, applyRevalidation } = useCartStore.getState();
+    const storeId = cartStoreId();
+    if (items.length === 0 || !storeId) return;
+
+    checking.current = true;
+    setRevalidating(true);
+
+    queryClient
+      // Always refetch: the point is to not trust what was seen before
+      .fetchQuery({ ...springsQueryOptions(storeId), staleTime: 0 })
+      .then((response) => {
+        // Another store's cart came back meanwhile; it is checked on the next navigation
+        if (cartStoreId() !== storeId) return;
+        // Compare with the cart as it is now, not as it was when the request started
+        const result = revalidateCart(useCartStore.getState().items, response.data || []);
+        if (result.changes.length > 0) {
+          console.log('Cart changed since it was filled:', result.changes.map((change) => change.type));
+        }
+        applyRevalidation(result);
+      })
+      // vm-service validates the order again before payment
+      .catch((err) => console.error('Failed to revalidate cart:', err))
+      .finally(() => {
+        checking.current = false;
+        setRevalidating(false);
+      });
+  }, [pathname, queryClient, revalidationNeeded]);
+
+  if (!pendingChanges) return null;
+
+  const handleAccept = () => {
+    acceptChanges();
+    if (useCartStore.getState().items.length === 0 && pathname === ROUTES.CHECKOUT) {
+      router.replace(ROUTES.HOME);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-background/95 flex flex-col items-center justify-center px-6">
+      <div className="w-20 h-20 rounded-full bg-secondary flex items-center justify-center mb-6">
+        <RefreshCw className="w-10 h-10 text-primary" />
+      </div>
+
+      <h1 className="text-2xl font-bold text-foreground mb-2 text-center">Your Cart Has Changed</h1>
+      <p className="text-muted-foreground mb-6 text-center">
+        Some products changed since you added them. Please check the changes before you pay.
+      </p>
+
+      <ul className="w-full max-w-sm bg-card rounded-2xl shadow-sm divide-y divide-border mb-8">
+        {pendingChanges.changes.map((change, index) => (
+          <li key={`${change.item.product.id}-${change.type}-${index}`} className="flex items-center justify-between gap-3 p-4">
+            <div className="min-w-0">
+              <p className="font-medium text-foreground truncate">{change.item.product.name}</p>
+              <p className="text-sm text-muted-foreground">{describeCartChange(change)}</p>
+            </div>
+            <div className="text-sm text-right whitespace-nowrap">
+              {change.type === 'price' && (
+                <>
+                  <span className="line-through text-muted-foreground mr-2">{formatPrice(change.previous)}</span>
+                  <span className="font-semibold text-foreground">{formatPrice(change.current)}</span>
+                </>
+              )}
+              {change.type === 'quantity' && (
+                <span className="font-semibold text-foreground">
+                  {change.item.quantity} → {change.available}
+                </span>
+              )}
+              {(change.type === 'removed' || change.type === 'unavailable') && (
+                <span className="font-semibold text-destructive">Removed</span>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <div className="w-full max-w-xs">
+        <button onClick={handleAccept} className="vm-btn-primary">
+          Accept Changes
+        </button>
+      </div>
+    </div>
+  );
+}
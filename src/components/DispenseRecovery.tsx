@@ -0,0 +1,41 @@
+'use client';
+
+import { useEffect } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { useAppStore } from '@/lib/stores/appStore';
+import { useDispenseJournalStore } from '@/lib/stores/dispenseJournalStore';
+
+/**
+ * Brings the customer back to an interrupted dispense run on app start
+ *
+ * The current order is not persisted, so after a reload or crash it is restored
+ * from the dispense journal and the dispensing page offers to continue the run
+ * (or to stop and contact support). Runs older than VM.DISPENSE_JOURNAL_TTL,
+ * and runs that keep being interrupted, no longer bring the customer back.
+ */
+export function DispenseRecovery() {
+  const router = useRouter();
+  const pathname = usePathname();
+
+  useEffect(() => {
+    const { removeExpired, getUnfinished } = useDispenseJournalStore.getState();
+    removeExpired();
+    const entry = getUnfinished();
+    if (!entry) return;
+
+    const { currentOrder, setCurrentOrder, setStoreId } = useAppStore.getState();
+    if (currentOrder?.id !== entry.orderId) {
+      console.log('Recovering interrupted dispense run for order:', entry.orderId);
+      setCurrentOrder(entry.order);
+      setStoreId(entry.storeId);
+    }
+
+    if (!pathname?.startsWith('/dispensing')) {
+      router.replace('/dispensing');
+    }
+    // Only on app start
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,199 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
+import { AlertCircle } from 'lucide-react';
+import { orderQueryOptions, useCreateRefund, useProcessRefund } from '@/lib/api/hooks';
+import type { RefundRequest } from '@/lib/api/vmService';
+import { releaseIdempotencyKeysFor } from '@/lib/api/idempotency';
+import { useAppStore } from '@/lib/stores/appStore';
+import { useCartStore } from '@/lib/stores/cartStore';
+import { useDispenseJournalStore } from '@/lib/stores/dispenseJournalStore';
+import { usePaymentJournalStore, type PaymentJournalEntry } from '@/lib/stores/paymentJournalStore';
+import {
+  buildPaidOrder,
+  getPaymentProvider,
+  getPaymentRecoveryMessage,
+  reconcilePendingPayment,
+  type PaymentRecoveryAction,
+} from '@/lib/payment';
+import { refundThroughVmService } from '@/lib/payment/providers/refund';
+import { formatPrice } from '@/lib/utils/formatters';
+import { toMajor } from '@/lib/money';
+import { showError, showInfo, showSuccess } from '@/lib/utils/toast';
+
+interface PaymentNeedingSupport {
+  entry: PaymentJournalEntry;
+  message: string;
+  /** False once dispensing started elsewhere: products may already have come out */
+  refundable: boolean;
+}
+
+/**
+ * Settles payments the app lost track of on app start
+ *
+ * Every journaled payment (see lib/payment/recovery) is read back from
+ * vm-service: a recent verified payment continues to /dispensing (the
+ * customer's own cart is kept aside meanwhile), a payment that cannot be
+ * dispensed any more is offered a refund or support (support only once
+ * dispensing started elsewhere, as products may have come out), and unpaid
+ * orders are dropped. The payment page handles its own sessions, so this waits
+ * until the customer is elsewhere.
+ */
+export function PaymentRecovery() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const queryClient = useQueryClient();
+  const checked = useRef(false);
+  // Shown one at a time
+  const [support, setSupport] = useState<PaymentNeedingSupport[]>([]);
+  const [refunding, setRefunding] = useState(false);
+
+  const { mutateAsync: createRefund } = useCreateRefund();
+  const { mutateAsync: processRefund } = useProcessRefund();
+
+  useEffect(() => {
+    if (checked.current || pathname?.startsWith('/payment')) return;
+    checked.current = true;
+
+    const pending = usePaymentJournalStore.getState().getPending();
+    // An interrupted dispense run is recovered by DispenseRecovery
+    if (pending.length === 0 || useDispenseJournalStore.getState().getUnfinished()) return;
+
+    const { removeEntry } = usePaymentJournalStore.getState();
+
+    const reconcile = async () => {
+      let resumed = false;
+
+      for (const entry of pending) {
+        let decision: PaymentRecoveryAction;
+        try {
+          decision = reconcilePendingPayment(entry, await queryClient.fetchQuery(orderQueryOptions(entry.orderId)));
+        } catch (err) {
+          // Keep the entry; vm-service is asked again on the next launch
+          console.error('Failed to check pending payment:', err);
+          continue;
+        }
+        console.log('Pending payment for order', entry.orderId, '->', decision.action);
+
+        switch (decision.action) {
+          case 'resume': {
+            // One order is dispensed at a time; the others are resumed on the next launch
+            if (resumed) break;
+            resumed = true;
+            removeEntry(entry.orderId);
+            releaseIdempotencyKeysFor(entry.orderId);
+            useCartStore.getState().restoreItems(entry.items);
+            useAppStore.getState().setStoreId(entry.storeId);
+            useAppStore.getState().setCurrentOrder(
+              buildPaidOrder({
+                orderId: entry.orderId,
+                items: entry.items,
+                total: entry.total,
+                discounts: entry.discounts,
+                paymentMethod: entry.method,
+                referenceNumber: decision.referenceNumber,
+              })
+            );
+            showInfo('Payment Found', {
+              description: `Your payment for order ${entry.orderNumber} went through. Let's get your products.`,
+            });
+            router.replace('/dispensing');
+            break;
+          }
+          case 'support': {
+            const { reason } = decision;
+            setSupport((queue) => [
+              ...queue,
+              { entry, message: getPaymentRecoveryMessage(reason), refundable: reason !== 'in_progress' },
+            ]);
+            break;
+          }
+          case 'discard':
+            removeEntry(entry.orderId);
+            break;
+          case 'wait':
+            break;
+        }
+      }
+    };
+
+    reconcile();
+  }, [pathname, queryClient, router]);
+
+  if (support.length === 0) return null;
+
+  const { entry, message, refundable } = support[0];
+
+  const handleRefund = async () => {
+    setRefunding(true);
+    try {
+      const request: RefundRequest = {
+        refund_amount: toMajor(entry.total),
+        refund_reason: 'Paid order could not be dispensed after the app was closed',
+        refund_type: 'full',
+      };
+      const api = {
+        createRefund: (orderId: string, refundRequest: RefundRequest) =>
+          createRefund({ orderId, request: refundRequest }),
+        processRefund: (refundId: string) => processRefund(refundId),
+      };
+      const provider = getPaymentProvider(entry.method);
+      const refund = provider?.refund
+        ? await provider.refund(entry.orderId, request, api)
+        : await refundThroughVmService(entry.orderId, request, api);
+
+      usePaymentJournalStore.getState().removeEntry(entry.orderId);
+      setSupport((queue) => queue.slice(1));
+      showSuccess('Refund Requested', {
+        description: `Refund ${refund.data.refund_number} for ${formatPrice(entry.total)} is on its way.`,
+        duration: 7000,
+      });
+    } catch (err) {
+      console.error('Refund failed:', err);
+      showError('Refund Failed', {
+        description: `Please contact support and quote order ${entry.orderNumber}.`,
+        duration: 10000,
+      });
+    } finally {
+      setRefunding(false);
+    }
+  };
+
+  const handleDismiss = () => {
+    usePaymentJournalStore.getState().removeEntry(entry.orderId);
+    setSupport((queue) => queue.slice(1));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-background/95 flex flex-col items-center justify-center px-6 text-center">
+      <div className="w-20 h-20 rounded-full bg-red-50 flex items-center justify-center mb-6">
+        <AlertCircle className="w-10 h-10 text-red-500" />
+      </div>
+
+      <h1 className="text-2xl font-bold text-foreground mb-2">About Your Last Payment</h1>
+      <p className="text-muted-foreground mb-2">{message}</p>
+      <p className="text-sm text-muted-foreground mb-8">
+        Order {entry.orderNumber} · {formatPrice(entry.total)}
+      </p>
+
+      <div className="w-full max-w-xs space-y-3">
+        {refundable ? (
+          <>
+            <button onClick={handleRefund} disabled={refunding} className="vm-btn-primary">
+              {refunding ? 'Requesting Refund...' : 'Refund My Payment'}
+            </button>
+            <button onClick={handleDismiss} disabled={refunding} className="w-full py-3 text-muted-foreground font-medium">
+              I&apos;ll Contact Support
+            </button>
+          </>
+        ) : (
+          <button onClick={handleDismiss} className="vm-btn-primary">
+            OK
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,27 @@
 import { Minus, Plus, Trash2 } from 'lucide-react';
 import { CartItem as CartItemType } from '@/lib/types';
-import { useCartStore } from '@/lib/stores/cartStore';
+import { getCartLimitMessage, useCartStore } from '@/lib/stores/cartStore';
 import { formatPrice } from '@/lib/utils/formatters';
+import { showWarning } from '@/lib/utils/toast';
 
 interface CartItemProps {
   item: CartItemType;
 }
 
 export const CartItem = ({ item }: CartItemProps) => {
-  const { updateQuantity, removeItem } = useCartStore();
+  const { updateQuantity, removeItem, getQuantityLimit, lineIssues } = useCartStore();
   const { product, quantity } = item;
+  const limit = getQuantityLimit(product);
+  const atLimit = quantity >= limit.max;
+  // Set when vm-service refused this line before payment
+  const issue = lineIssues?.[product.id];
+  const canReduce = issue?.purchasable && issue.availableQty < quantity;
 
   const handleIncrement = () => {
-    updateQuantity(product.id, quantity + 1);
+    const result = updateQuantity(product.id, quantity + 1);
+    if (result.status === 'rejected') {
+      showWarning(getCartLimitMessage(result.limit), { description: product.name });
+    }
   };
 
   const handleDecrement = () => {
@@ -22,55 +31,91 @@ export const CartItem = ({ item }: CartItemProps) => {
   };
 
   return (
-    <div className="flex items-center gap-4 p-4 bg-card rounded-2xl shadow-sm animate-fade-in">
-      {/* Product Image */}
-      <div className="w-16 h-20 flex-shrink-0">
-        <img
-          src={product.image}
-          alt={product.name}
-          className="w-full h-full object-contain"
-        />
-      </div>
+    <div
+      className={`p-4 bg-card rounded-2xl shadow-sm animate-fade-in ${
+        issue ? 'border border-destructive/50' : ''
+      }`}
+    >
+      <div className="flex items-center gap-4">
+        {/* Product Image */}
+        <div className="w-16 h-20 flex-shrink-0">
+          <img
+            src={product.image}
+            alt={product.name}
+            className="w-full h-full object-contain"
+          />
+        </div>
       
-      {/* Product Info */}
-      <div className="flex-1 min-w-0">
-        <h3 className="font-semibold text-foreground truncate">
-          {product.name}
-        </h3>
-        <p className="text-price font-medium">
-          {formatPrice(product.price)}
-        </p>
-      </div>
+        {/* Product Info */}
+        <div className="flex-1 min-w-0">
+          <h3 className="font-semibold text-foreground truncate">
+            {product.name}
+          </h3>
+          <p className="text-price font-medium">
+            {formatPrice(product.price)}
+          </p>
+          {atLimit && (
+            <p className="text-xs text-muted-foreground">
+              {getCartLimitMessage(limit)}
+            </p>
+          )}
+        </div>
       
-      {/* Quantity Controls */}
-      <div className="flex items-center gap-2">
-        <button
-          onClick={handleDecrement}
-          className="w-8 h-8 rounded-full bg-secondary flex items-center justify-center text-primary"
-          disabled={quantity <= 1}
-        >
-          <Minus className="w-4 h-4" />
-        </button>
+        {/* Quantity Controls */}
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleDecrement}
+            className="w-8 h-8 rounded-full bg-secondary flex items-center justify-center text-primary"
+            disabled={quantity <= 1}
+          >
+            <Minus className="w-4 h-4" />
+          </button>
         
-        <span className="w-6 text-center font-semibold">
-          {quantity}
-        </span>
+          <span className="w-6 text-center font-semibold">
+            {quantity}
+          </span>
         
+          <button
+            onClick={handleIncrement}
+            className="w-8 h-8 rounded-full bg-secondary flex items-center justify-center text-primary disabled:opacity-40"
+            disabled={atLimit}
+            aria-label={atLimit ? getCartLimitMessage(limit) : `Add another ${product.name}`}
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+      
+        {/* Delete Button */}
         <button
-          onClick={handleIncrement}
-          className="w-8 h-8 rounded-full bg-secondary flex items-center justify-center text-primary"
+          onClick={() => removeItem(product.id)}
+          className="w-10 h-10 rounded-full bg-destructive/10 flex items-center justify-center text-destructive"
         >
-          <Plus className="w-4 h-4" />
+          <Trash2 className="w-5 h-5" />
         </button>
       </div>
-      
-      {/* Delete Button */}
-      <button
-        onClick={() => removeItem(product.id)}
-        className="w-10 h-10 rounded-full bg-destructive/10 flex items-center justify-center text-destructive"
-      >
-        <Trash2 className="w-5 h-5" />
-      </button>
+
+      {/* Pre-payment validation result with one-tap fixes */}
+      {issue && (
+        <div className="mt-3 pt-3 border-t border-border flex items-center justify-between gap-3">
+          <p className="text-sm text-destructive">{issue.message}</p>
+          <div className="flex gap-2 flex-shrink-0">
+            {canReduce && (
+              <button
+                onClick={() => updateQuantity(product.id, issue.availableQty)}
+                className="px-3 py-1.5 rounded-full bg-secondary text-primary text-sm font-medium"
+              >
+                Reduce to {issue.availableQty}
+              </button>
+            )}
+            <button
+              onClick={() => removeItem(product.id)}
+              className="px-3 py-1.5 rounded-full bg-destructive/10 text-destructive text-sm font-medium"
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
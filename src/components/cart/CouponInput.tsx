@@ -0,0 +1,79 @@
+import { useState } from 'react';
+import { Tag, X } from 'lucide-react';
+import { useCartStore } from '@/lib/stores/cartStore';
+import { getCouponRejectionMessage, normalizeCode } from '@/lib/promotions';
+import { PROMOTIONS } from '@/config/constants';
+
+/**
+ * Discount code entry; shows the code in use and whether it still saves anything
+ */
+export const CouponInput = () => {
+  const { couponCode, applyCoupon, removeCoupon, getDiscounts } = useCartStore();
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  if (couponCode) {
+    // The cart may have changed since the code was accepted
+    const applies = getDiscounts().discounts.some((discount) => discount.code && normalizeCode(discount.code) === couponCode);
+
+    return (
+      <div className="flex items-center justify-between gap-3 p-4 bg-card rounded-2xl shadow-sm">
+        <div className="flex items-center gap-2 min-w-0">
+          <Tag className="w-4 h-4 text-primary flex-shrink-0" />
+          <div className="min-w-0">
+            <p className="font-semibold text-foreground truncate">{couponCode}</p>
+            {!applies && (
+              <p className="text-xs text-muted-foreground">{getCouponRejectionMessage('not_applicable')}</p>
+            )}
+          </div>
+        </div>
+        <button
+          onClick={removeCoupon}
+          className="w-8 h-8 rounded-full bg-secondary flex items-center justify-center text-muted-foreground"
+          aria-label="Remove discount code"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  }
+
+  const handleApply = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!code.trim()) return;
+
+    const result = applyCoupon(code);
+    if (result.status === 'rejected') {
+      setError(getCouponRejectionMessage(result.reason));
+      return;
+    }
+    setCode('');
+    setError(null);
+  };
+
+  return (
+    <form onSubmit={handleApply} className="p-4 bg-card rounded-2xl shadow-sm">
+      <div className="flex gap-2">
+        <input
+          value={code}
+          onChange={(event) => {
+            setCode(event.target.value);
+            setError(null);
+          }}
+          placeholder="Discount code"
+          maxLength={PROMOTIONS.MAX_CODE_LENGTH}
+          autoCapitalize="characters"
+          className="flex-1 min-w-0 px-4 py-2 rounded-full bg-secondary text-foreground placeholder:text-muted-foreground outline-none"
+        />
+        <button
+          type="submit"
+          disabled={!code.trim()}
+          className="px-4 py-2 rounded-full bg-primary text-primary-foreground font-medium disabled:opacity-40"
+        >
+          Apply
+        </button>
+      </div>
+      {error && <p className="text-sm text-destructive mt-2">{error}</p>}
+    </form>
+  );
+};
@@ -0,0 +1,36 @@
+import { ShoppingCart } from 'lucide-react';
+
+interface StoreSwitchPromptProps {
+  /** Units in the cart of the other store */
+  itemCount: number;
+  onKeep: () => void;
+  onClear: () => void;
+}
+
+/**
+ * Asks what happens to the cart of another store when the customer opens a new one
+ */
+export const StoreSwitchPrompt = ({ itemCount, onKeep, onClear }: StoreSwitchPromptProps) => {
+  return (
+    <div className="fixed inset-0 z-50 bg-background/95 flex flex-col items-center justify-center px-6 text-center">
+      <div className="w-20 h-20 rounded-full bg-secondary flex items-center justify-center mb-6">
+        <ShoppingCart className="w-10 h-10 text-primary" />
+      </div>
+
+      <h1 className="text-2xl font-bold text-foreground mb-2">You Have Another Cart</h1>
+      <p className="text-muted-foreground mb-8">
+        Your cart holds {itemCount} {itemCount === 1 ? 'item' : 'items'} from another store. A cart can only be paid at
+        the machine its products are in.
+      </p>
+
+      <div className="w-full max-w-xs space-y-3">
+        <button onClick={onKeep} className="vm-btn-primary">
+          Keep It for Later
+        </button>
+        <button onClick={onClear} className="w-full py-3 text-muted-foreground font-medium">
+          Clear Cart
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import type { TaxBreakdown } from '@/lib/tax';
+import type { OrderDiscount } from '@/lib/types';
+import { formatPrice, formatPriceDecimal } from '@/lib/utils/formatters';
+
+interface TaxSummaryProps {
+  tax: TaxBreakdown;
+  /** Promotions behind `tax.discount`, one row each */
+  discounts?: OrderDiscount[];
+}
+
+/**
+ * Subtotal, discounts, deposits, rounding and the tax included in the total
+ * (the total itself is left to the page)
+ */
+export const TaxSummary = ({ tax, discounts = [] }: TaxSummaryProps) => {
+  const { rules } = tax;
+
+  return (
+    <div className="space-y-2 mb-4">
+      <div className="flex items-center justify-between">
+        <span className="text-muted-foreground">Subtotal</span>
+        <span className="font-semibold text-foreground">{formatPrice(tax.subtotal)}</span>
+      </div>
+      {discounts.map((discount) => (
+        <div key={discount.promotionId} className="flex items-center justify-between">
+          <span className="text-success">
+            {discount.label}
+            {discount.code && <span className="text-xs text-muted-foreground ml-2">{discount.code}</span>}
+          </span>
+          <span className="font-semibold text-success">-{formatPrice(discount.amount)}</span>
+        </div>
+      ))}
+      {tax.deposits.amount !== 0 && (
+        <div className="flex items-center justify-between">
+          <span className="text-muted-foreground">{rules.depositLabel}</span>
+          <span className="font-semibold text-foreground">{formatPrice(tax.deposits)}</span>
+        </div>
+      )}
+      {tax.rounding.amount !== 0 && (
+        <div className="flex items-center justify-between">
+          <span className="text-muted-foreground">Rounding</span>
+          <span className="font-semibold text-foreground">{formatPriceDecimal(tax.rounding)}</span>
+        </div>
+      )}
+      {tax.rates.map((rate) => (
+        <div key={rate.taxRate} className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>
+            Incl. {rules.taxLabel} {rate.taxRate}%
+            {rate.components.length > 1 &&
+              ` (${rate.components.map((component) => `${component.label} ${component.rate}%`).join(' + ')})`}
+          </span>
+          <span>{formatPriceDecimal(rate.tax)}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
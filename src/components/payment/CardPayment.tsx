@@ -0,0 +1,201 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { CreditCard, X } from 'lucide-react';
+import { useCardPayment } from '@/lib/api/hooks';
+import type { CardPayment as CardPaymentIntent } from '@/lib/api/vmService';
+import { PAYMENT } from '@/config/constants';
+import {
+  CARD_STATUS,
+  getCardFailureMessage,
+  isCardAttemptDeclined,
+  isCardPaymentFinal,
+  loadStripe,
+  type StripeClient,
+  type StripeElements,
+  type StripePaymentElement,
+} from '@/lib/payment/card';
+
+interface CardPaymentProps {
+  /** Payment returned by createCardPayment */
+  payment: CardPaymentIntent;
+  /** Page a 3-D Secure redirect returns to */
+  returnUrl: string;
+  /** The payer just came back from a 3-D Secure redirect: confirm instead of asking for a card */
+  returned?: boolean;
+  onPaid: (payment: CardPaymentIntent) => void;
+  onFailed: (message: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Takes a card payment with Stripe's hosted Payment Element
+ *
+ * Card details go straight to Stripe; 3-D Secure challenges open inside the
+ * element (or redirect and come back to `returnUrl`). Once Stripe accepted the
+ * card, the payment is followed in vm-service until it is confirmed there.
+ * Declined cards stay on the form so the payer can try another one.
+ */
+export const CardPayment = ({
+  payment,
+  returnUrl,
+  returned = false,
+  onPaid,
+  onFailed,
+  onCancel,
+}: CardPaymentProps) => {
+  const container = useRef<HTMLDivElement>(null);
+  const stripe = useRef<StripeClient | null>(null);
+  const elements = useRef<StripeElements | null>(null);
+  const settled = useRef(false);
+
+  const [formReady, setFormReady] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [confirming, setConfirming] = useState(returned);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const { data } = useCardPayment(payment.id, { enabled: confirming });
+  const current = data?.data ?? payment;
+
+  // Mount the hosted card form
+  useEffect(() => {
+    let cancelled = false;
+    let element: StripePaymentElement | null = null;
+
+    loadStripe()
+      .then((instance) => {
+        if (cancelled || !container.current) return;
+        stripe.current = instance;
+        elements.current = instance.elements({ clientSecret: payment.client_secret });
+        element = elements.current.create('payment', { layout: 'tabs' });
+        element.on('ready', () => setFormReady(true));
+        element.mount(container.current);
+      })
+      .catch((err: Error) => {
+        if (cancelled || settled.current) return;
+        settled.current = true;
+        onFailed(err.message);
+      });
+
+    return () => {
+      cancelled = true;
+      element?.destroy();
+    };
+    // One form per payment
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [payment.id, payment.client_secret]);
+
+  // Follow the payment in vm-service once Stripe has accepted the card
+  useEffect(() => {
+    if (!confirming || settled.current) return;
+
+    if (isCardPaymentFinal(current.status)) {
+      settled.current = true;
+      if (current.status === CARD_STATUS.SUCCEEDED) {
+        onPaid(current);
+      } else {
+        onFailed(getCardFailureMessage(current.status, current.error_message));
+      }
+      return;
+    }
+
+    // Declined after a 3-D Secure redirect: back to the form for another card
+    if (returned && isCardAttemptDeclined(current)) {
+      setConfirming(false);
+      setFormError(getCardFailureMessage(current.status, current.error_message));
+    }
+  }, [confirming, current, returned, onPaid, onFailed]);
+
+  // Stop waiting if vm-service never confirms
+  useEffect(() => {
+    if (!confirming) return;
+
+    const timer = setTimeout(() => {
+      if (settled.current) return;
+      settled.current = true;
+      onFailed('We could not confirm your card payment. If your card was charged, please contact support.');
+    }, PAYMENT.CARD.CONFIRM_TIMEOUT);
+    return () => clearTimeout(timer);
+  }, [confirming, onFailed]);
+
+  const handleSubmit = async () => {
+    if (!stripe.current || !elements.current || submitting) return;
+
+    setSubmitting(true);
+    setFormError(null);
+
+    try {
+      // Runs the 3-D Secure challenge when the issuer asks for one
+      const { error, paymentIntent } = await stripe.current.confirmPayment({
+        elements: elements.current,
+        confirmParams: { return_url: returnUrl },
+        redirect: 'if_required',
+      });
+
+      if (error) {
+        // Declines and invalid details can be fixed on the form; anything else ends the payment
+        if (error.type === 'card_error' || error.type === 'validation_error') {
+          setFormError(error.message || getCardFailureMessage(CARD_STATUS.REQUIRES_PAYMENT_METHOD));
+        } else if (!settled.current) {
+          settled.current = true;
+          onFailed(error.message || getCardFailureMessage(''));
+        }
+        return;
+      }
+
+      console.log('Card payment submitted:', paymentIntent?.status);
+      setConfirming(true);
+    } catch (err) {
+      // Stripe could not be reached; the payment intent can't be charged twice, so the payer may try again
+      console.error('Card payment confirmation failed:', err);
+      setFormError(
+        err instanceof Error && err.message ? err.message : 'We could not reach the card processor. Please try again.'
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-background/95 flex flex-col items-center justify-center px-6">
+      <button
+        onClick={onCancel}
+        disabled={submitting || confirming}
+        className="absolute top-4 right-4 w-10 h-10 rounded-full bg-secondary flex items-center justify-center disabled:opacity-50"
+        aria-label="Cancel card payment"
+      >
+        <X className="w-5 h-5 text-foreground" />
+      </button>
+
+      <div className="w-full max-w-md">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="w-12 h-12 rounded-xl bg-secondary flex items-center justify-center">
+            <CreditCard className="w-6 h-6 text-primary" />
+          </div>
+          <h1 className="text-2xl font-bold text-foreground">Pay by Card</h1>
+        </div>
+
+        <div className={confirming ? 'hidden' : 'block'}>
+          <div ref={container} className="bg-card rounded-2xl p-4 shadow-sm mb-4 min-h-[12rem]" />
+
+          {formError && <p className="text-sm text-red-600 mb-4">{formError}</p>}
+
+          <button
+            onClick={handleSubmit}
+            disabled={!formReady || submitting}
+            className="vm-btn-primary"
+          >
+            {submitting ? 'Processing...' : 'Pay'}
+          </button>
+        </div>
+
+        {confirming && (
+          <div className="flex items-center justify-center gap-3 text-muted-foreground">
+            <div className="w-5 h-5 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+            <span className="text-sm">Confirming your payment...</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
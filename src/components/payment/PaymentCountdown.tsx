@@ -0,0 +1,58 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Clock } from 'lucide-react';
+import { PAYMENT } from '@/config/constants';
+import { formatCountdown } from '@/lib/utils/formatters';
+import { cn } from '@/lib/utils';
+
+interface PaymentCountdownProps {
+  /** When the payment times out (epoch milliseconds) */
+  deadline: number;
+  /** Called once when the deadline passes */
+  onExpire: () => void;
+}
+
+/**
+ * Time left to pay, shown above the payment UI (including the embedded
+ * provider overlays) until the payment is settled or times out
+ */
+export const PaymentCountdown = ({ deadline, onExpire }: PaymentCountdownProps) => {
+  const [remaining, setRemaining] = useState(() => deadline - Date.now());
+  const expired = useRef(false);
+  const onExpireRef = useRef(onExpire);
+  onExpireRef.current = onExpire;
+
+  useEffect(() => {
+    expired.current = false;
+
+    const tick = () => {
+      const left = deadline - Date.now();
+      setRemaining(left);
+      if (left <= 0 && !expired.current) {
+        expired.current = true;
+        onExpireRef.current();
+      }
+    };
+
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  const warning = remaining <= PAYMENT.TIMEOUT_WARNING;
+
+  return (
+    <div
+      role="timer"
+      aria-live={warning ? 'assertive' : 'off'}
+      className={cn(
+        'fixed top-4 left-1/2 -translate-x-1/2 z-[60] flex items-center gap-2 rounded-full px-4 py-2 text-sm font-medium shadow-sm',
+        warning ? 'bg-red-50 text-red-700 border border-red-200' : 'bg-secondary text-foreground'
+      )}
+    >
+      <Clock className="w-4 h-4" />
+      <span>Time left to pay {formatCountdown(remaining)}</span>
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import { CreditCard, Smartphone, Check, Wallet } from 'lucide-react';
+import { CreditCard, Smartphone, Check, Wallet, FlaskConical } from 'lucide-react';
 import { PaymentMethod } from '@/lib/types';
 import { cn } from '@/lib/utils';
 
@@ -12,12 +12,14 @@ const paymentIcons = {
   swish: Smartphone,
   card: CreditCard,
   razorpay: Wallet,
+  test: FlaskConical,
 };
 
 const paymentLabels = {
   swish: 'Swish',
-  card: 'Card',
+  card: 'Card (Visa, Mastercard)',
   razorpay: 'Razorpay (UPI, Cards, Net Banking)',
+  test: 'Test payment (no money is moved)',
 };
 
 export const PaymentOption = ({ method, selected, onSelect }: PaymentOptionProps) => {
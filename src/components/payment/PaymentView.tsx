@@ -0,0 +1,68 @@
+'use client';
+
+import { useCallback } from 'react';
+import type { CardPayment as CardPaymentIntent, SwishPayment as SwishPaymentRequest } from '@/lib/api/vmService';
+import {
+  SWISH_RETURN_PARAM,
+  getCardReturnUrl,
+  type PaymentLaunchResult,
+  type PaymentSession,
+  type TestPaymentSession,
+} from '@/lib/payment';
+import { CardPayment } from './CardPayment';
+import { SwishPayment } from './SwishPayment';
+import { TestPayment } from './TestPayment';
+
+interface PaymentViewProps {
+  /** Session of a provider with `capabilities.embeddedUi` */
+  session: PaymentSession;
+  /** The payer just came back to the page from the provider's app */
+  returned?: boolean;
+  onResult: (result: PaymentLaunchResult) => void;
+}
+
+/**
+ * In-page UI for providers that do not bring their own (`capabilities.embeddedUi`)
+ *
+ * Reports what the payer did as a `PaymentLaunchResult`, the same way
+ * `PaymentProvider.launch` does for modal providers.
+ */
+export const PaymentView = ({ session, returned = false, onResult }: PaymentViewProps) => {
+  // Stable callbacks: the provider views restart their timers when these change
+  const handleApproved = useCallback((data: unknown) => onResult({ status: 'approved', data }), [onResult]);
+  const handleFailed = useCallback((message: string) => onResult({ status: 'failed', message }), [onResult]);
+  const handleCancelled = useCallback(() => onResult({ status: 'cancelled' }), [onResult]);
+
+  switch (session.method) {
+    case 'swish': {
+      const payment = session.data as SwishPaymentRequest;
+      return (
+        <SwishPayment
+          payment={payment}
+          callbackUrl={`${window.location.origin}${window.location.pathname}?${SWISH_RETURN_PARAM}=${payment.id}`}
+          autoOpen={!returned}
+          onPaid={handleApproved}
+          onFailed={handleFailed}
+          onCancel={handleCancelled}
+        />
+      );
+    }
+    case 'card': {
+      const payment = session.data as CardPaymentIntent;
+      return (
+        <CardPayment
+          payment={payment}
+          returnUrl={getCardReturnUrl(payment.id)}
+          returned={returned}
+          onPaid={handleApproved}
+          onFailed={handleFailed}
+          onCancel={handleCancelled}
+        />
+      );
+    }
+    case 'test':
+      return <TestPayment session={session.data as TestPaymentSession} onResult={onResult} />;
+    default:
+      return null;
+  }
+};
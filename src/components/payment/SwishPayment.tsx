@@ -0,0 +1,137 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Smartphone, X } from 'lucide-react';
+import { useSwishPayment } from '@/lib/api/hooks';
+import type { SwishPayment as SwishPaymentRequest } from '@/lib/api/vmService';
+import { PAYMENT } from '@/config/constants';
+import {
+  SWISH_STATUS,
+  buildSwishAppUrl,
+  canOpenSwishApp,
+  getSwishFailureMessage,
+  isSwishPaymentFinal,
+} from '@/lib/payment/swish';
+
+interface SwishPaymentProps {
+  /** Payment request returned by createSwishPayment */
+  payment: SwishPaymentRequest;
+  /** Page the Swish app returns to */
+  callbackUrl?: string;
+  /** Open the Swish app right away on phones (off when the payer just came back from it) */
+  autoOpen?: boolean;
+  onPaid: (payment: SwishPaymentRequest) => void;
+  onFailed: (message: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Waits for the payer to answer a Swish payment request
+ *
+ * Opens the Swish app on phones and shows the QR code everywhere else, then
+ * follows the request (polling, plus realtime invalidation when available)
+ * until Swish reports a result or the request expires.
+ */
+export const SwishPayment = ({
+  payment,
+  callbackUrl,
+  autoOpen = true,
+  onPaid,
+  onFailed,
+  onCancel,
+}: SwishPaymentProps) => {
+  const [isMobile] = useState(canOpenSwishApp);
+  const { data } = useSwishPayment(payment.id);
+  const current = data?.data ?? payment;
+  const settled = useRef(false);
+
+  const appUrl = current.payment_request_token
+    ? buildSwishAppUrl(current.payment_request_token, callbackUrl)
+    : null;
+
+  // Open the Swish app straight away on phones
+  useEffect(() => {
+    if (autoOpen && isMobile && appUrl) {
+      window.location.href = appUrl;
+    }
+    // Only when the request is first shown
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Report the result once
+  useEffect(() => {
+    if (settled.current || !isSwishPaymentFinal(current.status)) return;
+    settled.current = true;
+
+    if (current.status.toUpperCase() === SWISH_STATUS.PAID) {
+      onPaid(current);
+    } else {
+      onFailed(getSwishFailureMessage(current.status, current.error_message));
+    }
+  }, [current, onPaid, onFailed]);
+
+  // Swish drops unanswered requests; stop waiting once it would have
+  useEffect(() => {
+    const expiresAt = current.expires_at ? new Date(current.expires_at).getTime() : NaN;
+    const delay = Number.isNaN(expiresAt) ? PAYMENT.SWISH.REQUEST_TIMEOUT : Math.max(expiresAt - Date.now(), 0);
+
+    const timer = setTimeout(() => {
+      if (settled.current) return;
+      settled.current = true;
+      onFailed(getSwishFailureMessage(SWISH_STATUS.CANCELLED));
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [current.expires_at, onFailed]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-background/95 flex flex-col items-center justify-center px-6 text-center">
+      <button
+        onClick={onCancel}
+        className="absolute top-4 right-4 w-10 h-10 rounded-full bg-secondary flex items-center justify-center"
+        aria-label="Cancel Swish payment"
+      >
+        <X className="w-5 h-5 text-foreground" />
+      </button>
+
+      <h1 className="text-2xl font-bold text-foreground mb-2">Pay with Swish</h1>
+
+      {isMobile ? (
+        <>
+          <div className="w-20 h-20 rounded-full bg-secondary flex items-center justify-center my-6">
+            <Smartphone className="w-10 h-10 text-primary" />
+          </div>
+          <p className="text-muted-foreground mb-6">
+            Approve the payment in the Swish app, then come back here.
+          </p>
+          {appUrl && (
+            <a href={appUrl} className="vm-btn-primary mb-4">
+              Open Swish
+            </a>
+          )}
+        </>
+      ) : (
+        <>
+          <p className="text-muted-foreground mb-6">
+            Scan the QR code with the Swish app on your phone.
+          </p>
+          {current.qr_code ? (
+            <img
+              src={current.qr_code}
+              alt="Swish QR code"
+              className="w-64 h-64 rounded-2xl bg-white p-3 shadow-sm mb-6"
+            />
+          ) : (
+            <p className="text-sm text-muted-foreground mb-6">
+              QR code unavailable. Open Swish on your phone to find the payment request.
+            </p>
+          )}
+        </>
+      )}
+
+      <div className="flex items-center gap-3 text-muted-foreground">
+        <div className="w-5 h-5 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+        <span className="text-sm">Waiting for Swish...</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { FlaskConical } from 'lucide-react';
+import type { PaymentLaunchResult, TestPaymentSession } from '@/lib/payment';
+import { formatPrice } from '@/lib/utils/formatters';
+import {
+  TEST_PAYMENT_SCENARIO,
+  TEST_PAYMENT_SCENARIO_LABELS,
+  runTestPaymentScenario,
+  type TestPaymentScenario,
+} from '@/lib/payment/testPayment';
+
+interface TestPaymentProps {
+  session: TestPaymentSession;
+  onResult: (result: PaymentLaunchResult) => void;
+}
+
+/**
+ * Fake gateway for the test payment provider
+ *
+ * Runs the preset scenario straight away (for scripted runs), otherwise lets
+ * the tester pick one.
+ */
+export const TestPayment = ({ session, onResult }: TestPaymentProps) => {
+  const [running, setRunning] = useState<TestPaymentScenario | null>(null);
+  const started = useRef(false);
+
+  const run = (scenario: TestPaymentScenario) => {
+    if (started.current) return;
+    started.current = true;
+    setRunning(scenario);
+    runTestPaymentScenario(scenario).then(onResult);
+  };
+
+  useEffect(() => {
+    if (session.scenario) run(session.scenario);
+    // Only when the gateway opens
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-background/95 flex flex-col items-center justify-center px-6 text-center">
+      <div className="w-20 h-20 rounded-full bg-secondary flex items-center justify-center mb-6">
+        <FlaskConical className="w-10 h-10 text-primary" />
+      </div>
+
+      <h1 className="text-2xl font-bold text-foreground mb-2">Test Payment</h1>
+      <p className="text-muted-foreground mb-1">Order {session.orderNumber}</p>
+      <p className="text-3xl font-bold text-price mb-6">{formatPrice(session.amount)}</p>
+
+      {running ? (
+        <div className="flex items-center gap-3 text-muted-foreground">
+          <div className="w-5 h-5 border-2 border-primary border-t-transparent rounded-full animate-spin"></div>
+          <span className="text-sm">Simulating: {TEST_PAYMENT_SCENARIO_LABELS[running]}...</span>
+        </div>
+      ) : (
+        <div className="w-full max-w-xs space-y-3">
+          {Object.values(TEST_PAYMENT_SCENARIO).map((scenario) => (
+            <button
+              key={scenario}
+              onClick={() => run(scenario)}
+              className={
+                scenario === TEST_PAYMENT_SCENARIO.SUCCESS
+                  ? 'vm-btn-primary'
+                  : 'w-full py-3 rounded-full bg-secondary text-foreground font-medium'
+              }
+            >
+              {TEST_PAYMENT_SCENARIO_LABELS[scenario]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-muted-foreground mt-8">
+        No money is moved. Test payments are for local and demo builds only.
+      </p>
+    </div>
+  );
+};
@@ -1,23 +1,26 @@
 import { Minus, Plus } from 'lucide-react';
 import { Product } from '@/lib/types';
-import { useCartStore } from '@/lib/stores/cartStore';
+import { getCartLimitMessage, useCartStore } from '@/lib/stores/cartStore';
 import { formatPrice } from '@/lib/utils/formatters';
+import { showWarning } from '@/lib/utils/toast';
 
 interface ProductCardProps {
   product: Product;
 }
 
 export const ProductCard = ({ product }: ProductCardProps) => {
-  const { items, addItem, updateQuantity } = useCartStore();
+  const { items, addItem, updateQuantity, getQuantityLimit } = useCartStore();
   
   const cartItem = items.find((item) => item.product.id === product.id);
   const quantity = cartItem?.quantity || 0;
+  const limit = getQuantityLimit(product);
+  const atLimit = quantity >= limit.max;
 
   const handleIncrement = () => {
-    if (quantity === 0) {
-      addItem(product);
-    } else {
-      updateQuantity(product.id, quantity + 1);
+    // Adding through the live product keeps the cart's inventory current
+    const result = addItem(product);
+    if (result.status === 'rejected') {
+      showWarning(getCartLimitMessage(result.limit), { description: product.name });
     }
   };
 
@@ -69,10 +72,18 @@ export const ProductCard = ({ product }: ProductCardProps) => {
         <button
           onClick={handleIncrement}
           className="vm-qty-btn"
+          disabled={atLimit}
+          aria-label={atLimit ? getCartLimitMessage(limit) : `Add ${product.name}`}
         >
           <Plus className="w-5 h-5" />
         </button>
       </div>
+
+      {atLimit && (
+        <p className="text-center text-xs text-muted-foreground mt-2">
+          {getCartLimitMessage(limit)}
+        </p>
+      )}
     </div>
   );
 };
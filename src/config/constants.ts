@@ -19,13 +19,75 @@ export const APP_METADATA = {
   SUPPORTED_LOCALES: ['en', 'sv', 'hi'] as const, // English, Swedish, Hindi
 } as const;
 
+const SUPPORTED_CURRENCIES = ['SEK', 'USD', 'EUR', 'INR'] as const;
+
 /**
  * Currency configuration
  */
 export const CURRENCY = {
-  DEFAULT: 'SEK', // Swedish Krona
-  SYMBOL: 'kr',
-  SUPPORTED_CURRENCIES: ['SEK', 'USD', 'EUR', 'INR'] as const,
+  /** Currency prices and orders are in (NEXT_PUBLIC_CURRENCY, default Swedish Krona) */
+  DEFAULT: (SUPPORTED_CURRENCIES as readonly string[]).includes(process.env.NEXT_PUBLIC_CURRENCY || '')
+    ? (process.env.NEXT_PUBLIC_CURRENCY as (typeof SUPPORTED_CURRENCIES)[number])
+    : 'SEK',
+  SUPPORTED_CURRENCIES,
+
+  /** Locale amounts in each currency are formatted for */
+  LOCALES: {
+    SEK: 'sv-SE',
+    USD: 'en-US',
+    EUR: 'en-IE',
+    INR: 'en-IN',
+  } as Readonly<Record<string, string>>,
+} as const;
+
+const TAX_REGIONS = ['SE', 'IN'] as const;
+type ConfiguredTaxRegion = (typeof TAX_REGIONS)[number];
+
+function parseTaxRegion(value: string | undefined): ConfiguredTaxRegion | undefined {
+  const region = value?.trim().toUpperCase() || '';
+  return (TAX_REGIONS as readonly string[]).includes(region) ? (region as ConfiguredTaxRegion) : undefined;
+}
+
+/**
+ * Parse per-store tax regions: `storeA=SE;storeB=IN`
+ */
+function parseStoreTaxRegions(value: string): Record<string, ConfiguredTaxRegion> {
+  const stores: Record<string, ConfiguredTaxRegion> = {};
+  for (const entry of value.split(';')) {
+    const [storeId, region] = entry.split('=');
+    const parsed = parseTaxRegion(region);
+    if (storeId?.trim() && parsed) {
+      stores[storeId.trim()] = parsed;
+    }
+  }
+  return stores;
+}
+
+/**
+ * Tax configuration (rules per region in lib/tax)
+ */
+export const TAX = {
+  /** Sweden (VAT) and India (GST) */
+  REGIONS: TAX_REGIONS,
+
+  /** Region of stores without their own (NEXT_PUBLIC_TAX_REGION; default: IN for INR, SE otherwise) */
+  DEFAULT_REGION: parseTaxRegion(process.env.NEXT_PUBLIC_TAX_REGION) ?? (CURRENCY.DEFAULT === 'INR' ? 'IN' : 'SE'),
+
+  /** Stores in another region than the default (NEXT_PUBLIC_STORE_TAX_REGIONS) */
+  STORE_REGIONS: parseStoreTaxRegions(process.env.NEXT_PUBLIC_STORE_TAX_REGIONS || '') as Readonly<
+    Record<string, ConfiguredTaxRegion>
+  >,
+} as const;
+
+/**
+ * Promotions and discount codes (rules in lib/promotions)
+ */
+export const PROMOTIONS = {
+  /** JSON list of promotions (NEXT_PUBLIC_PROMOTIONS); invalid entries are skipped */
+  CONFIG: process.env.NEXT_PUBLIC_PROMOTIONS || '',
+
+  /** Longest discount code a customer can enter */
+  MAX_CODE_LENGTH: 32,
 } as const;
 
 /**
@@ -67,18 +129,80 @@ export const API = {
   /** Endpoints for VM Service API */
   ENDPOINTS: {
     TOKEN: '/api/v1/token',
+    TOKEN_REFRESH: '/api/v1/token/refresh',
     ORDERS: '/api/v1/orders',
     VALIDATE_ORDER: '/api/v1/orders/validate',
+    CANCEL_ORDER: (orderId: string) => `/api/v1/orders/${orderId}/cancel`,
     VERIFY_PAYMENT: '/api/v1/payments/verify',
     DISPENSE: (orderId: string) => `/api/v1/orders/${orderId}/dispense`,
     RAZORPAY_ORDER: (orderId: string) => `/api/v1/orders/${orderId}/razorpay`,
+    SWISH_PAYMENT: (orderId: string) => `/api/v1/orders/${orderId}/swish`,
+    SWISH_PAYMENT_BY_ID: (paymentId: string) => `/api/v1/payments/swish/${paymentId}`,
+    CARD_PAYMENT: (orderId: string) => `/api/v1/orders/${orderId}/card`,
+    CARD_PAYMENT_BY_ID: (paymentId: string) => `/api/v1/payments/card/${paymentId}`,
+    TEST_PAYMENT: (orderId: string) => `/api/v1/orders/${orderId}/test-payment`,
     SPRINGS: (storeId: string) => `/api/v1/stores/${storeId}/springs`,
     CONNECTION_STATUS: (storeId: string, vmId: string) =>
       `/api/v1/stores/${storeId}/vms/${vmId}/connection`,
     ORDER_BY_ID: (orderId: string) => `/api/v1/orders/${orderId}`,
+    EVENTS: (storeId: string) => `/api/v1/stores/${storeId}/events`,
+    EVENTS_WS: (storeId: string) => `/api/v1/stores/${storeId}/events/ws`,
   },
 } as const;
 
+/**
+ * Realtime channel configuration (WebSocket with SSE fallback)
+ */
+export const REALTIME = {
+  /** Time allowed for a transport to open before falling back (in milliseconds) */
+  CONNECT_TIMEOUT: 10000, // 10 seconds
+
+  /** Initial delay before reconnecting, doubled on each failed attempt (in milliseconds) */
+  RECONNECT_DELAY: 1000,
+
+  /** Upper bound for the reconnect delay (in milliseconds) */
+  MAX_RECONNECT_DELAY: 30000, // 30 seconds
+} as const;
+
+/**
+ * React Query configuration for vm-service data
+ */
+export const QUERY = {
+  /** How long fetched data is considered fresh (in milliseconds) */
+  STALE_TIME: 60 * 1000, // 1 minute
+
+  /** Background refetch interval for the product (springs) list (in milliseconds) */
+  SPRINGS_REFETCH_INTERVAL: 60 * 1000, // 1 minute
+} as const;
+
+/**
+ * Authentication configuration
+ */
+export const AUTH = {
+  /** Treat tokens as expired this long before their expires_at (in milliseconds) */
+  TOKEN_EXPIRY_BUFFER: 5 * 60 * 1000, // 5 minutes
+
+  /** Persist cached tokens in localStorage so reloads don't request a new one */
+  PERSIST_TOKENS: true,
+
+  /** LocalStorage key for persisted tokens (keyed by client ID) */
+  TOKEN_STORAGE_KEY: 'vm-service-token',
+} as const;
+
+/**
+ * Idempotency configuration for mutating vm-service calls
+ */
+export const IDEMPOTENCY = {
+  /** Header vm-service deduplicates requests on */
+  HEADER: 'Idempotency-Key',
+
+  /** LocalStorage key for persisted idempotency keys (keyed by operation scope) */
+  STORAGE_KEY: 'vm-idempotency-keys',
+
+  /** How long a key is kept before it is pruned (in milliseconds) */
+  KEY_TTL: 24 * 60 * 60 * 1000, // 24 hours
+} as const;
+
 /**
  * Shopping cart configuration
  */
@@ -128,24 +252,68 @@ export const VM = {
 
   /** Maximum retries for failed dispense operations */
   DISPENSE_MAX_RETRIES: 3,
+
+  /** Finished dispense runs remembered on the device, so a reload cannot start one again */
+  DISPENSE_RUNS_KEPT: 20,
+
+  /** Interrupted dispense runs older than this are no longer resumed (in milliseconds) */
+  DISPENSE_JOURNAL_TTL: 24 * 60 * 60 * 1000, // 24 hours
+
+  /** Interrupted resumes after which the app stops bringing the customer back to a run */
+  DISPENSE_MAX_INTERRUPTIONS: 3,
 } as const;
 
 /**
  * Payment configuration
  */
+const PAYMENT_METHODS = {
+  RAZORPAY: 'razorpay',
+  SWISH: 'swish',
+  CARD: 'card',
+  TEST: 'test',
+} as const;
+
+type ConfiguredPaymentMethod = typeof PAYMENT_METHODS[keyof typeof PAYMENT_METHODS];
+
+/**
+ * Parse a comma-separated list of payment methods, dropping unknown names
+ */
+function parsePaymentMethods(value: string): ConfiguredPaymentMethod[] {
+  const known = Object.values(PAYMENT_METHODS) as string[];
+  return value
+    .split(',')
+    .map((method) => method.trim().toLowerCase())
+    .filter((method): method is ConfiguredPaymentMethod => known.includes(method));
+}
+
+/**
+ * Parse per-store payment methods: `storeA=swish,card;storeB=razorpay`
+ */
+function parseStorePaymentMethods(value: string): Record<string, ConfiguredPaymentMethod[]> {
+  const stores: Record<string, ConfiguredPaymentMethod[]> = {};
+  for (const entry of value.split(';')) {
+    const [storeId, methods] = entry.split('=');
+    if (storeId?.trim() && methods) {
+      stores[storeId.trim()] = parsePaymentMethods(methods);
+    }
+  }
+  return stores;
+}
+
 export const PAYMENT = {
   /** Available payment methods */
-  METHODS: {
-    RAZORPAY: 'razorpay',
-    SWISH: 'swish',
-    CARD: 'card',
-  } as const,
+  METHODS: PAYMENT_METHODS,
+
+  /** Payment methods offered, in display order (NEXT_PUBLIC_PAYMENT_METHODS) */
+  ENABLED_METHODS: parsePaymentMethods(process.env.NEXT_PUBLIC_PAYMENT_METHODS || 'swish,card,razorpay,test'),
+
+  /** Stores offering their own list of payment methods (NEXT_PUBLIC_STORE_PAYMENT_METHODS) */
+  STORE_METHODS: parseStorePaymentMethods(process.env.NEXT_PUBLIC_STORE_PAYMENT_METHODS || '') as Readonly<
+    Record<string, readonly ConfiguredPaymentMethod[]>
+  >,
 
   /** Razorpay configuration */
   RAZORPAY: {
-    /** Currency for Razorpay transactions */
-    CURRENCY: 'INR',
-
     /** Theme color for Razorpay checkout */
     THEME_COLOR: '#6366F1',
 
@@ -153,8 +321,59 @@ export const PAYMENT = {
     MERCHANT_NAME: 'Vamo Store',
   },
 
-  /** Payment timeout (in milliseconds) */
+  /** Swish configuration */
+  SWISH: {
+    /** Interval for polling the payment request while the payer answers (in milliseconds) */
+    POLL_INTERVAL: 2000, // 2 seconds
+
+    /** Swish cancels unanswered payment requests after this long (in milliseconds) */
+    REQUEST_TIMEOUT: 180000, // 3 minutes
+
+    /** Deep link that opens a payment request in the Swish app */
+    APP_URL: 'swish://paymentrequest',
+  },
+
+  /** Card configuration (Stripe Payment Element) */
+  CARD: {
+    /** Stripe.js, loaded when the card form is first shown */
+    SCRIPT_URL: 'https://js.stripe.com/v3/',
+
+    /** Interval for polling the payment while vm-service confirms it (in milliseconds) */
+    POLL_INTERVAL: 2000, // 2 seconds
+
+    /** Give up waiting for vm-service to confirm a submitted card payment (in milliseconds) */
+    CONFIRM_TIMEOUT: 60000, // 1 minute
+  },
+
+  /** Test payment provider (local and demo builds) */
+  TEST: {
+    /** Offer test payments (NEXT_PUBLIC_TEST_PAYMENTS=true); never set this for real stores */
+    ENABLED: process.env.NEXT_PUBLIC_TEST_PAYMENTS === 'true',
+
+    /** Scenario to run without asking (NEXT_PUBLIC_TEST_PAYMENT_SCENARIO, or ?testPayment= on /payment) */
+    SCENARIO: process.env.NEXT_PUBLIC_TEST_PAYMENT_SCENARIO || '',
+
+    /** Time the fake gateway takes to answer (in milliseconds) */
+    RESPONSE_DELAY: 1000, // 1 second
+
+    /** Time the fake gateway takes to answer in the slow scenario (in milliseconds) */
+    SLOW_RESPONSE_DELAY: 15000, // 15 seconds
+  },
+
+  /**
+   * Payments recovered after the app was closed are only dispensed within this
+   * long of opening the payment; older ones are offered a refund (in milliseconds)
+   */
+  RECOVERY_WINDOW: 15 * 60 * 1000, // 15 minutes
+
+  /**
+   * Time the customer has to pay once the order is created; after that the
+   * payment UI is closed and the order cancelled (in milliseconds)
+   */
   TIMEOUT: 300000, // 5 minutes
+
+  /** The countdown turns red when this much time is left (in milliseconds) */
+  TIMEOUT_WARNING: 60000, // 1 minute
 } as const;
 
 /**
@@ -217,8 +436,8 @@ export const VALIDATION = {
  * Feature flags for conditional features
  */
 export const FEATURES = {
-  /** Enable real-time VM status updates via WebSocket */
-  ENABLE_REALTIME_VM_STATUS: false,
+  /** Enable real-time VM status and inventory updates (set NEXT_PUBLIC_VM_REALTIME_URL) */
+  ENABLE_REALTIME_VM_STATUS: !!process.env.NEXT_PUBLIC_VM_REALTIME_URL,
 
   /** Enable user authentication and accounts */
   ENABLE_USER_AUTH: false,
@@ -247,7 +466,13 @@ export const ERROR_CODES = {
   CART_EMPTY: 'CART_EMPTY',
   AGE_VERIFICATION_REQUIRED: 'AGE_VERIFICATION_REQUIRED',
   INVALID_ORDER: 'INVALID_ORDER',
+  INVALID_RESPONSE: 'INVALID_RESPONSE',
   SESSION_EXPIRED: 'SESSION_EXPIRED',
+  REQUEST_TIMEOUT: 'REQUEST_TIMEOUT',
+  REQUEST_CANCELLED: 'REQUEST_CANCELLED',
+  CONFLICT: 'CONFLICT',
+  SERVER_ERROR: 'SERVER_ERROR',
+  UNKNOWN_ERROR: 'UNKNOWN_ERROR',
 } as const;
 
 /**
@@ -255,6 +480,7 @@ export const ERROR_CODES = {
  */
 export type SupportedLocale = typeof APP_METADATA.SUPPORTED_LOCALES[number];
 export type SupportedCurrency = typeof CURRENCY.SUPPORTED_CURRENCIES[number];
+export type TaxRegion = typeof TAX.REGIONS[number];
 export type PaymentMethod = typeof PAYMENT.METHODS[keyof typeof PAYMENT.METHODS];
 export type Route = typeof ROUTES[keyof typeof ROUTES];
 export type ErrorCode = typeof ERROR_CODES[keyof typeof ERROR_CODES];
@@ -14,37 +14,121 @@ import { z } from 'zod';
  * Environment variable schema definition
  * Uses Zod for runtime validation and type inference
  */
-const envSchema = z.object({
-  // VM Service Configuration
-  NEXT_PUBLIC_VM_SERVICE_URL: z
-    .string()
-    .url('VM Service URL must be a valid URL')
-    .describe('Base URL for the VM Service API'),
-
-  NEXT_PUBLIC_VM_SERVICE_CLIENT_ID: z
-    .string()
-    .min(5, 'Client ID must be at least 5 characters')
-    .describe('OAuth Client ID for VM Service authentication'),
-
-  // NOTE: CLIENT_SECRET should ideally be moved to backend-only
-  // For now, keeping it but marking as deprecated
-  NEXT_PUBLIC_VM_SERVICE_CLIENT_SECRET: z
-    .string()
-    .min(5, 'Client Secret must be at least 5 characters')
-    .describe('OAuth Client Secret (⚠️ DEPRECATED: Move to backend)'),
-
-  // Payment Gateway Configuration
-  NEXT_PUBLIC_RAZORPAY_KEY_ID: z
-    .string()
-    .min(5, 'Razorpay Key ID must be at least 5 characters')
-    .describe('Razorpay public key for payment processing'),
-
-  // Optional: Base path for deployment
-  NEXT_PUBLIC_BASE_PATH: z
-    .string()
-    .optional()
-    .describe('Base path for the application (for GitHub Pages, etc.)'),
-});
+const envSchema = z
+  .object({
+    // VM Service Configuration
+    NEXT_PUBLIC_VM_SERVICE_URL: z
+      .string()
+      .url('VM Service URL must be a valid URL')
+      .describe('Base URL for the VM Service API'),
+
+    NEXT_PUBLIC_VM_SERVICE_CLIENT_ID: z
+      .string()
+      .min(5, 'Client ID must be at least 5 characters')
+      .optional()
+      .describe('OAuth Client ID for VM Service authentication (not needed with the token broker)'),
+
+    // NOTE: CLIENT_SECRET ships in the browser bundle. Prefer the token broker
+    // (NEXT_PUBLIC_TOKEN_BROKER_URL), which keeps the secret on the server.
+    NEXT_PUBLIC_VM_SERVICE_CLIENT_SECRET: z
+      .string()
+      .min(5, 'Client Secret must be at least 5 characters')
+      .optional()
+      .describe('OAuth Client Secret (⚠️ DEPRECATED: use the token broker instead)'),
+
+    // Token broker (backend-for-frontend) holding the client secret
+    NEXT_PUBLIC_TOKEN_BROKER_URL: z
+      .string()
+      .url('Token broker URL must be a valid URL')
+      .optional()
+      .describe('Base URL of the token broker (scripts/token-broker.js)'),
+
+    // Realtime channel (WebSocket/SSE) for VM status and inventory events
+    NEXT_PUBLIC_VM_REALTIME_URL: z
+      .string()
+      .url('Realtime URL must be a valid URL')
+      .optional()
+      .describe('Base URL of the vm-service event stream (enables realtime updates)'),
+
+    // Payment Gateway Configuration
+    // Payment Configuration
+    NEXT_PUBLIC_PAYMENT_METHODS: z
+      .string()
+      .optional()
+      .describe('Comma-separated payment methods to offer, in display order (default: swish,card,razorpay,test)'),
+
+    NEXT_PUBLIC_STORE_PAYMENT_METHODS: z
+      .string()
+      .optional()
+      .describe('Per-store payment methods, e.g. "store-a=swish,card;store-b=razorpay"'),
+
+    NEXT_PUBLIC_CURRENCY: z
+      .enum(['SEK', 'USD', 'EUR', 'INR'])
+      .optional()
+      .describe('Currency prices and orders are in (default: SEK)'),
+
+    NEXT_PUBLIC_TAX_REGION: z
+      .enum(['SE', 'IN'])
+      .optional()
+      .describe('Tax rules of the stores: SE (VAT) or IN (GST); default from the currency'),
+
+    NEXT_PUBLIC_STORE_TAX_REGIONS: z
+      .string()
+      .optional()
+      .describe('Per-store tax regions, e.g. "store-se-01=SE;store-in-01=IN"'),
+
+    NEXT_PUBLIC_PROMOTIONS: z
+      .string()
+      .optional()
+      .describe('Promotions and discount codes as a JSON list (see lib/promotions); public, vm-service validates every code'),
+
+    NEXT_PUBLIC_TEST_PAYMENTS: z
+      .enum(['true', 'false'])
+      .optional()
+      .describe('Offer the test payment provider (local and demo builds only)'),
+
+    NEXT_PUBLIC_TEST_PAYMENT_SCENARIO: z
+      .enum(['success', 'decline', 'cancel', 'verification_failure', 'slow'])
+      .optional()
+      .describe('Test payment scenario to run without asking'),
+
+    NEXT_PUBLIC_RAZORPAY_KEY_ID: z
+      .string()
+      .min(5, 'Razorpay Key ID must be at least 5 characters')
+      .optional()
+      .describe('Razorpay public key for payment processing (Razorpay is hidden without it)'),
+
+    NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY: z
+      .string()
+      .regex(/^pk_(test|live)_/, 'Stripe publishable key must start with pk_test_ or pk_live_')
+      .optional()
+      .describe('Stripe publishable key for the hosted card form (card payments are hidden without it)'),
+
+    // Optional: Base path for deployment
+    NEXT_PUBLIC_BASE_PATH: z
+      .string()
+      .optional()
+      .describe('Base path for the application (for GitHub Pages, etc.)'),
+  })
+  .superRefine((values, ctx) => {
+    // Without a token broker the PWA exchanges client credentials itself
+    if (values.NEXT_PUBLIC_TOKEN_BROKER_URL) return;
+
+    if (!values.NEXT_PUBLIC_VM_SERVICE_CLIENT_ID) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['NEXT_PUBLIC_VM_SERVICE_CLIENT_ID'],
+        message: 'Client ID is required unless NEXT_PUBLIC_TOKEN_BROKER_URL is set',
+      });
+    }
+    if (!values.NEXT_PUBLIC_VM_SERVICE_CLIENT_SECRET) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['NEXT_PUBLIC_VM_SERVICE_CLIENT_SECRET'],
+        message: 'Client Secret is required unless NEXT_PUBLIC_TOKEN_BROKER_URL is set',
+      });
+    }
+  });
 
 /**
  * Validated environment variables
@@ -62,7 +146,19 @@ function validateEnv(): Env {
       NEXT_PUBLIC_VM_SERVICE_URL: process.env.NEXT_PUBLIC_VM_SERVICE_URL,
       NEXT_PUBLIC_VM_SERVICE_CLIENT_ID: process.env.NEXT_PUBLIC_VM_SERVICE_CLIENT_ID,
       NEXT_PUBLIC_VM_SERVICE_CLIENT_SECRET: process.env.NEXT_PUBLIC_VM_SERVICE_CLIENT_SECRET,
+      NEXT_PUBLIC_TOKEN_BROKER_URL: process.env.NEXT_PUBLIC_TOKEN_BROKER_URL,
+      NEXT_PUBLIC_VM_REALTIME_URL: process.env.NEXT_PUBLIC_VM_REALTIME_URL,
+      NEXT_PUBLIC_PAYMENT_METHODS: process.env.NEXT_PUBLIC_PAYMENT_METHODS,
+      NEXT_PUBLIC_STORE_PAYMENT_METHODS: process.env.NEXT_PUBLIC_STORE_PAYMENT_METHODS,
+      // Docker builds pass unset build args as empty strings
+      NEXT_PUBLIC_CURRENCY: process.env.NEXT_PUBLIC_CURRENCY || undefined,
+      NEXT_PUBLIC_TAX_REGION: process.env.NEXT_PUBLIC_TAX_REGION || undefined,
+      NEXT_PUBLIC_STORE_TAX_REGIONS: process.env.NEXT_PUBLIC_STORE_TAX_REGIONS,
+      NEXT_PUBLIC_PROMOTIONS: process.env.NEXT_PUBLIC_PROMOTIONS,
+      NEXT_PUBLIC_TEST_PAYMENTS: process.env.NEXT_PUBLIC_TEST_PAYMENTS || undefined,
+      NEXT_PUBLIC_TEST_PAYMENT_SCENARIO: process.env.NEXT_PUBLIC_TEST_PAYMENT_SCENARIO || undefined,
       NEXT_PUBLIC_RAZORPAY_KEY_ID: process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID,
+      NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY: process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY,
       NEXT_PUBLIC_BASE_PATH: process.env.NEXT_PUBLIC_BASE_PATH,
     });
   } catch (error) {
@@ -3,6 +3,8 @@
  *
  * Custom hook for monitoring vending machine connection status.
  * Provides real-time status updates and automatic reconnection handling.
+ * Uses the realtime channel when FEATURES.ENABLE_REALTIME_VM_STATUS is on and
+ * falls back to polling getConnectionStatus whenever the channel is down.
  *
  * @module hooks/useVMStatus
  */
@@ -10,9 +12,11 @@
 'use client';
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { getConnectionStatus } from '@/lib/api/vmService';
+import { useQueryClient } from '@tanstack/react-query';
+import { useConnectionStatus, useRealtimeChannel, connectionStatusQueryOptions } from '@/lib/api/hooks';
 import { VM } from '@/config/constants';
 import { showVMStatusToast } from '@/lib/utils/toast';
+import { VMOfflineError } from '@/lib/api/errors';
 
 /**
  * VM connection status types
@@ -47,7 +51,7 @@ export interface UseVMStatusOptions {
   storeId: string;
   /** VM ID to check */
   vmId: string;
-  /** Auto-check interval in milliseconds (default: 30s, 0 to disable) */
+  /** Auto-check interval in milliseconds while realtime is unavailable (default: 30s, 0 to disable) */
   pollInterval?: number;
   /** Show toast notifications on status changes */
   showToasts?: boolean;
@@ -61,7 +65,7 @@ export interface UseVMStatusOptions {
  * Custom hook for monitoring VM connection status
  *
  * Features:
- * - Automatic periodic status checks
+ * - Automatic periodic status checks (shared with other components via the query cache)
  * - Manual status checking
  * - Connection retry logic
  * - Toast notifications for status changes
@@ -96,74 +100,67 @@ export function useVMStatus({
   onStatusChange,
   enabled = true,
 }: UseVMStatusOptions): UseVMStatusReturn {
-  const [status, setStatus] = useState<VMStatus>('checking');
-  const [lastSeen, setLastSeen] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  // Live connection events when the realtime channel is up; polling only as a fallback
+  const { isLive } = useRealtimeChannel(storeId, { enabled });
+
+  // Polling, refetch on visibility change and request deduplication come from React Query
+  const query = useConnectionStatus(storeId, vmId, {
+    enabled,
+    pollInterval: isLive ? 0 : pollInterval,
+  });
+  const { data, error: queryError, isFetching, refetch } = query;
+
+  let status: VMStatus = 'checking';
+  if (query.isError) {
+    // vm-service itself reported the machine as unreachable
+    status = queryError instanceof VMOfflineError ? 'offline' : 'error';
+  } else if (data) {
+    status = data.connected ? 'online' : 'offline';
+  }
+
+  const lastSeen = !query.isError && data?.last_seen ? data.last_seen : null;
+  const error = query.isError ? queryError?.message || 'Failed to check VM status' : null;
 
   const previousStatusRef = useRef<VMStatus>('checking');
-  const pollIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const isCheckingRef = useRef(false);
 
   /**
-   * Update status and trigger notifications/callbacks
+   * Trigger notifications/callbacks when the status changes
    */
-  const updateStatus = useCallback(
-    (newStatus: VMStatus, lastSeenTime?: string, errorMessage?: string) => {
-      const previousStatus = previousStatusRef.current;
-
-      // Update state
-      setStatus(newStatus);
-      setLastSeen(lastSeenTime || null);
-      setError(errorMessage || null);
-
-      // Only show toast if status actually changed
-      if (showToasts && newStatus !== previousStatus && newStatus !== 'checking') {
-        // Don't show toast on initial load if already online
-        if (!(previousStatus === 'checking' && newStatus === 'online')) {
-          showVMStatusToast(newStatus === 'online' ? 'online' : 'offline');
-        }
-      }
-
-      // Trigger callback if provided
-      if (onStatusChange && newStatus !== previousStatus) {
-        onStatusChange(newStatus);
-      }
-
-      previousStatusRef.current = newStatus;
-    },
-    [showToasts, onStatusChange]
-  );
-
-  /**
-   * Check VM connection status
-   */
-  const checkStatus = useCallback(async (): Promise<void> => {
-    // Prevent concurrent checks
-    if (isCheckingRef.current) {
+  useEffect(() => {
+    const previousStatus = previousStatusRef.current;
+    if (status === previousStatus) {
       return;
     }
 
-    isCheckingRef.current = true;
-    updateStatus('checking');
+    // Only show toast if status actually changed
+    if (showToasts && status !== 'checking') {
+      // Don't show toast on initial load if already online
+      if (!(previousStatus === 'checking' && status === 'online')) {
+        showVMStatusToast(status === 'online' ? 'online' : 'offline');
+      }
+    }
 
-    try {
-      const response = await getConnectionStatus(storeId, vmId);
+    // Trigger callback if provided
+    if (onStatusChange) {
+      onStatusChange(status);
+    }
 
-      if (response.connected) {
-        updateStatus('online', response.last_seen);
-      } else {
-        updateStatus('offline', response.last_seen);
-      }
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to check VM status';
-      updateStatus('error', undefined, errorMessage);
+    previousStatusRef.current = status;
+  }, [status, showToasts, onStatusChange]);
 
+  useEffect(() => {
+    if (queryError) {
       // Log error for debugging
-      console.error('[useVMStatus] Status check failed:', err);
-    } finally {
-      isCheckingRef.current = false;
+      console.error('[useVMStatus] Status check failed:', queryError);
     }
-  }, [storeId, vmId, updateStatus]);
+  }, [queryError]);
+
+  /**
+   * Check VM connection status (joins a check that is already in flight)
+   */
+  const checkStatus = useCallback(async (): Promise<void> => {
+    await refetch({ cancelRefetch: false });
+  }, [refetch]);
 
   /**
    * Retry connection - manually trigger a status check
@@ -175,55 +172,10 @@ export function useVMStatus({
     await checkStatus();
   }, [checkStatus, showToasts]);
 
-  /**
-   * Set up automatic polling
-   */
-  useEffect(() => {
-    // Don't poll if disabled or no poll interval
-    if (!enabled || pollInterval <= 0) {
-      return;
-    }
-
-    // Initial check
-    checkStatus();
-
-    // Set up polling interval
-    pollIntervalRef.current = setInterval(() => {
-      checkStatus();
-    }, pollInterval);
-
-    // Cleanup on unmount
-    return () => {
-      if (pollIntervalRef.current) {
-        clearInterval(pollIntervalRef.current);
-        pollIntervalRef.current = null;
-      }
-    };
-  }, [enabled, pollInterval, checkStatus]);
-
-  /**
-   * Handle visibility change - check status when page becomes visible
-   */
-  useEffect(() => {
-    if (!enabled) return;
-
-    const handleVisibilityChange = () => {
-      if (document.visibilityState === 'visible') {
-        checkStatus();
-      }
-    };
-
-    document.addEventListener('visibilitychange', handleVisibilityChange);
-
-    return () => {
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
-    };
-  }, [enabled, checkStatus]);
-
   return {
     status,
     isOnline: status === 'online',
-    isChecking: status === 'checking',
+    isChecking: status === 'checking' || isFetching,
     lastSeen,
     error,
     checkStatus,
@@ -255,6 +207,7 @@ export function useVMStatus({
  * ```
  */
 export function useVMStatusCheck(storeId: string, vmId: string) {
+  const queryClient = useQueryClient();
   const [isChecking, setIsChecking] = useState(false);
   const [isOnline, setIsOnline] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -268,7 +221,7 @@ export function useVMStatusCheck(storeId: string, vmId: string) {
     setError(null);
 
     try {
-      const response = await getConnectionStatus(storeId, vmId);
+      const response = await queryClient.fetchQuery(connectionStatusQueryOptions(storeId, vmId));
       setIsOnline(response.connected);
       return response.connected;
     } catch (err) {
@@ -279,7 +232,7 @@ export function useVMStatusCheck(storeId: string, vmId: string) {
     } finally {
       setIsChecking(false);
     }
-  }, [storeId, vmId]);
+  }, [queryClient, storeId, vmId]);
 
   return {
     checkAndWait,
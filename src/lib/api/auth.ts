@@ -1,11 +1,26 @@
 /**
  * Authentication service for vm-service
- * Handles token generation, storage, and refresh
+ * Handles token generation, caching, and refresh
+ *
+ * Tokens are cached in memory per client ID (and persisted to localStorage when
+ * AUTH.PERSIST_TOKENS is enabled). Concurrent requests for the same client share
+ * a single in-flight token request, and expired tokens are renewed with the
+ * refresh_token before falling back to a new client-credentials exchange.
+ *
+ * When NEXT_PUBLIC_TOKEN_BROKER_URL is configured, tokens are requested from the
+ * token broker (scripts/token-broker.js) for the current store instead, so the
+ * client secret never has to be part of the browser bundle.
  */
 
+import { API, AUTH } from '@/config/constants';
+import { useAppStore } from '@/lib/stores/appStore';
+import { VmServiceError, AuthError, NetworkError, ServerError, ValidationError } from './errors';
+
 const VM_SERVICE_URL = process.env.NEXT_PUBLIC_VM_SERVICE_URL || '';
 const CLIENT_ID = process.env.NEXT_PUBLIC_VM_SERVICE_CLIENT_ID || '';
 const CLIENT_SECRET = process.env.NEXT_PUBLIC_VM_SERVICE_CLIENT_SECRET || '';
+// When set, tokens come from the token broker and no client secret is needed in the browser
+const TOKEN_BROKER_URL = process.env.NEXT_PUBLIC_TOKEN_BROKER_URL || '';
 
 export interface TokenResponse {
   access_token: string;
@@ -20,10 +35,10 @@ export interface TokenStorage {
   refreshToken: string;
   expiresAt: number;
   projectId: string;
-  clientId?: string; // Store client_id for dynamic credentials
+  clientId?: string; // Cache key: client_id, or store:<id> for broker tokens
 }
 
-const TOKEN_STORAGE_KEY = 'vm-service-token';
+const TOKEN_STORAGE_KEY = AUTH.TOKEN_STORAGE_KEY;
 const CREDENTIALS_STORAGE_KEY = 'vm-service-credentials';
 
 /**
@@ -77,87 +92,110 @@ export function getStoredCredentials(): { clientId: string; clientSecret: string
 export function clearCredentials(): void {
   if (typeof window === 'undefined') return;
   localStorage.removeItem(CREDENTIALS_STORAGE_KEY);
-  localStorage.removeItem(TOKEN_STORAGE_KEY);
+  clearToken();
 }
 
 /**
- * Get stored token from localStorage
+ * In-memory token cache keyed by client ID (or store:<id> for broker tokens)
  */
-function getStoredToken(): TokenStorage | null {
-  if (typeof window === 'undefined') return null;
-  
+const tokenCache = new Map<string, TokenStorage>();
+
+/**
+ * Token requests currently in flight, keyed like the token cache.
+ * Concurrent callers await the same promise instead of requesting their own token.
+ */
+const inFlightTokenRequests = new Map<string, Promise<TokenStorage>>();
+
+/**
+ * Check whether a cached token can still be used
+ */
+function isTokenValid(token: TokenStorage | null | undefined): boolean {
+  return !!token && Date.now() < token.expiresAt - AUTH.TOKEN_EXPIRY_BUFFER;
+}
+
+/**
+ * Read all persisted tokens from localStorage
+ */
+function readStoredTokens(): Record<string, TokenStorage> {
+  if (typeof window === 'undefined' || !AUTH.PERSIST_TOKENS) return {};
+
   try {
     const stored = localStorage.getItem(TOKEN_STORAGE_KEY);
-    if (!stored) return null;
-    
-    const token: TokenStorage = JSON.parse(stored);
-    
-    // Check if token is expired (with 5 minute buffer)
-    if (Date.now() >= token.expiresAt - 5 * 60 * 1000) {
-      localStorage.removeItem(TOKEN_STORAGE_KEY);
-      return null;
+    if (!stored) return {};
+
+    const parsed = JSON.parse(stored);
+    // Tokens used to be stored as a single object; ignore that legacy shape
+    if (!parsed || typeof parsed !== 'object' || 'accessToken' in parsed) {
+      return {};
     }
-    
-    return token;
+    return parsed as Record<string, TokenStorage>;
   } catch {
-    return null;
+    return {};
   }
 }
 
 /**
- * Store token in localStorage
+ * Write all persisted tokens to localStorage
  */
-function storeToken(token: TokenResponse, clientId?: string): void {
-  if (typeof window === 'undefined') return;
-  
-  const tokenStorage: TokenStorage = {
-    accessToken: token.access_token,
-    refreshToken: token.refresh_token,
-    expiresAt: new Date(token.expires_at).getTime(),
-    projectId: token.project_id,
-    clientId,
-  };
-  
-  localStorage.setItem(TOKEN_STORAGE_KEY, JSON.stringify(tokenStorage));
+function writeStoredTokens(tokens: Record<string, TokenStorage>): void {
+  if (typeof window === 'undefined' || !AUTH.PERSIST_TOKENS) return;
+
+  try {
+    if (Object.keys(tokens).length === 0) {
+      localStorage.removeItem(TOKEN_STORAGE_KEY);
+    } else {
+      localStorage.setItem(TOKEN_STORAGE_KEY, JSON.stringify(tokens));
+    }
+  } catch (error) {
+    console.warn('Failed to persist token:', error);
+  }
 }
 
 /**
- * Clear stored token (no-op since we're not caching tokens)
+ * Get cached token for a cache key (memory first, then localStorage)
+ * Expired tokens are returned too so their refresh token can be used.
  */
-export function clearToken(): void {
-  if (typeof window === 'undefined') return;
-  console.log('Clearing stored token (if any)');
-  localStorage.removeItem(TOKEN_STORAGE_KEY);
+function getCachedToken(cacheKey: string): TokenStorage | null {
+  const cached = tokenCache.get(cacheKey);
+  if (cached) return cached;
+
+  const stored = readStoredTokens()[cacheKey];
+  if (stored) {
+    tokenCache.set(cacheKey, stored);
+    return stored;
+  }
+
+  return null;
 }
 
 /**
- * Clear all authentication data (credentials only, tokens are not cached)
+ * Store token in memory and, when enabled, in localStorage
  */
-export function clearAllAuth(): void {
-  clearToken();
-  clearCredentials();
-  console.log('All authentication data cleared');
+function storeToken(token: TokenResponse, cacheKey: string): TokenStorage {
+  const tokenStorage: TokenStorage = {
+    accessToken: token.access_token,
+    refreshToken: token.refresh_token,
+    expiresAt: new Date(token.expires_at).getTime(),
+    projectId: token.project_id,
+    clientId: cacheKey,
+  };
+
+  tokenCache.set(cacheKey, tokenStorage);
+  writeStoredTokens({ ...readStoredTokens(), [cacheKey]: tokenStorage });
+
+  return tokenStorage;
 }
 
 /**
- * Get access token - ALWAYS fetches a fresh token (no caching)
- * @param clientId - Optional client ID (from URL params or env)
- * @param clientSecret - Optional client secret (from URL params or env)
+ * Resolve which credentials to use
+ * Priority: provided params > env vars > stored credentials
  */
-export async function getAccessToken(
+function resolveCredentials(
   clientId?: string,
   clientSecret?: string
-): Promise<string> {
-  // Always fetch a fresh token - no caching
-  // Determine which credentials to use (priority: provided params > env vars > stored credentials)
-  let finalClientId = clientId;
-  let finalClientSecret = clientSecret;
-
-  // If not provided, use environment variables (primary source)
-  if (!finalClientId || !finalClientSecret) {
-    finalClientId = finalClientId || CLIENT_ID;
-    finalClientSecret = finalClientSecret || CLIENT_SECRET;
-  }
+): { clientId: string; clientSecret: string } | null {
+  let finalClientId = clientId || CLIENT_ID;
+  let finalClientSecret = clientSecret || CLIENT_SECRET;
 
   // If still not available, try to get from stored credentials (fallback)
   if (!finalClientId || !finalClientSecret) {
@@ -168,26 +206,85 @@ export async function getAccessToken(
     }
   }
 
-  // Validate credentials
   if (!finalClientId || !finalClientSecret) {
-    throw new Error('CLIENT_ID and CLIENT_SECRET must be configured in environment variables (NEXT_PUBLIC_VM_SERVICE_CLIENT_ID and NEXT_PUBLIC_VM_SERVICE_CLIENT_SECRET)');
+    return null;
   }
 
   // Trim whitespace from credentials (common issue)
-  finalClientId = finalClientId.trim();
-  finalClientSecret = finalClientSecret.trim();
-
-  const baseUrl = getApiBaseUrl();
-  const tokenUrl = `${baseUrl}/api/v1/token`;
-  
-  // Prepare request body exactly as vm-service expects
-  const requestBody = {
-    client_id: finalClientId,
-    client_secret: finalClientSecret,
+  return {
+    clientId: finalClientId.trim(),
+    clientSecret: finalClientSecret.trim(),
   };
+}
+
+/**
+ * Parse a token endpoint response, throwing descriptive errors on failure
+ */
+async function parseTokenResponse(response: Response): Promise<TokenResponse> {
+  // Get response text first to see what we're dealing with
+  const responseText = await response.text();
+
+  if (!response.ok) {
+    let errorMessage = `Authentication failed with status ${response.status}`;
+    let errorDetails: any = {};
+
+    try {
+      errorDetails = JSON.parse(responseText);
+      errorMessage = errorDetails.error || errorDetails.message || errorMessage;
+
+      // Log detailed error for debugging
+      console.error('Token request failed:', {
+        status: response.status,
+        statusText: response.statusText,
+        error: errorDetails.error,
+        message: errorDetails.message,
+        code: errorDetails.code,
+      });
+    } catch (parseError) {
+      console.error('Failed to parse error response:', responseText);
+      errorMessage = `Authentication failed: ${responseText || response.statusText}`;
+    }
+
+    // Provide helpful error messages based on status code
+    if (response.status === 401) {
+      throw new AuthError(`Invalid credentials (401): ${errorMessage}. Please verify your CLIENT_ID and CLIENT_SECRET in environment variables.`, { status: 401, code: errorDetails.code });
+    } else if (response.status === 400) {
+      throw new AuthError(`Bad request (400): ${errorMessage}. Please check your request format.`, { status: 400, code: errorDetails.code });
+    } else if (response.status >= 500) {
+      throw new ServerError(`Server error (${response.status}): ${errorMessage}. Please try again later.`, { status: response.status, code: errorDetails.code });
+    }
+
+    throw new AuthError(errorMessage, { status: response.status, code: errorDetails.code });
+  }
+
+  // Parse successful response
+  let tokenResponse: TokenResponse;
+  try {
+    tokenResponse = JSON.parse(responseText);
+  } catch (parseError) {
+    console.error('Failed to parse token response:', responseText);
+    throw new ValidationError('Invalid response format from server', 'response', { status: response.status });
+  }
+
+  // Validate token response structure
+  if (!tokenResponse.access_token) {
+    throw new ValidationError('Invalid token response: missing access_token', 'response', { status: response.status });
+  }
+
+  // Validate token format (should be a JWT)
+  const tokenParts = tokenResponse.access_token.split('.');
+  if (tokenParts.length !== 3) {
+    console.warn('Token does not appear to be a valid JWT (expected 3 parts separated by dots)');
+  }
+
+  return tokenResponse;
+}
 
-  console.log('Requesting token from:', tokenUrl);
-  console.log('Using client_id:', finalClientId.substring(0, 8) + '...'); // Log partial ID for debugging
+/**
+ * POST a JSON body to a token endpoint
+ */
+async function postTokenRequest(path: string, body: Record<string, string>): Promise<TokenResponse> {
+  const tokenUrl = `${getApiBaseUrl()}${path}`;
 
   try {
     const response = await fetch(tokenUrl, {
@@ -196,101 +293,267 @@ export async function getAccessToken(
         'Content-Type': 'application/json',
         'Accept': 'application/json',
       },
-      body: JSON.stringify(requestBody),
+      body: JSON.stringify(body),
     });
 
-    // Get response text first to see what we're dealing with
-    const responseText = await response.text();
-    
-    if (!response.ok) {
-      let errorMessage = `Authentication failed with status ${response.status}`;
-      let errorDetails: any = {};
-      
-      try {
-        errorDetails = JSON.parse(responseText);
-        errorMessage = errorDetails.error || errorDetails.message || errorMessage;
-        
-        // Log detailed error for debugging
-        console.error('Token request failed:', {
-          status: response.status,
-          statusText: response.statusText,
-          error: errorDetails.error,
-          message: errorDetails.message,
-          code: errorDetails.code,
-        });
-      } catch (parseError) {
-        console.error('Failed to parse error response:', responseText);
-        errorMessage = `Authentication failed: ${responseText || response.statusText}`;
-      }
-      
-      // Provide helpful error messages based on status code
-      if (response.status === 401) {
-        throw new Error(`Invalid credentials (401): ${errorMessage}. Please verify your CLIENT_ID and CLIENT_SECRET in environment variables.`);
-      } else if (response.status === 400) {
-        throw new Error(`Bad request (400): ${errorMessage}. Please check your request format.`);
-      } else if (response.status >= 500) {
-        throw new Error(`Server error (${response.status}): ${errorMessage}. Please try again later.`);
-      }
-      
-      throw new Error(errorMessage);
+    return await parseTokenResponse(response);
+  } catch (error) {
+    // Re-throw if it's already our custom error
+    if (error instanceof VmServiceError) {
+      throw error;
     }
+    // Handle network errors
+    console.error('Network error during token request:', error);
+    throw new NetworkError('Failed to connect to authentication server. Please check your VM_SERVICE_URL configuration.', { url: tokenUrl, cause: error });
+  }
+}
 
-    // Parse successful response
-    let tokenResponse: TokenResponse;
-    try {
-      tokenResponse = JSON.parse(responseText);
-    } catch (parseError) {
-      console.error('Failed to parse token response:', responseText);
-      throw new Error('Invalid response format from server');
-    }
+/**
+ * Exchange client credentials for a brand new token
+ */
+async function requestNewToken(clientId: string, clientSecret: string): Promise<TokenResponse> {
+  console.log('Requesting token for client_id:', clientId.substring(0, 8) + '...'); // Log partial ID for debugging
 
-    // Validate token response structure
-    if (!tokenResponse.access_token) {
-      throw new Error('Invalid token response: missing access_token');
-    }
+  const tokenResponse = await postTokenRequest(API.ENDPOINTS.TOKEN, {
+    client_id: clientId,
+    client_secret: clientSecret,
+  });
 
-    // Validate token format (should be a JWT)
-    const tokenParts = tokenResponse.access_token.split('.');
-    if (tokenParts.length !== 3) {
-      console.warn('Token does not appear to be a valid JWT (expected 3 parts separated by dots)');
-    }
+  console.log('Token obtained successfully, expires at:', tokenResponse.expires_at);
+  return tokenResponse;
+}
 
-    console.log('Token obtained successfully');
-    console.log('Token info:', {
-      tokenType: tokenResponse.token_type,
-      expiresAt: tokenResponse.expires_at,
-      projectId: tokenResponse.project_id,
-      tokenLength: tokenResponse.access_token.length,
-      tokenPreview: tokenResponse.access_token.substring(0, 20) + '...',
+/**
+ * Exchange a refresh token for a new access token
+ */
+async function requestRefreshedToken(refreshToken: string): Promise<TokenResponse> {
+  console.log('Refreshing access token');
+
+  const tokenResponse = await postTokenRequest(API.ENDPOINTS.TOKEN_REFRESH, {
+    refresh_token: refreshToken,
+  });
+
+  // Some deployments don't rotate refresh tokens; keep the old one in that case
+  return {
+    ...tokenResponse,
+    refresh_token: tokenResponse.refresh_token || refreshToken,
+  };
+}
+
+/**
+ * Ask the token broker for a token for the store
+ * The broker holds the client secret; the browser only sends the store ID.
+ * The token is scoped only as far as vm-service scopes it (see the broker's header).
+ */
+async function requestBrokerToken(storeId: string): Promise<TokenResponse> {
+  const brokerUrl = `${TOKEN_BROKER_URL.replace(/\/$/, '')}/token`;
+  console.log('Requesting store token from broker for store:', storeId);
+
+  try {
+    const response = await fetch(brokerUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+      },
+      body: JSON.stringify({ store_id: storeId }),
     });
-    
-    // Don't store token - always fetch fresh token on each request
-    // storeToken(tokenResponse, finalClientId);
-    
-    return tokenResponse.access_token;
+
+    return await parseTokenResponse(response);
   } catch (error) {
-    // Re-throw if it's already our custom error
-    if (error instanceof Error) {
+    if (error instanceof VmServiceError) {
       throw error;
     }
-    // Handle network errors
-    console.error('Network error during token request:', error);
-    throw new Error('Failed to connect to authentication server. Please check your VM_SERVICE_URL configuration.');
+    console.error('Network error during broker token request:', error);
+    throw new NetworkError('Failed to connect to the token broker. Please check your NEXT_PUBLIC_TOKEN_BROKER_URL configuration.', { url: brokerUrl, cause: error });
+  }
+}
+
+/**
+ * Whether tokens are obtained from the token broker instead of client credentials
+ */
+export function isTokenBrokerEnabled(): boolean {
+  return TOKEN_BROKER_URL.length > 0;
+}
+
+/**
+ * Run a token request for a cache key, de-duplicating concurrent requests
+ */
+function singleFlight(
+  cacheKey: string,
+  request: () => Promise<TokenResponse>
+): Promise<TokenStorage> {
+  const existing = inFlightTokenRequests.get(cacheKey);
+  if (existing) {
+    return existing;
+  }
+
+  const pending = request()
+    .then((tokenResponse) => storeToken(tokenResponse, cacheKey))
+    .finally(() => {
+      inFlightTokenRequests.delete(cacheKey);
+    });
+
+  inFlightTokenRequests.set(cacheKey, pending);
+  return pending;
+}
+
+/**
+ * Token source for the current configuration:
+ * the broker (keyed by store) or client credentials (keyed by client ID)
+ */
+interface TokenSource {
+  cacheKey: string;
+  request: (refreshToken?: string) => Promise<TokenResponse>;
+}
+
+/**
+ * Resolve where tokens come from, or null when nothing is configured
+ */
+function resolveTokenSource(clientId?: string, clientSecret?: string): TokenSource | null {
+  if (isTokenBrokerEnabled()) {
+    const storeId = useAppStore.getState().storeId;
+    if (!storeId) return null;
+
+    return {
+      cacheKey: `store:${storeId}`,
+      // Broker tokens carry no refresh token; renewal goes back to the broker
+      request: () => requestBrokerToken(storeId),
+    };
+  }
+
+  const credentials = resolveCredentials(clientId, clientSecret);
+  if (!credentials) return null;
+
+  return {
+    cacheKey: credentials.clientId,
+    request: async (refreshToken) => {
+      if (refreshToken) {
+        try {
+          return await requestRefreshedToken(refreshToken);
+        } catch (error) {
+          console.warn('Token refresh failed, requesting a new token:', error);
+        }
+      }
+      return requestNewToken(credentials.clientId, credentials.clientSecret);
+    },
+  };
+}
+
+/**
+ * Resolve the token source, throwing a configuration error when there is none
+ */
+function requireTokenSource(clientId?: string, clientSecret?: string): TokenSource {
+  const source = resolveTokenSource(clientId, clientSecret);
+  if (source) return source;
+
+  if (isTokenBrokerEnabled()) {
+    throw new AuthError('Store ID is required to request a token from the token broker');
+  }
+  throw new AuthError('CLIENT_ID and CLIENT_SECRET must be configured in environment variables (NEXT_PUBLIC_VM_SERVICE_CLIENT_ID and NEXT_PUBLIC_VM_SERVICE_CLIENT_SECRET)');
+}
+
+/**
+ * Clear cached token for a client (or all clients when no ID is given)
+ */
+export function clearToken(clientId?: string): void {
+  if (clientId) {
+    tokenCache.delete(clientId);
+    const stored = readStoredTokens();
+    delete stored[clientId];
+    writeStoredTokens(stored);
+    return;
+  }
+
+  console.log('Clearing all cached tokens');
+  tokenCache.clear();
+  if (typeof window !== 'undefined') {
+    localStorage.removeItem(TOKEN_STORAGE_KEY);
+  }
+}
+
+/**
+ * Clear all authentication data (cached tokens and stored credentials)
+ */
+export function clearAllAuth(): void {
+  clearToken();
+  clearCredentials();
+  console.log('All authentication data cleared');
+}
+
+/**
+ * Get access token, served from cache while it is valid
+ * @param clientId - Optional client ID (from URL params or env)
+ * @param clientSecret - Optional client secret (from URL params or env)
+ */
+export async function getAccessToken(
+  clientId?: string,
+  clientSecret?: string
+): Promise<string> {
+  const source = requireTokenSource(clientId, clientSecret);
+
+  const cached = getCachedToken(source.cacheKey);
+  if (isTokenValid(cached)) {
+    return cached.accessToken;
   }
+
+  const token = await singleFlight(source.cacheKey, () => source.request(cached?.refreshToken));
+  return token.accessToken;
 }
 
 /**
- * Refresh access token using refresh token
- * NOTE: Since we're not caching tokens, this just gets a new token
+ * Force a token refresh, e.g. after the backend rejected the current token
+ * @param clientId - Optional client ID (from URL params or env)
+ * @param clientSecret - Optional client secret (from URL params or env)
  */
-export async function refreshAccessToken(): Promise<string> {
-  // Always get a new token instead of refreshing
-  console.log('Refreshing token - fetching new token instead');
-  return getAccessToken();
+export async function refreshAccessToken(
+  clientId?: string,
+  clientSecret?: string
+): Promise<string> {
+  const source = requireTokenSource(clientId, clientSecret);
+
+  // A refresh for this client may already be running; share it
+  const inFlight = inFlightTokenRequests.get(source.cacheKey);
+  if (inFlight) {
+    return (await inFlight).accessToken;
+  }
+
+  const cached = getCachedToken(source.cacheKey);
+  tokenCache.delete(source.cacheKey);
+
+  const token = await singleFlight(source.cacheKey, () => source.request(cached?.refreshToken));
+  return token.accessToken;
 }
 
 /**
- * Get current access token - ALWAYS fetches a fresh token (no caching)
+ * Invalidate the cached access token without requesting a new one.
+ * The next getCurrentAccessToken call will refresh it.
+ * @param clientId - Optional client ID (from URL params or env)
+ * @param clientSecret - Optional client secret (from URL params or env)
+ * @param rejectedToken - Only invalidate if the cache still holds this token
+ */
+export function invalidateAccessToken(
+  clientId?: string,
+  clientSecret?: string,
+  rejectedToken?: string
+): void {
+  const source = resolveTokenSource(clientId, clientSecret);
+  if (!source) return;
+
+  const cached = getCachedToken(source.cacheKey);
+  if (!cached) return;
+
+  // Another request may already have replaced the rejected token
+  if (rejectedToken && cached.accessToken !== rejectedToken) return;
+
+  // Keep the refresh token around, just mark the access token as expired
+  const expired: TokenStorage = { ...cached, expiresAt: 0 };
+  tokenCache.set(source.cacheKey, expired);
+  writeStoredTokens({ ...readStoredTokens(), [source.cacheKey]: expired });
+}
+
+/**
+ * Get current access token (cached, refreshed when expired)
  * @param clientId - Optional client ID (from URL params or env)
  * @param clientSecret - Optional client secret (from URL params or env)
  */
@@ -298,19 +561,18 @@ export async function getCurrentAccessToken(
   clientId?: string,
   clientSecret?: string
 ): Promise<string> {
-  // Always fetch a fresh token - no caching
-  console.log('Fetching fresh access token...');
   return getAccessToken(clientId, clientSecret);
 }
 
 /**
- * Get stored project ID
- * NOTE: Since we're not caching tokens, this will always return null
- * Project ID should be obtained from the token response when needed
+ * Get project ID from the cached token, if any
+ * @param clientId - Optional client ID (from URL params or env)
  */
-export function getStoredProjectId(): string | null {
-  // Not caching tokens anymore, so no stored project ID
-  return null;
+export function getStoredProjectId(clientId?: string): string | null {
+  const source = resolveTokenSource(clientId);
+  if (!source) return null;
+
+  return getCachedToken(source.cacheKey)?.projectId || null;
 }
 
 /**
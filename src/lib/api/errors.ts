@@ -0,0 +1,256 @@
+/**
+ * Typed API errors
+ *
+ * Every failure coming out of the vm-service client is one of these classes.
+ * Each error carries the HTTP status (if any), the backend error `code` and a
+ * mapped `ErrorCode` from config/constants, so UI code can branch on the kind
+ * of failure (`instanceof VMOfflineError`, `error.errorCode`) instead of
+ * matching message text.
+ *
+ * @module lib/api/errors
+ */
+
+import type { z } from 'zod';
+import { ERROR_CODES, type ErrorCode } from '@/config/constants';
+
+/**
+ * Common fields accepted by every API error
+ */
+export interface ApiErrorOptions {
+  /** HTTP status of the failed response */
+  status?: number;
+  /** Error code returned by vm-service (`code` in the error body) */
+  code?: string | number;
+  /** Request URL */
+  url?: string;
+  /** Underlying error */
+  cause?: unknown;
+}
+
+/**
+ * Base class for all vm-service errors
+ */
+export class VmServiceError extends Error {
+  readonly errorCode: ErrorCode;
+  readonly status?: number;
+  readonly code?: string | number;
+  readonly url?: string;
+
+  constructor(message: string, errorCode: ErrorCode, options: ApiErrorOptions = {}) {
+    super(message);
+    this.name = 'VmServiceError';
+    this.errorCode = errorCode;
+    this.status = options.status;
+    this.code = options.code;
+    this.url = options.url;
+    if (options.cause !== undefined) {
+      (this as { cause?: unknown }).cause = options.cause;
+    }
+  }
+
+  /**
+   * Whether repeating the same request could succeed
+   * (408, 429 and 5xx responses by default)
+   */
+  get isRetryable(): boolean {
+    const status = this.status ?? 0;
+    return status === 408 || status === 429 || status >= 500;
+  }
+}
+
+/**
+ * The request never reached the server (offline, DNS, CORS, connection reset)
+ */
+export class NetworkError extends VmServiceError {
+  constructor(message = 'Failed to connect to the server. Please check your internet connection.', options?: ApiErrorOptions) {
+    super(message, ERROR_CODES.NETWORK_ERROR, options);
+    this.name = 'NetworkError';
+  }
+
+  get isRetryable(): boolean {
+    return true;
+  }
+}
+
+/**
+ * The server did not answer in time (client timeout or HTTP 408)
+ */
+export class TimeoutError extends VmServiceError {
+  constructor(message = 'The request timed out.', options?: ApiErrorOptions) {
+    super(message, ERROR_CODES.REQUEST_TIMEOUT, options);
+    this.name = 'TimeoutError';
+  }
+
+  get isRetryable(): boolean {
+    return true;
+  }
+}
+
+/**
+ * The caller cancelled the request through its AbortSignal
+ */
+export class RequestCancelledError extends VmServiceError {
+  constructor(message = 'Request was cancelled', options?: ApiErrorOptions) {
+    super(message, ERROR_CODES.REQUEST_CANCELLED, options);
+    this.name = 'RequestCancelledError';
+  }
+
+  get isRetryable(): boolean {
+    return false;
+  }
+}
+
+/**
+ * Credentials or token were rejected (HTTP 401/403, failed token exchange)
+ */
+export class AuthError extends VmServiceError {
+  constructor(message = 'Authentication failed.', options?: ApiErrorOptions) {
+    super(message, ERROR_CODES.SESSION_EXPIRED, options);
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * A payload did not match the expected contract.
+ * `source: 'request'` means we built a bad request; `'response'` means the backend drifted.
+ */
+export class ValidationError extends VmServiceError {
+  readonly source: 'request' | 'response';
+  readonly issues: z.ZodIssue[];
+
+  constructor(
+    message: string,
+    source: 'request' | 'response',
+    options: ApiErrorOptions & { issues?: z.ZodIssue[] } = {}
+  ) {
+    super(
+      message,
+      source === 'response' ? ERROR_CODES.INVALID_RESPONSE : ERROR_CODES.INVALID_ORDER,
+      options
+    );
+    this.name = 'ValidationError';
+    this.source = source;
+    this.issues = options.issues || [];
+  }
+}
+
+/**
+ * The vending machine is offline or not reachable from vm-service
+ */
+export class VMOfflineError extends VmServiceError {
+  constructor(message = 'The vending machine is currently offline.', options?: ApiErrorOptions) {
+    super(message, ERROR_CODES.VM_OFFLINE, options);
+    this.name = 'VMOfflineError';
+  }
+}
+
+/**
+ * Payment could not be created or verified
+ */
+export class PaymentError extends VmServiceError {
+  constructor(
+    message = 'Payment failed.',
+    errorCode: typeof ERROR_CODES.PAYMENT_FAILED | typeof ERROR_CODES.PAYMENT_VERIFICATION_FAILED = ERROR_CODES.PAYMENT_FAILED,
+    options?: ApiErrorOptions
+  ) {
+    super(message, errorCode, options);
+    this.name = 'PaymentError';
+  }
+}
+
+/**
+ * The machine or backend refused to dispense
+ */
+export class DispenseError extends VmServiceError {
+  constructor(message = 'Dispense failed.', options?: ApiErrorOptions) {
+    super(message, ERROR_CODES.DISPENSE_FAILED, options);
+    this.name = 'DispenseError';
+  }
+}
+
+/**
+ * The request conflicts with the current state (HTTP 409), e.g. order already paid or dispensed
+ */
+export class ConflictError extends VmServiceError {
+  constructor(message = 'The request conflicts with the current state.', options?: ApiErrorOptions) {
+    super(message, ERROR_CODES.CONFLICT, options);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * vm-service failed with a 5xx (or 429) we can't attribute to a more specific kind
+ */
+export class ServerError extends VmServiceError {
+  constructor(message = 'The server encountered an error.', options?: ApiErrorOptions) {
+    super(message, ERROR_CODES.SERVER_ERROR, options);
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * What an endpoint does, used to pick the error class for generic HTTP failures
+ */
+export type ErrorDomain = 'payment' | 'payment-verification' | 'dispense' | 'vm';
+
+/**
+ * Backend error codes that mean the VM is unreachable
+ */
+const VM_OFFLINE_CODES = ['VM_OFFLINE', 'VM_DISCONNECTED', 'VM_NOT_CONNECTED'];
+
+/**
+ * Map a failed HTTP response to a typed error
+ *
+ * @param status - HTTP status
+ * @param message - Error message from the body (or a default)
+ * @param options - Backend code, URL and the endpoint's error domain
+ */
+export function mapHttpError(
+  status: number,
+  message: string,
+  options: ApiErrorOptions & { domain?: ErrorDomain } = {}
+): VmServiceError {
+  const { domain, ...errorOptions } = options;
+  const code = typeof options.code === 'string' ? options.code.toUpperCase() : '';
+  const withStatus = { ...errorOptions, status };
+
+  if (status === 401 || status === 403) {
+    return new AuthError(message, withStatus);
+  }
+  if (status === 408) {
+    return new TimeoutError(message, withStatus);
+  }
+  if (VM_OFFLINE_CODES.includes(code) || (domain === 'vm' && (status === 502 || status === 503 || status === 504))) {
+    return new VMOfflineError(message, withStatus);
+  }
+  if (status === 409) {
+    return new ConflictError(message, withStatus);
+  }
+  if (domain === 'payment-verification') {
+    return new PaymentError(message, ERROR_CODES.PAYMENT_VERIFICATION_FAILED, withStatus);
+  }
+  if (domain === 'payment' || code.startsWith('PAYMENT_')) {
+    return new PaymentError(message, ERROR_CODES.PAYMENT_FAILED, withStatus);
+  }
+  if (domain === 'dispense' || code.startsWith('DISPENSE_')) {
+    return new DispenseError(message, withStatus);
+  }
+  if (status === 429 || status >= 500) {
+    return new ServerError(message, withStatus);
+  }
+  if (status === 400 || status === 422) {
+    return new ValidationError(message, 'request', withStatus);
+  }
+
+  return new VmServiceError(message, ERROR_CODES.UNKNOWN_ERROR, withStatus);
+}
+
+/**
+ * Get the ErrorCode for any thrown value
+ */
+export function getErrorCode(error: unknown): ErrorCode {
+  if (error instanceof VmServiceError) {
+    return error.errorCode;
+  }
+  return ERROR_CODES.UNKNOWN_ERROR;
+}
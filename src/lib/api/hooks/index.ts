@@ -0,0 +1,42 @@
+/**
+ * React Query hooks for vm-service
+ *
+ * Pages should read and mutate vm-service data through these hooks rather than
+ * calling vmService directly, so requests are cached, deduplicated, cancelled
+ * on unmount and invalidated after dispenses and refunds.
+ *
+ * @module lib/api/hooks
+ */
+
+export { vmQueryKeys } from './keys';
+export {
+  springsQueryOptions,
+  orderQueryOptions,
+  connectionStatusQueryOptions,
+  swishPaymentQueryOptions,
+  cardPaymentQueryOptions,
+  useSprings,
+  useOrder,
+  useConnectionStatus,
+  useSwishPayment,
+  useCardPayment,
+  type QueryCredentials,
+} from './queries';
+export {
+  useValidatePrePayment,
+  useCreateOrder,
+  useCancelOrder,
+  useCreateRazorpayOrder,
+  useCreateSwishPayment,
+  useCreateCardPayment,
+  useVerifyPayment,
+  useCompleteTestPayment,
+  useInitiateDispense,
+  useDispenseProduct,
+  useUpdateDispenseStatus,
+  useCompleteDispense,
+  useCreateRefund,
+  useProcessRefund,
+  useRequestSpringData,
+} from './mutations';
+export { useRealtimeChannel, applyRealtimeEvent } from './realtime';
@@ -0,0 +1,31 @@
+/**
+ * Query keys for vm-service data
+ *
+ * All keys start with `vmQueryKeys.all`, so `invalidateQueries({ queryKey: vmQueryKeys.all })`
+ * drops every cached vm-service response (e.g. after switching stores).
+ *
+ * @module lib/api/hooks/keys
+ */
+
+export const vmQueryKeys = {
+  all: ['vm-service'] as const,
+
+  springs: () => [...vmQueryKeys.all, 'springs'] as const,
+  springsForStore: (storeId: string) => [...vmQueryKeys.springs(), storeId] as const,
+  springsByStore: (storeId: string, limit = 100, offset = 0) =>
+    [...vmQueryKeys.springsForStore(storeId), { limit, offset }] as const,
+
+  orders: () => [...vmQueryKeys.all, 'orders'] as const,
+  order: (orderId: string) => [...vmQueryKeys.orders(), orderId] as const,
+
+  swishPayments: () => [...vmQueryKeys.all, 'swish-payments'] as const,
+  swishPayment: (paymentId: string) => [...vmQueryKeys.swishPayments(), paymentId] as const,
+
+  cardPayments: () => [...vmQueryKeys.all, 'card-payments'] as const,
+  cardPayment: (paymentId: string) => [...vmQueryKeys.cardPayments(), paymentId] as const,
+
+  connectionStatusForStore: (storeId: string) =>
+    [...vmQueryKeys.all, 'connection-status', storeId] as const,
+  connectionStatus: (storeId: string, vmId: string) =>
+    [...vmQueryKeys.connectionStatusForStore(storeId), vmId] as const,
+};
@@ -0,0 +1,275 @@
+/**
+ * React Query hooks for vm-service mutations
+ *
+ * Each hook wraps one vmService call and keeps the query cache in sync:
+ * - verified / fetched orders are written into the order query
+ * - dispense and refund calls invalidate the order, and dispenses also the
+ *   springs list, since inventory changed
+ *
+ * Idempotency keys are added by vmService itself, so calling `mutateAsync`
+ * twice for the same operation is safe.
+ *
+ * @module lib/api/hooks/mutations
+ */
+
+'use client';
+
+import { useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import {
+  createOrder,
+  cancelOrder,
+  validatePrePayment,
+  createRazorpayOrder,
+  createSwishPayment,
+  createCardPayment,
+  completeTestPayment,
+  verifyPayment,
+  initiateDispense,
+  dispenseProduct,
+  updateDispenseStatus,
+  completeDispense,
+  createRefund,
+  processRefund,
+  requestSpringData,
+  type CancelOrderRequest,
+  type CreateOrderRequest,
+  type CreateSwishPaymentRequest,
+  type CreateCardPaymentRequest,
+  type DispenseRequest,
+  type RefundRequest,
+  type RequestOptions,
+  type VerifyPaymentRequest,
+} from '../vmService';
+import { vmQueryKeys } from './keys';
+
+/**
+ * Mark an order (and optionally the product list) as outdated after a dispense or refund
+ */
+function invalidateAfterDispense(queryClient: QueryClient, orderId: string, includeSprings = true) {
+  queryClient.invalidateQueries({ queryKey: vmQueryKeys.order(orderId) });
+  if (includeSprings) {
+    queryClient.invalidateQueries({ queryKey: vmQueryKeys.springs() });
+  }
+}
+
+/**
+ * Validate products and VM connection before payment
+ */
+export function useValidatePrePayment() {
+  return useMutation({
+    mutationFn: (request: CreateOrderRequest) => validatePrePayment(request),
+  });
+}
+
+/**
+ * Create an order; the new order is cached under its id
+ */
+export function useCreateOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: CreateOrderRequest) => createOrder(request),
+    onSuccess: (response) => {
+      queryClient.setQueryData(vmQueryKeys.order(response.data.id), response.data);
+    },
+  });
+}
+
+/**
+ * Create the Razorpay order for an existing order
+ */
+export function useCreateRazorpayOrder() {
+  return useMutation({
+    mutationFn: (orderId: string) => createRazorpayOrder(orderId),
+  });
+}
+
+/**
+ * Create a Swish payment request for an existing order; the request is cached under its id
+ */
+export function useCreateSwishPayment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ orderId, request }: { orderId: string; request?: CreateSwishPaymentRequest }) =>
+      createSwishPayment(orderId, request),
+    onSuccess: (response) => {
+      queryClient.setQueryData(vmQueryKeys.swishPayment(response.data.id), response);
+    },
+  });
+}
+
+/**
+ * Create a card payment for an existing order; the payment is cached under its id
+ */
+export function useCreateCardPayment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ orderId, request }: { orderId: string; request?: CreateCardPaymentRequest }) =>
+      createCardPayment(orderId, request),
+    onSuccess: (response) => {
+      queryClient.setQueryData(vmQueryKeys.cardPayment(response.data.id), response);
+    },
+  });
+}
+
+/**
+ * Verify a completed Razorpay payment; the verified order replaces the cached one
+ */
+export function useVerifyPayment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: VerifyPaymentRequest) => verifyPayment(request),
+    onSuccess: (response) => {
+      queryClient.setQueryData(vmQueryKeys.order(response.data.id), response.data);
+    },
+  });
+}
+
+/**
+ * Settle an order with a test payment; the settled order replaces the cached one
+ */
+export function useCompleteTestPayment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (orderId: string) => completeTestPayment(orderId),
+    onSuccess: (response) => {
+      queryClient.setQueryData(vmQueryKeys.order(response.data.id), response.data);
+    },
+  });
+}
+
+/**
+ * Cancel an unpaid order (abandoned or timed-out payment)
+ */
+export function useCancelOrder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ orderId, request }: { orderId: string; request: CancelOrderRequest }) =>
+      cancelOrder(orderId, request),
+    onSuccess: (response) => {
+      queryClient.setQueryData(vmQueryKeys.order(response.data.id), response.data);
+    },
+  });
+}
+
+/**
+ * Mark an order ready for dispensing
+ */
+export function useInitiateDispense() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (orderId: string) => initiateDispense(orderId),
+    onSuccess: (_response, orderId) => invalidateAfterDispense(queryClient, orderId, false),
+  });
+}
+
+/**
+ * Send a dispense command to a VM
+ */
+export function useDispenseProduct() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      storeId,
+      vmId,
+      request,
+      options,
+    }: {
+      storeId: string;
+      vmId: string;
+      request: DispenseRequest;
+      options?: RequestOptions;
+    }) => dispenseProduct(storeId, vmId, request, undefined, undefined, options),
+    onSettled: () => {
+      // Inventory may have changed even if the response was lost
+      queryClient.invalidateQueries({ queryKey: vmQueryKeys.springs() });
+    },
+  });
+}
+
+/**
+ * Record the dispense result of one order item
+ */
+export function useUpdateDispenseStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      orderId,
+      itemId,
+      status,
+      error,
+      metadata,
+    }: {
+      orderId: string;
+      itemId: string;
+      status: 'success' | 'failed';
+      error?: string;
+      metadata?: Record<string, unknown>;
+    }) => updateDispenseStatus(orderId, itemId, status, error, undefined, undefined, undefined, metadata),
+    onSuccess: (_response, { orderId }) => invalidateAfterDispense(queryClient, orderId, false),
+  });
+}
+
+/**
+ * Finalize an order after all items were attempted
+ */
+export function useCompleteDispense() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (orderId: string) => completeDispense(orderId),
+    onSuccess: (response, orderId) => {
+      queryClient.setQueryData(vmQueryKeys.order(orderId), response.data);
+      queryClient.invalidateQueries({ queryKey: vmQueryKeys.springs() });
+    },
+  });
+}
+
+/**
+ * Create a refund for an order
+ */
+export function useCreateRefund() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ orderId, request }: { orderId: string; request: RefundRequest }) =>
+      createRefund(orderId, request),
+    onSuccess: (_response, { orderId }) => invalidateAfterDispense(queryClient, orderId, false),
+  });
+}
+
+/**
+ * Process a refund via the payment gateway
+ */
+export function useProcessRefund() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (refundId: string) => processRefund(refundId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: vmQueryKeys.orders() });
+    },
+  });
+}
+
+/**
+ * Ask a VM to report fresh spring data; the product list is refetched afterwards
+ */
+export function useRequestSpringData() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ storeId, vmId }: { storeId: string; vmId: string }) => requestSpringData(storeId, vmId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: vmQueryKeys.springs() });
+    },
+  });
+}
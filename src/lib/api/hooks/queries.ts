@@ -0,0 +1,199 @@
+/**
+ * React Query hooks for reading vm-service data
+ *
+ * Query functions forward React Query's AbortSignal, so unmounting a component
+ * or superseding a query cancels the underlying request. Retries are left to
+ * the shared HTTP client (see Providers), which already backs off and refreshes
+ * tokens.
+ *
+ * @module lib/api/hooks/queries
+ */
+
+'use client';
+
+import { queryOptions, useQuery } from '@tanstack/react-query';
+import { QUERY, VM, PAYMENT } from '@/config/constants';
+import { getSpringsByStoreId, getOrder, getConnectionStatus, getSwishPayment, getCardPayment } from '../vmService';
+import { isSwishPaymentFinal } from '@/lib/payment/swish';
+import { isCardPaymentFinal } from '@/lib/payment/card';
+import { vmQueryKeys } from './keys';
+
+/**
+ * Optional credential overrides (e.g. from URL parameters)
+ */
+export interface QueryCredentials {
+  clientId?: string;
+  clientSecret?: string;
+}
+
+/**
+ * Query options for the springs (products) of a store
+ */
+export function springsQueryOptions(
+  storeId: string,
+  { clientId, clientSecret, limit = 100, offset = 0 }: QueryCredentials & { limit?: number; offset?: number } = {}
+) {
+  return queryOptions({
+    queryKey: vmQueryKeys.springsByStore(storeId, limit, offset),
+    queryFn: ({ signal }) => getSpringsByStoreId(storeId, limit, offset, clientId, clientSecret, { signal }),
+    staleTime: QUERY.STALE_TIME,
+  });
+}
+
+/**
+ * Query options for a single order
+ */
+export function orderQueryOptions(orderId: string) {
+  return queryOptions({
+    queryKey: vmQueryKeys.order(orderId),
+    queryFn: ({ signal }) => getOrder(orderId, undefined, undefined, { signal }),
+    // Payment and dispense state change server-side; always revalidate
+    staleTime: 0,
+  });
+}
+
+/**
+ * Query options for the connection status of a VM
+ */
+export function connectionStatusQueryOptions(storeId: string, vmId: string) {
+  return queryOptions({
+    queryKey: vmQueryKeys.connectionStatus(storeId, vmId),
+    queryFn: ({ signal }) =>
+      getConnectionStatus(storeId, vmId, undefined, undefined, {
+        signal,
+        timeout: VM.CONNECTION_TIMEOUT,
+      }),
+    staleTime: 0,
+  });
+}
+
+/**
+ * Query options for a Swish payment request
+ */
+export function swishPaymentQueryOptions(paymentId: string) {
+  return queryOptions({
+    queryKey: vmQueryKeys.swishPayment(paymentId),
+    queryFn: ({ signal }) => getSwishPayment(paymentId, undefined, undefined, { signal }),
+    // The payer answers in another app; always revalidate
+    staleTime: 0,
+  });
+}
+
+/**
+ * Query options for a card payment
+ */
+export function cardPaymentQueryOptions(paymentId: string) {
+  return queryOptions({
+    queryKey: vmQueryKeys.cardPayment(paymentId),
+    queryFn: ({ signal }) => getCardPayment(paymentId, undefined, undefined, { signal }),
+    // Confirmed by the card gateway behind vm-service; always revalidate
+    staleTime: 0,
+  });
+}
+
+/**
+ * Springs (products) for a store, refetched in the background so inventory stays current
+ *
+ * @param storeId - Store ID (query is disabled while empty)
+ * @param options - Credential overrides, pagination, `enabled` and poll interval
+ *   (default: QUERY.SPRINGS_REFETCH_INTERVAL, 0 to disable, e.g. while realtime is live)
+ *
+ * @example
+ * ```tsx
+ * const { data, isLoading, error } = useSprings(storeId);
+ * ```
+ */
+export function useSprings(
+  storeId: string,
+  options: QueryCredentials & { limit?: number; offset?: number; enabled?: boolean; pollInterval?: number } = {}
+) {
+  const { enabled = true, pollInterval = QUERY.SPRINGS_REFETCH_INTERVAL, ...springsOptions } = options;
+
+  return useQuery({
+    ...springsQueryOptions(storeId, springsOptions),
+    enabled: enabled && !!storeId,
+    refetchInterval: pollInterval > 0 ? pollInterval : false,
+    refetchOnWindowFocus: true,
+  });
+}
+
+/**
+ * A single order
+ *
+ * @param orderId - Order ID (query is disabled while empty)
+ * @param options - `enabled` and an optional polling interval
+ */
+export function useOrder(
+  orderId: string | null | undefined,
+  options: { enabled?: boolean; refetchInterval?: number | false } = {}
+) {
+  const { enabled = true, refetchInterval = false } = options;
+
+  return useQuery({
+    ...orderQueryOptions(orderId || ''),
+    enabled: enabled && !!orderId,
+    refetchInterval,
+  });
+}
+
+/**
+ * VM connection status, polled every `pollInterval` and rechecked when the page regains focus
+ *
+ * @param storeId - Store ID
+ * @param vmId - VM ID
+ * @param options - `enabled` and poll interval (default: VM.STATUS_CHECK_INTERVAL, 0 to disable)
+ */
+export function useConnectionStatus(
+  storeId: string,
+  vmId: string,
+  options: { enabled?: boolean; pollInterval?: number } = {}
+) {
+  const { enabled = true, pollInterval = VM.STATUS_CHECK_INTERVAL } = options;
+
+  return useQuery({
+    ...connectionStatusQueryOptions(storeId, vmId),
+    enabled: enabled && !!storeId && !!vmId,
+    refetchInterval: pollInterval > 0 ? pollInterval : false,
+    refetchOnWindowFocus: true,
+  });
+}
+
+/**
+ * A Swish payment request, polled until the payer has answered
+ *
+ * @param paymentId - Swish payment ID (query is disabled while empty)
+ * @param options - `enabled` and poll interval (default: PAYMENT.SWISH.POLL_INTERVAL)
+ */
+export function useSwishPayment(
+  paymentId: string | null | undefined,
+  options: { enabled?: boolean; pollInterval?: number } = {}
+) {
+  const { enabled = true, pollInterval = PAYMENT.SWISH.POLL_INTERVAL } = options;
+
+  return useQuery({
+    ...swishPaymentQueryOptions(paymentId || ''),
+    enabled: enabled && !!paymentId,
+    refetchInterval: (query) => (isSwishPaymentFinal(query.state.data?.data.status) ? false : pollInterval),
+    // Payers come back from the Swish app, so check right away
+    refetchOnWindowFocus: true,
+  });
+}
+
+/**
+ * A card payment, polled until it succeeded or was cancelled
+ *
+ * @param paymentId - Card payment ID (query is disabled while empty)
+ * @param options - `enabled` and poll interval (default: PAYMENT.CARD.POLL_INTERVAL)
+ */
+export function useCardPayment(
+  paymentId: string | null | undefined,
+  options: { enabled?: boolean; pollInterval?: number } = {}
+) {
+  const { enabled = true, pollInterval = PAYMENT.CARD.POLL_INTERVAL } = options;
+
+  return useQuery({
+    ...cardPaymentQueryOptions(paymentId || ''),
+    enabled: enabled && !!paymentId,
+    refetchInterval: (query) => (isCardPaymentFinal(query.state.data?.data.status) ? false : pollInterval),
+  });
+}
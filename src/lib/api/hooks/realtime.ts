@@ -0,0 +1,127 @@
+/**
+ * React Query integration for the realtime channel
+ *
+ * Events from the realtime channel are written straight into the query cache,
+ * so every component reading connection status, springs or orders updates live.
+ * While the channel is open callers can stop polling; when it becomes
+ * unavailable they should fall back to their regular refetch intervals.
+ *
+ * @module lib/api/hooks/realtime
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useQueryClient, type QueryClient } from '@tanstack/react-query';
+import {
+  isRealtimeEnabled,
+  subscribeToRealtime,
+  type RealtimeEvent,
+  type RealtimeState,
+  type RealtimeTransport,
+} from '../realtime';
+import type { ConnectionStatusResponse, SpringsResponse } from '../vmService';
+import { vmQueryKeys } from './keys';
+
+/**
+ * Apply a realtime event to the query cache
+ */
+export function applyRealtimeEvent(queryClient: QueryClient, event: RealtimeEvent): void {
+  switch (event.type) {
+    case 'vm.connection':
+      queryClient.setQueryData<ConnectionStatusResponse>(
+        vmQueryKeys.connectionStatus(event.store_id, event.vm_id),
+        (previous) => ({
+          ...previous,
+          connected: event.connected,
+          vm_id: event.vm_id,
+          store_id: event.store_id,
+          last_seen: event.last_seen ?? previous?.last_seen,
+        })
+      );
+      break;
+
+    case 'spring.inventory':
+      queryClient.setQueriesData<SpringsResponse>(
+        { queryKey: vmQueryKeys.springsForStore(event.store_id) },
+        (previous) =>
+          previous && {
+            ...previous,
+            data: (previous.data || []).map((spring) =>
+              spring.id === event.spring_id
+                ? {
+                    ...spring,
+                    inventory: event.inventory,
+                    spring_status: event.spring_status ?? spring.spring_status,
+                  }
+                : spring
+            ),
+          }
+      );
+      break;
+
+    case 'dispense.status':
+      queryClient.invalidateQueries({ queryKey: vmQueryKeys.order(event.order_id) });
+      break;
+
+    case 'payment.status':
+      queryClient.invalidateQueries({ queryKey: vmQueryKeys.order(event.order_id) });
+      if (event.payment_method === 'swish' && event.payment_id) {
+        queryClient.invalidateQueries({ queryKey: vmQueryKeys.swishPayment(event.payment_id) });
+      }
+      if (event.payment_method === 'card' && event.payment_id) {
+        queryClient.invalidateQueries({ queryKey: vmQueryKeys.cardPayment(event.payment_id) });
+      }
+      break;
+  }
+}
+
+/**
+ * Keep the query cache for a store in sync with the realtime channel
+ *
+ * @param storeId - Store ID (channel stays closed while empty)
+ * @param options - `enabled` (defaults to true; realtime must also be configured)
+ * @returns Channel state; `isLive` is true while events are flowing
+ *
+ * @example
+ * ```tsx
+ * const { isLive } = useRealtimeChannel(storeId);
+ * const springs = useSprings(storeId, { pollInterval: isLive ? 0 : undefined });
+ * ```
+ */
+export function useRealtimeChannel(storeId: string | null | undefined, options: { enabled?: boolean } = {}) {
+  const queryClient = useQueryClient();
+  const enabled = (options.enabled ?? true) && !!storeId && isRealtimeEnabled();
+
+  const [state, setState] = useState<RealtimeState>('closed');
+  const [transport, setTransport] = useState<RealtimeTransport | null>(null);
+  const previousStateRef = useRef<RealtimeState>('closed');
+
+  useEffect(() => {
+    if (!enabled || !storeId) {
+      setState('closed');
+      setTransport(null);
+      return;
+    }
+
+    return subscribeToRealtime(storeId, {
+      onEvent: (event) => applyRealtimeEvent(queryClient, event),
+      onStateChange: (nextState, nextTransport) => {
+        // Events may have been missed while the channel was down; resync once
+        if (nextState === 'open' && previousStateRef.current === 'unavailable') {
+          queryClient.invalidateQueries({ queryKey: vmQueryKeys.springsForStore(storeId) });
+          queryClient.invalidateQueries({ queryKey: vmQueryKeys.connectionStatusForStore(storeId) });
+        }
+        previousStateRef.current = nextState;
+        setState(nextState);
+        setTransport(nextTransport);
+      },
+    });
+  }, [enabled, storeId, queryClient]);
+
+  return {
+    state,
+    transport,
+    isLive: state === 'open',
+  };
+}
@@ -0,0 +1,381 @@
+/**
+ * Shared HTTP client for vm-service communication
+ *
+ * Every vm-service endpoint goes through `apiRequest`, which adds:
+ * - Bearer token authentication
+ * - One transparent token refresh when vm-service answers 401
+ * - Per-call timeouts (defaults to API.TIMEOUT)
+ * - Retry with exponential backoff for retryable failures (API.RETRY_ATTEMPTS / API.RETRY_DELAY)
+ * - AbortSignal support for callers that need to cancel in-flight requests
+ * - Runtime validation of request bodies and responses against zod schemas
+ * - Idempotency-Key header for mutating calls (the same key is sent on every retry)
+ * - Consistent error mapping to the typed errors in ./errors
+ *
+ * @module lib/api/httpClient
+ */
+
+import { getCurrentAccessToken, invalidateAccessToken } from './auth';
+import type { z } from 'zod';
+import { API, IDEMPOTENCY } from '@/config/constants';
+import { formatSchemaIssues } from './schemas';
+import {
+  VmServiceError,
+  NetworkError,
+  TimeoutError,
+  RequestCancelledError,
+  AuthError,
+  ValidationError,
+  mapHttpError,
+  type ErrorDomain,
+} from './errors';
+
+// API Configuration from environment variables
+const VM_SERVICE_URL = process.env.NEXT_PUBLIC_VM_SERVICE_URL || '';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Error body returned by vm-service
+ */
+export interface ApiError {
+  code?: string | number;
+  error: string;
+  message?: string;
+}
+
+/**
+ * Per-call options accepted by every vmService function
+ */
+export interface RequestOptions {
+  /** Cancel the request (and any pending retries) */
+  signal?: AbortSignal;
+  /** Timeout per attempt in milliseconds (default: API.TIMEOUT) */
+  timeout?: number;
+  /** Number of retries after the first attempt (default: API.RETRY_ATTEMPTS for retryable calls) */
+  retries?: number;
+  /** Base delay between retries in milliseconds, doubled on each attempt (default: API.RETRY_DELAY) */
+  retryDelay?: number;
+  /** Sent as the IDEMPOTENCY.HEADER header so vm-service can deduplicate repeated mutations */
+  idempotencyKey?: string;
+}
+
+/**
+ * Full request description used internally by vmService
+ */
+export interface ApiRequestConfig<T = unknown> extends RequestOptions {
+  method: HttpMethod;
+  /** Path relative to the vm-service base URL, e.g. `/api/v1/orders` */
+  path: string;
+  /** JSON body (serialized automatically) */
+  body?: unknown;
+  /** Extra headers merged over the defaults */
+  headers?: Record<string, string>;
+  /** Schema the body must satisfy before it is sent */
+  requestSchema?: z.ZodTypeAny;
+  /** Schema the parsed response must satisfy */
+  responseSchema?: z.ZodType<T, z.ZodTypeDef, unknown>;
+  /** What the endpoint does; decides which error class generic HTTP failures map to */
+  domain?: ErrorDomain;
+  /**
+   * Whether the call may be repeated safely.
+   * Defaults to true for GET, false for everything else.
+   */
+  retryable?: boolean;
+  clientId?: string;
+  clientSecret?: string;
+}
+
+/**
+ * Get API base URL
+ */
+export function getApiBaseUrl(): string {
+  if (!VM_SERVICE_URL) {
+    throw new Error('VM_SERVICE_URL is not configured');
+  }
+  return VM_SERVICE_URL.replace(/\/$/, ''); // Remove trailing slash
+}
+
+/**
+ * Get API headers with Bearer token authentication
+ *
+ * Token flow:
+ * 1. Get access token using client_id and client_secret (from env vars or params)
+ * 2. Token is included in Authorization header as: "Bearer <access_token>"
+ *
+ * @param clientId - Optional client ID for authentication (overrides env vars if provided)
+ * @param clientSecret - Optional client secret for authentication (overrides env vars if provided)
+ * @returns Headers with Authorization: Bearer <token> included, and the token itself
+ */
+async function getHeaders(
+  clientId?: string,
+  clientSecret?: string
+): Promise<{ headers: Record<string, string>; accessToken: string }> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'Accept': 'application/json',
+  };
+
+  let accessToken: string;
+  try {
+    // Get access token first (from cache if valid, or fetch new one)
+    // If credentials not provided, will use env vars automatically
+    accessToken = (await getCurrentAccessToken(clientId, clientSecret))?.trim();
+
+    if (!accessToken) {
+      throw new Error('Access token is empty or invalid');
+    }
+
+    // Add Bearer token to Authorization header (required by vm-service)
+    // Format: "Bearer <token>" - vm-service expects exactly this format
+    headers['Authorization'] = `Bearer ${accessToken}`;
+  } catch (error) {
+    console.error('Failed to get access token:', error);
+    if (error instanceof VmServiceError) {
+      throw error;
+    }
+    throw new AuthError(
+      error instanceof Error
+        ? error.message
+        : 'Authentication failed. Please check your environment variables (NEXT_PUBLIC_VM_SERVICE_CLIENT_ID and NEXT_PUBLIC_VM_SERVICE_CLIENT_SECRET).',
+      { cause: error }
+    );
+  }
+
+  return { headers, accessToken };
+}
+
+/**
+ * Handle API response and errors
+ */
+async function handleResponse<T>(response: Response, url: string, domain?: ErrorDomain): Promise<T> {
+  const responseText = await response.text();
+
+  if (!response.ok) {
+    let errorMessage = `API request failed with status ${response.status}`;
+    let code: ApiError['code'];
+    try {
+      const errorData: ApiError = JSON.parse(responseText);
+      errorMessage = errorData.error || errorData.message || errorMessage;
+      // Only codes of the documented shape are passed on
+      if (typeof errorData.code === 'string' || typeof errorData.code === 'number') code = errorData.code;
+      console.error('API Error Response:', {
+        status: response.status,
+        statusText: response.statusText,
+        error: errorData.error,
+        message: errorData.message,
+        code: errorData.code,
+      });
+    } catch {
+      // If JSON parsing fails, use default error message
+      console.error('API Error (non-JSON):', responseText);
+      if (responseText) {
+        errorMessage = `${errorMessage}: ${responseText}`;
+      }
+    }
+
+    if (response.status === 401) {
+      errorMessage = `Unauthorized (401): ${errorMessage}`;
+    }
+
+    throw mapHttpError(response.status, errorMessage, { code, url, domain });
+  }
+
+  // Parse successful response
+  try {
+    return JSON.parse(responseText) as T;
+  } catch (parseError) {
+    console.error('Failed to parse API response:', responseText);
+    throw new ValidationError('Invalid response format from server', 'response', {
+      status: response.status,
+      url,
+      cause: parseError,
+    });
+  }
+}
+
+/**
+ * Validate a payload against a schema, throwing a descriptive validation error
+ */
+function validatePayload<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  data: unknown,
+  source: 'request' | 'response',
+  context: string,
+  url: string
+): T {
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return result.data;
+  }
+
+  const details = formatSchemaIssues(result.error);
+  console.error(`${context} failed schema validation:`, details, data);
+  throw new ValidationError(`${context} does not match the expected format (${details})`, source, {
+    url,
+    issues: result.error.issues,
+  });
+}
+
+/**
+ * Wait for the given delay, rejecting early if the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestCancelledError());
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    function onAbort() {
+      clearTimeout(timer);
+      reject(new RequestCancelledError());
+    }
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Perform a single fetch attempt with its own timeout
+ */
+async function fetchOnce<T>(
+  url: string,
+  init: RequestInit,
+  timeout: number,
+  signal?: AbortSignal,
+  domain?: ErrorDomain
+): Promise<T> {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeout);
+
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal: controller.signal });
+    } catch (error) {
+      if (timedOut) {
+        throw new TimeoutError(`Request timed out after ${timeout}ms`, { url, cause: error });
+      }
+      if (signal?.aborted) {
+        throw new RequestCancelledError(undefined, { url, cause: error });
+      }
+      throw new NetworkError(undefined, { url, cause: error });
+    }
+
+    return await handleResponse<T>(response, url, domain);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Send a request to vm-service
+ *
+ * Retries are only attempted when the request is retryable (GET by default,
+ * or explicitly flagged by the caller) and the failure itself is retryable.
+ * Each retry waits `retryDelay * 2^attempt` milliseconds.
+ *
+ * A 401 response invalidates the cached token and the request is sent once
+ * more with a fresh one; this does not count towards the retry budget.
+ *
+ * @param config - Request configuration
+ * @returns Parsed JSON response
+ */
+export async function apiRequest<T>(config: ApiRequestConfig<T>): Promise<T> {
+  const {
+    method,
+    path,
+    body,
+    signal,
+    timeout = API.TIMEOUT,
+    retryDelay = API.RETRY_DELAY,
+    clientId,
+    clientSecret,
+    requestSchema,
+    responseSchema,
+    domain,
+    idempotencyKey,
+  } = config;
+  const retryable = config.retryable ?? method === 'GET';
+  const maxRetries = retryable ? config.retries ?? API.RETRY_ATTEMPTS : 0;
+  const url = `${getApiBaseUrl()}${path}`;
+
+  // Never send a body the backend would reject anyway
+  if (requestSchema && body !== undefined) {
+    validatePayload(requestSchema, body, 'request', `Request body for ${method} ${path}`, url);
+  }
+
+  let attempt = 0;
+  let refreshedToken = false;
+
+  for (;;) {
+    if (signal?.aborted) {
+      throw new RequestCancelledError(undefined, { url });
+    }
+
+    // Headers are rebuilt per attempt so a refreshed token is picked up
+    const { headers: authHeaders, accessToken } = await getHeaders(clientId, clientSecret);
+    const headers = {
+      ...authHeaders,
+      ...(idempotencyKey ? { [IDEMPOTENCY.HEADER]: idempotencyKey } : {}),
+      ...config.headers,
+    };
+
+    try {
+      const data = await fetchOnce<unknown>(
+        url,
+        {
+          method,
+          headers,
+          body: body === undefined ? undefined : JSON.stringify(body),
+        },
+        timeout,
+        signal,
+        domain
+      );
+
+      return responseSchema
+        ? validatePayload(responseSchema, data, 'response', `Response from ${method} ${path}`, url)
+        : (data as T);
+    } catch (error) {
+      if (
+        !refreshedToken &&
+        error instanceof AuthError &&
+        error.status === 401
+      ) {
+        console.warn(`${method} ${path} returned 401, refreshing token and retrying once`);
+        refreshedToken = true;
+        invalidateAccessToken(clientId, clientSecret, accessToken);
+        continue;
+      }
+
+      const canRetry =
+        attempt < maxRetries &&
+        error instanceof VmServiceError &&
+        error.isRetryable;
+
+      if (!canRetry) {
+        throw error;
+      }
+
+      const delay = retryDelay * 2 ** attempt;
+      console.warn(`${method} ${path} failed (${(error as Error).message}), retrying in ${delay}ms (attempt ${attempt + 1}/${maxRetries})`);
+      await sleep(delay, signal);
+      attempt++;
+    }
+  }
+}
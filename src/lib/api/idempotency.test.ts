@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { IDEMPOTENCY } from '@/config/constants';
+import {
+  bindIdempotencyKey,
+  getIdempotencyKey,
+  idempotencyScopes,
+  releaseIdempotencyKey,
+  releaseIdempotencyKeysFor,
+} from './idempotency';
+import type { CreateOrderRequest } from './vmService';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// Keys live in memory here (no localStorage in node), so every test uses its own scopes
+
+describe('getIdempotencyKey', () => {
+  it('reuses the key of a scope until it is released', () => {
+    const key = getIdempotencyKey('test:reuse');
+
+    expect(getIdempotencyKey('test:reuse')).toBe(key);
+    expect(getIdempotencyKey('test:other')).not.toBe(key);
+
+    releaseIdempotencyKey('test:reuse');
+    expect(getIdempotencyKey('test:reuse')).not.toBe(key);
+  });
+
+  it('forgets keys older than the TTL', () => {
+    vi.useFakeTimers();
+    const key = getIdempotencyKey('test:ttl');
+
+    vi.advanceTimersByTime(IDEMPOTENCY.KEY_TTL - 1);
+    expect(getIdempotencyKey('test:ttl')).toBe(key);
+
+    vi.advanceTimersByTime(1);
+    expect(getIdempotencyKey('test:ttl')).not.toBe(key);
+  });
+});
+
+describe('releaseIdempotencyKeysFor', () => {
+  it('releases only the keys bound to the resource', () => {
+    const orderKey = getIdempotencyKey('test:order-a');
+    const otherKey = getIdempotencyKey('test:order-b');
+    bindIdempotencyKey('test:order-a', 'order-a');
+    bindIdempotencyKey('test:order-b', 'order-b');
+
+    releaseIdempotencyKeysFor('order-a');
+
+    expect(getIdempotencyKey('test:order-a')).not.toBe(orderKey);
+    expect(getIdempotencyKey('test:order-b')).toBe(otherKey);
+  });
+
+  it('does not bind a scope that has no key', () => {
+    bindIdempotencyKey('test:never-used', 'order-c');
+
+    const key = getIdempotencyKey('test:never-used');
+    releaseIdempotencyKeysFor('order-c');
+
+    expect(getIdempotencyKey('test:never-used')).toBe(key);
+  });
+});
+
+describe('idempotencyScopes', () => {
+  const request: CreateOrderRequest = {
+    store_id: 'store-1',
+    vm_id: 'vm-1',
+    items: [
+      { spring_id: 'cola', selection_number: '11', quantity: 2, unit_price: 25, tax_rate: 12 },
+      { spring_id: 'chips', selection_number: '12', quantity: 1, unit_price: 19, tax_rate: 12, deposit_amount: 1 },
+    ],
+  };
+
+  it('gives the same checkout the same order scope, whatever the line order', () => {
+    const reordered = { ...request, items: [...request.items].reverse() };
+
+    expect(idempotencyScopes.createOrder(reordered)).toBe(idempotencyScopes.createOrder(request));
+  });
+
+  it('gives a different order scope to other quantities or another discount code', () => {
+    const scope = idempotencyScopes.createOrder(request);
+    const moreCola = { ...request, items: [{ ...request.items[0], quantity: 3 }, request.items[1]] };
+
+    expect(idempotencyScopes.createOrder(moreCola)).not.toBe(scope);
+    expect(idempotencyScopes.createOrder({ ...request, metadata: { coupon_code: 'WELCOME10' } })).not.toBe(scope);
+  });
+
+  it('keeps the first dispense attempt of a unit on its original scope', () => {
+    expect(idempotencyScopes.dispenseUnit('order-1', 'item-1', 0)).toBe('dispense:order-1:item-1:0');
+    expect(idempotencyScopes.dispenseUnit('order-1', 'item-1', 0, 1)).toBe('dispense:order-1:item-1:0:1');
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Idempotency keys for mutating vm-service calls
+ *
+ * Every call that creates or changes something (orders, dispenses, refunds)
+ * carries a client-generated key in the IDEMPOTENCY.HEADER header, so vm-service
+ * can recognise a repeated request (double tap, network retry, page reload) and
+ * return the original result instead of acting twice.
+ *
+ * Keys are derived from a scope describing the operation (order id, item id,
+ * unit index, ...). The first call for a scope generates a random key; later
+ * calls for the same scope reuse it. Keys are persisted in localStorage so they
+ * survive reloads, and pruned after IDEMPOTENCY.KEY_TTL. A key whose call
+ * created something (an order) can be bound to it and released once that is
+ * settled.
+ *
+ * @module lib/api/idempotency
+ */
+
+import { IDEMPOTENCY } from '@/config/constants';
+import type { CreateOrderRequest } from './vmService';
+
+interface StoredIdempotencyKey {
+  key: string;
+  createdAt: number;
+  /** ID of what the call created (see bindIdempotencyKey) */
+  resourceId?: string;
+}
+
+type IdempotencyKeyStore = Record<string, StoredIdempotencyKey>;
+
+// In-memory copy, used as-is when localStorage is unavailable (SSR, private mode)
+let memoryKeys: IdempotencyKeyStore = {};
+
+/**
+ * Generate a new random key
+ */
+function generateKey(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  // Fallback for older browsers
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Read persisted keys, dropping expired ones
+ */
+function readKeys(): IdempotencyKeyStore {
+  let keys = memoryKeys;
+
+  if (typeof window !== 'undefined') {
+    try {
+      const raw = localStorage.getItem(IDEMPOTENCY.STORAGE_KEY);
+      if (raw) {
+        keys = JSON.parse(raw) as IdempotencyKeyStore;
+      }
+    } catch (error) {
+      console.warn('Failed to read idempotency keys from storage:', error);
+    }
+  }
+
+  const now = Date.now();
+  const fresh: IdempotencyKeyStore = {};
+  for (const [scope, entry] of Object.entries(keys)) {
+    if (entry && typeof entry.key === 'string' && now - entry.createdAt < IDEMPOTENCY.KEY_TTL) {
+      fresh[scope] = entry;
+    }
+  }
+  return fresh;
+}
+
+/**
+ * Persist keys
+ */
+function writeKeys(keys: IdempotencyKeyStore): void {
+  memoryKeys = keys;
+
+  if (typeof window === 'undefined') return;
+  try {
+    localStorage.setItem(IDEMPOTENCY.STORAGE_KEY, JSON.stringify(keys));
+  } catch (error) {
+    console.warn('Failed to persist idempotency keys:', error);
+  }
+}
+
+/**
+ * Get the idempotency key for an operation, creating it on first use
+ *
+ * @param scope - Stable description of the operation (see idempotencyScopes)
+ * @returns The key to send in the IDEMPOTENCY.HEADER header
+ */
+export function getIdempotencyKey(scope: string): string {
+  const keys = readKeys();
+  const existing = keys[scope];
+  if (existing) {
+    return existing.key;
+  }
+
+  const key = generateKey();
+  writeKeys({ ...keys, [scope]: { key, createdAt: Date.now() } });
+  return key;
+}
+
+/**
+ * Forget the key for an operation so the next call for the same scope gets a new one
+ *
+ * Use this once an operation has definitely completed and repeating it later is
+ * a new, intentional action (e.g. buying the same cart again).
+ */
+export function releaseIdempotencyKey(scope: string): void {
+  const keys = readKeys();
+  if (!(scope in keys)) return;
+
+  delete keys[scope];
+  writeKeys(keys);
+}
+
+/**
+ * Record what an operation created, so its key can be released once that is settled
+ *
+ * Until then a repeated call for the scope (double tap, reload) gets the
+ * created resource back instead of making another one.
+ */
+export function bindIdempotencyKey(scope: string, resourceId: string): void {
+  const keys = readKeys();
+  if (!(scope in keys)) return;
+
+  writeKeys({ ...keys, [scope]: { ...keys[scope], resourceId } });
+}
+
+/**
+ * Forget the keys bound to a resource (e.g. an order that was paid or cancelled)
+ */
+export function releaseIdempotencyKeysFor(resourceId: string): void {
+  const keys = readKeys();
+  const remaining = Object.fromEntries(Object.entries(keys).filter(([, entry]) => entry.resourceId !== resourceId));
+  if (Object.keys(remaining).length === Object.keys(keys).length) return;
+
+  writeKeys(remaining);
+}
+
+/**
+ * Scopes for the mutating vm-service calls
+ */
+export const idempotencyScopes = {
+  /** Same store, VM and items means the same checkout attempt */
+  createOrder: (request: CreateOrderRequest) => {
+    const items = request.items
+      .map((item) => `${item.spring_id}:${item.selection_number}:${item.quantity}:${item.unit_price}:${item.deposit_amount ?? 0}`)
+      .sort()
+      .join(',');
+    // A different discount code prices the order differently
+    const coupon = request.metadata?.coupon_code ?? '';
+    return `order:${request.store_id}:${request.vm_id}:${items}:${coupon}`;
+  },
+  cancelOrder: (orderId: string) => `order-cancel:${orderId}`,
+  createRazorpayOrder: (orderId: string) => `razorpay-order:${orderId}`,
+  createSwishPayment: (orderId: string) => `swish-payment:${orderId}`,
+  createCardPayment: (orderId: string) => `card-payment:${orderId}`,
+  initiateDispense: (orderId: string) => `dispense-initiate:${orderId}`,
+  /**
+   * One key per physical unit: order item plus the index of the unit within that item.
+   * `attempt` is bumped only after vm-service refused the unit, so a retry is not deduplicated.
+   */
+  dispenseUnit: (orderId: string, itemId: string, unitIndex: number, attempt = 0) =>
+    attempt > 0 ? `dispense:${orderId}:${itemId}:${unitIndex}:${attempt}` : `dispense:${orderId}:${itemId}:${unitIndex}`,
+  completeDispense: (orderId: string) => `dispense-complete:${orderId}`,
+  createRefund: (orderId: string) => `refund:${orderId}`,
+  processRefund: (refundId: string) => `refund-process:${refundId}`,
+} as const;
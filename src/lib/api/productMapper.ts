@@ -1,8 +1,9 @@
 /**
  * Mapper to convert Spring data from vm-service to Product format
  */
-import { Spring } from './vmService';
+import { Spring, LinkedProduct } from './vmService';
 import { Product } from '../types';
+import { fromMajor } from '../money';
 
 /**
  * Convert Spring to Product
@@ -14,25 +15,19 @@ export function springToProduct(spring: Spring): Product | null {
     return null;
   }
 
-  // Parse linked_product
-  let productData: any = {};
-  try {
-    productData = typeof spring.linked_product === 'string'
-      ? JSON.parse(spring.linked_product)
-      : spring.linked_product;
-  } catch (e) {
-    console.warn('Failed to parse linked_product:', e);
-    return null; // Return null if parsing fails
-  }
+  // linked_product is parsed (from a JSON string if needed) and validated by the API client
+  const productData: LinkedProduct = spring.linked_product;
 
   // Use linked_product.title for product name (fallback to name or title)
   const name = productData.title || productData.name || `Product ${spring.selection_number}`;
-  const price = productData.price || 0;
+  // vm-service prices are in major units of the store currency
+  const price = fromMajor(productData.price || 0);
   const image = productData.image || productData.image_url || '/placeholder.svg';
   const category = productData.category || 'General';
   const isAgeRestricted = productData.is_age_restricted || productData.isAgeRestricted || false;
   const taxRate = productData.tax_rate || productData.taxRate || 0;
-  const depositAmount = productData.deposit_amount || productData.depositAmount;
+  const deposit = productData.deposit_amount || productData.depositAmount;
+  const depositAmount = deposit ? fromMajor(deposit) : undefined;
 
   return {
     id: spring.id,
@@ -0,0 +1,283 @@
+/**
+ * Realtime channel for vm-service events
+ *
+ * Receives VM connection, spring inventory and dispense events for a store.
+ * A WebSocket is tried first; if it cannot be opened the channel falls back to
+ * Server-Sent Events. When neither transport is available the channel reports
+ * `unavailable` and keeps reconnecting with exponential backoff, so callers can
+ * resume polling in the meantime.
+ *
+ * One channel is opened per store and shared by all subscribers; it closes when
+ * the last subscriber leaves.
+ *
+ * Realtime is enabled by setting NEXT_PUBLIC_VM_REALTIME_URL
+ * (see scripts/realtime-server.js for a local stand-in).
+ *
+ * @module lib/api/realtime
+ */
+
+import type { z } from 'zod';
+import { API, FEATURES, REALTIME } from '@/config/constants';
+import { getCurrentAccessToken } from './auth';
+import { realtimeEventSchema } from './schemas';
+
+const REALTIME_URL = process.env.NEXT_PUBLIC_VM_REALTIME_URL || '';
+
+export type RealtimeEvent = z.infer<typeof realtimeEventSchema>;
+export type RealtimeState = 'connecting' | 'open' | 'unavailable' | 'closed';
+export type RealtimeTransport = 'websocket' | 'sse';
+
+/**
+ * Callbacks registered by a subscriber
+ */
+export interface RealtimeSubscriber {
+  onEvent?: (event: RealtimeEvent) => void;
+  onStateChange?: (state: RealtimeState, transport: RealtimeTransport | null) => void;
+}
+
+interface Channel {
+  storeId: string;
+  state: RealtimeState;
+  transport: RealtimeTransport | null;
+  subscribers: Set<RealtimeSubscriber>;
+  socket: WebSocket | null;
+  source: EventSource | null;
+  attempt: number;
+  connectTimer: ReturnType<typeof setTimeout> | null;
+  reconnectTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const channels = new Map<string, Channel>();
+
+/**
+ * Whether a realtime endpoint is configured
+ */
+export function isRealtimeEnabled(): boolean {
+  return FEATURES.ENABLE_REALTIME_VM_STATUS && !!REALTIME_URL;
+}
+
+/**
+ * Build the URL for a transport; the token goes in the query string because
+ * neither WebSocket nor EventSource can send an Authorization header
+ */
+function buildUrl(storeId: string, transport: RealtimeTransport, accessToken: string): string {
+  const base = REALTIME_URL.replace(/\/$/, '');
+  const path = transport === 'websocket' ? API.ENDPOINTS.EVENTS_WS(storeId) : API.ENDPOINTS.EVENTS(storeId);
+  const url = `${base}${path}?access_token=${encodeURIComponent(accessToken)}`;
+
+  return transport === 'websocket' ? url.replace(/^http/, 'ws') : url;
+}
+
+function setState(channel: Channel, state: RealtimeState, transport: RealtimeTransport | null): void {
+  if (channel.state === state && channel.transport === transport) return;
+
+  channel.state = state;
+  channel.transport = transport;
+  channel.subscribers.forEach((subscriber) => subscriber.onStateChange?.(state, transport));
+}
+
+/**
+ * Parse and dispatch an incoming message
+ */
+function handleMessage(channel: Channel, raw: unknown): void {
+  if (typeof raw !== 'string') return;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    console.warn('[realtime] Ignoring non-JSON message:', raw);
+    return;
+  }
+
+  const result = realtimeEventSchema.safeParse(data);
+  if (!result.success) {
+    // Unknown event types (heartbeats, newer backend events) are ignored
+    console.debug('[realtime] Ignoring unrecognised event:', data);
+    return;
+  }
+
+  channel.subscribers.forEach((subscriber) => subscriber.onEvent?.(result.data));
+}
+
+/**
+ * Tear down the current transport without notifying subscribers
+ */
+function closeTransport(channel: Channel): void {
+  if (channel.connectTimer) {
+    clearTimeout(channel.connectTimer);
+    channel.connectTimer = null;
+  }
+  if (channel.socket) {
+    const socket = channel.socket;
+    channel.socket = null;
+    socket.onopen = socket.onmessage = socket.onerror = socket.onclose = null;
+    socket.close();
+  }
+  if (channel.source) {
+    channel.source.close();
+    channel.source = null;
+  }
+}
+
+function scheduleReconnect(channel: Channel): void {
+  closeTransport(channel);
+  if (channel.subscribers.size === 0) return;
+
+  setState(channel, 'unavailable', null);
+
+  const delay = Math.min(REALTIME.RECONNECT_DELAY * 2 ** channel.attempt, REALTIME.MAX_RECONNECT_DELAY);
+  channel.attempt++;
+  console.warn(`[realtime] Channel for store ${channel.storeId} unavailable, reconnecting in ${delay}ms`);
+
+  channel.reconnectTimer = setTimeout(() => {
+    channel.reconnectTimer = null;
+    connect(channel);
+  }, delay);
+}
+
+function markOpen(channel: Channel, transport: RealtimeTransport): void {
+  if (channel.connectTimer) {
+    clearTimeout(channel.connectTimer);
+    channel.connectTimer = null;
+  }
+  channel.attempt = 0;
+  console.log(`[realtime] Connected to store ${channel.storeId} via ${transport}`);
+  setState(channel, 'open', transport);
+}
+
+/**
+ * Open the SSE transport (fallback)
+ */
+function connectSse(channel: Channel, accessToken: string): void {
+  if (typeof EventSource === 'undefined') {
+    scheduleReconnect(channel);
+    return;
+  }
+
+  const source = new EventSource(buildUrl(channel.storeId, 'sse', accessToken));
+  channel.source = source;
+
+  channel.connectTimer = setTimeout(() => scheduleReconnect(channel), REALTIME.CONNECT_TIMEOUT);
+
+  source.onopen = () => markOpen(channel, 'sse');
+  source.onmessage = (message) => handleMessage(channel, message.data);
+  // EventSource retries on its own without a way to refresh the token; take over instead
+  source.onerror = () => scheduleReconnect(channel);
+}
+
+/**
+ * Open the WebSocket transport, falling back to SSE if it never opens
+ */
+function connectWebSocket(channel: Channel, accessToken: string): void {
+  if (typeof WebSocket === 'undefined') {
+    connectSse(channel, accessToken);
+    return;
+  }
+
+  let opened = false;
+  const fallback = () => {
+    closeTransport(channel);
+    console.warn('[realtime] WebSocket unavailable, falling back to SSE');
+    connectSse(channel, accessToken);
+  };
+
+  const socket = new WebSocket(buildUrl(channel.storeId, 'websocket', accessToken));
+  channel.socket = socket;
+
+  channel.connectTimer = setTimeout(fallback, REALTIME.CONNECT_TIMEOUT);
+
+  socket.onopen = () => {
+    opened = true;
+    markOpen(channel, 'websocket');
+  };
+  socket.onmessage = (message) => handleMessage(channel, message.data);
+  socket.onerror = () => {
+    // onclose follows and decides what to do
+  };
+  socket.onclose = () => {
+    if (opened) {
+      scheduleReconnect(channel);
+    } else {
+      fallback();
+    }
+  };
+}
+
+async function connect(channel: Channel): Promise<void> {
+  setState(channel, 'connecting', null);
+
+  let accessToken: string;
+  try {
+    accessToken = await getCurrentAccessToken();
+  } catch (error) {
+    console.error('[realtime] Failed to get access token:', error);
+    scheduleReconnect(channel);
+    return;
+  }
+
+  // Everyone unsubscribed while we were waiting for the token
+  if (channel.subscribers.size === 0) return;
+
+  connectWebSocket(channel, accessToken);
+}
+
+/**
+ * Subscribe to realtime events for a store
+ *
+ * @param storeId - Store ID
+ * @param subscriber - Event and state callbacks
+ * @returns Function that removes the subscription
+ *
+ * @example
+ * const unsubscribe = subscribeToRealtime(storeId, {
+ *   onEvent: (event) => console.log(event.type),
+ *   onStateChange: (state) => setLive(state === 'open'),
+ * });
+ */
+export function subscribeToRealtime(storeId: string, subscriber: RealtimeSubscriber): () => void {
+  let channel = channels.get(storeId);
+  if (!channel) {
+    channel = {
+      storeId,
+      state: 'closed',
+      transport: null,
+      subscribers: new Set(),
+      socket: null,
+      source: null,
+      attempt: 0,
+      connectTimer: null,
+      reconnectTimer: null,
+    };
+    channels.set(storeId, channel);
+  }
+
+  channel.subscribers.add(subscriber);
+  subscriber.onStateChange?.(channel.state, channel.transport);
+
+  if (channel.state === 'closed') {
+    connect(channel);
+  }
+
+  const current = channel;
+  return () => {
+    current.subscribers.delete(subscriber);
+    if (current.subscribers.size > 0) return;
+
+    if (current.reconnectTimer) {
+      clearTimeout(current.reconnectTimer);
+      current.reconnectTimer = null;
+    }
+    closeTransport(current);
+    current.state = 'closed';
+    current.transport = null;
+    channels.delete(storeId);
+  };
+}
+
+/**
+ * Current state of the channel for a store
+ */
+export function getRealtimeState(storeId: string): RealtimeState {
+  return channels.get(storeId)?.state ?? 'closed';
+}
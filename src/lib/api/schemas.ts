@@ -0,0 +1,439 @@
+/**
+ * Runtime schemas for vm-service requests and responses
+ *
+ * Every payload sent to or received from vm-service is validated against these
+ * schemas in the HTTP client, so contract drift surfaces as a clear validation
+ * error at the API boundary instead of undefined fields deep inside a page.
+ *
+ * Response objects use `.passthrough()` so additive backend changes (new fields)
+ * keep working; only missing or mistyped fields we rely on are rejected.
+ *
+ * @module lib/api/schemas
+ */
+
+import { z } from 'zod';
+
+/**
+ * Optional field that the backend may send as null or omit entirely
+ */
+const optionalString = z.string().nullish();
+const optionalNumber = z.number().nullish();
+
+// ============================================
+// Springs & Products
+// ============================================
+
+/**
+ * Product linked to a spring
+ * Accepts both snake_case and camelCase keys since both have been seen in the wild.
+ */
+export const linkedProductSchema = z
+  .object({
+    id: z.union([z.string(), z.number()]).nullish(),
+    title: optionalString,
+    name: optionalString,
+    price: optionalNumber,
+    image: optionalString,
+    image_url: optionalString,
+    category: optionalString,
+    is_age_restricted: z.boolean().nullish(),
+    isAgeRestricted: z.boolean().nullish(),
+    tax_rate: optionalNumber,
+    taxRate: optionalNumber,
+    deposit_amount: optionalNumber,
+    depositAmount: optionalNumber,
+  })
+  .passthrough();
+
+/**
+ * linked_product arrives either as an object or as a JSON-encoded string
+ */
+const linkedProductFieldSchema = z.preprocess((value) => {
+  if (typeof value !== 'string') return value;
+  if (value.trim() === '') return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value; // Let the object schema report the bad value
+  }
+}, linkedProductSchema.nullable());
+
+export const springSchema = z
+  .object({
+    id: z.string(),
+    vm_id: z.string(),
+    project_id: z.string(),
+    store_id: z.string(),
+    selection_number: z.string(),
+    capacity: z.number(),
+    inventory: z.number(),
+    linked_product: linkedProductFieldSchema.optional(),
+    spring_status: optionalString,
+    stripe_code: z.string(),
+    last_update: optionalNumber,
+    created_at: z.string(),
+    updated_at: z.string(),
+  })
+  .passthrough();
+
+export const springsResponseSchema = z
+  .object({
+    data: z.array(springSchema).nullish(),
+  })
+  .passthrough();
+
+// ============================================
+// VM commands
+// ============================================
+
+export const dispenseRequestSchema = z.object({
+  selection_number: z.number().int().positive(),
+  spring_id: z.string().optional(), // Optional: if provided, VM ID will be obtained from spring
+  products: z.array(z.record(z.any())).optional(),
+  metadata: z.record(z.any()).optional(),
+});
+
+export const successResponseSchema = z
+  .object({
+    success: z.boolean(),
+    message: z.string().nullish(),
+  })
+  .passthrough();
+
+export const dispenseResponseSchema = successResponseSchema;
+
+export const connectionStatusResponseSchema = z
+  .object({
+    connected: z.boolean(),
+    vm_id: z.string(),
+    store_id: z.string(),
+    last_seen: optionalString,
+  })
+  .passthrough();
+
+// ============================================
+// Orders
+// ============================================
+
+export const orderItemSchema = z.object({
+  spring_id: z.string().min(1),
+  selection_number: z.string().min(1),
+  quantity: z.number().int().positive(),
+  unit_price: z.number().nonnegative(),
+  tax_rate: z.number().nonnegative(),
+  /** Deposit (pant) per unit, charged on top of unit_price */
+  deposit_amount: z.number().nonnegative().optional(),
+});
+
+export const createOrderRequestSchema = z.object({
+  store_id: z.string().min(1),
+  vm_id: z.string().min(1),
+  customer_email: z.string().email().optional(),
+  customer_phone: z.string().optional(),
+  items: z.array(orderItemSchema).min(1, 'Order must contain at least one item'),
+  /** Cash rounding of the total (see lib/tax), added to total_amount */
+  rounding_amount: z.number().optional(),
+  /** payment_method, tax_region and the applied promotions (coupon_code, discounts) */
+  metadata: z.record(z.any()).optional(),
+});
+
+/**
+ * Order item as stored by vm-service (returned inside Order.items)
+ */
+export const backendOrderItemSchema = z
+  .object({
+    id: z.string(),
+    order_id: optionalString,
+    spring_id: z.string(),
+    selection_number: z.string(),
+    product_name: optionalString,
+    quantity: z.number().int(),
+    unit_price: z.number(),
+    total_price: optionalNumber,
+    tax_rate: z.number(),
+    dispense_status: optionalString,
+    dispense_error: optionalString,
+  })
+  .passthrough();
+
+export const orderSchema = z
+  .object({
+    id: z.string(),
+    order_number: z.string(),
+    project_id: z.string(),
+    store_id: z.string(),
+    vm_id: z.string(),
+    total_amount: z.number(),
+    currency: z.string(),
+    payment_method: optionalString,
+    payment_status: z.string(),
+    order_status: z.string(),
+    razorpay_order_id: optionalString,
+    razorpay_payment_id: optionalString,
+    payment_verified: z.boolean(),
+    dispense_status: z.string(),
+    items: z.array(backendOrderItemSchema).nullish(),
+    created_at: z.string(),
+    updated_at: z.string(),
+  })
+  .passthrough();
+
+export const orderResponseSchema = z
+  .object({
+    data: orderSchema,
+  })
+  .passthrough();
+
+export const createOrderResponseSchema = successResponseSchema.extend({
+  data: orderSchema,
+});
+
+export const completeDispenseResponseSchema = createOrderResponseSchema;
+
+/**
+ * Cancel an unpaid order (abandoned or timed-out payment). vm-service refuses
+ * with 409 once the order is paid.
+ */
+export const cancelOrderRequestSchema = z.object({
+  reason: z.string().min(1),
+});
+
+export const cancelOrderResponseSchema = createOrderResponseSchema;
+
+export const dispenseStatusUpdateSchema = z.object({
+  status: z.enum(['success', 'failed']),
+  error: z.string().optional(),
+  metadata: z.record(z.any()).optional(),
+});
+
+// ============================================
+// Payments
+// ============================================
+
+export const razorpayOrderResponseSchema = successResponseSchema.extend({
+  razorpay_order_id: z.string(),
+  /** In minor units (paise); order totals and prices are in major units */
+  amount: z.number(),
+  currency: z.string(),
+  order_number: z.string(),
+});
+
+export const verifyPaymentRequestSchema = z.object({
+  razorpay_order_id: z.string().min(1),
+  razorpay_payment_id: z.string().min(1),
+  razorpay_signature: z.string().min(1),
+});
+
+export const verifyPaymentResponseSchema = successResponseSchema.extend({
+  data: orderSchema,
+});
+
+export const createSwishPaymentRequestSchema = z.object({
+  /** Payer's Swish number; omit to let the payer open the request in the Swish app (m-commerce) */
+  payer_alias: z.string().regex(/^\d{8,15}$/).optional(),
+  /** Where the Swish app returns to after the payer approved or declined */
+  callback_url: z.string().url().optional(),
+});
+
+/**
+ * Swish payment request as tracked by vm-service
+ *
+ * status follows Swish: CREATED until the payer answers, then PAID, DECLINED,
+ * ERROR or CANCELLED. vm-service marks the order paid once the request is PAID.
+ */
+export const swishPaymentSchema = z
+  .object({
+    id: z.string(),
+    order_id: z.string(),
+    status: z.string(),
+    payment_request_token: optionalString,
+    payment_reference: optionalString,
+    /** QR code for the Swish app as an image URL (data: URL or https) */
+    qr_code: optionalString,
+    /** In minor units (öre) */
+    amount: optionalNumber,
+    currency: optionalString,
+    error_code: optionalString,
+    error_message: optionalString,
+    expires_at: optionalString,
+  })
+  .passthrough();
+
+export const swishPaymentResponseSchema = successResponseSchema.extend({
+  data: swishPaymentSchema,
+});
+
+export const createCardPaymentRequestSchema = z.object({
+  /** Page the payer returns to after a 3-D Secure challenge that needed a redirect */
+  return_url: z.string().url().optional(),
+});
+
+/**
+ * Card payment as tracked by vm-service (a Stripe PaymentIntent)
+ *
+ * status follows Stripe: requires_payment_method until a card is entered (and
+ * again after a declined attempt), requires_action during 3-D Secure,
+ * processing, then succeeded or canceled. vm-service marks the order paid once
+ * the payment succeeded.
+ */
+export const cardPaymentSchema = z
+  .object({
+    id: z.string(),
+    order_id: z.string(),
+    status: z.string(),
+    /** Secret the hosted card element confirms the payment with */
+    client_secret: optionalString,
+    payment_reference: optionalString,
+    /** In minor units, as Stripe reports it */
+    amount: optionalNumber,
+    currency: optionalString,
+    error_code: optionalString,
+    error_message: optionalString,
+  })
+  .passthrough();
+
+export const cardPaymentResponseSchema = successResponseSchema.extend({
+  data: cardPaymentSchema,
+});
+
+/**
+ * Order settled without a payment gateway (test payment provider; vm-service
+ * accepts test payments only in test environments)
+ */
+export const completeTestPaymentResponseSchema = successResponseSchema.extend({
+  data: orderSchema,
+});
+
+// ============================================
+// Refunds
+// ============================================
+
+export const refundFailedItemSchema = z.object({
+  product_name: z.string(),
+  selection_number: z.string(),
+  quantity: z.number().int().positive(),
+  unit_price: z.number().nonnegative(),
+  total_price: z.number().nonnegative(),
+  reason: z.string(),
+});
+
+export const refundRequestSchema = z.object({
+  refund_amount: z.number().nonnegative(),
+  refund_reason: z.string(),
+  refund_type: z.enum(['full', 'partial', 'failed_dispense', 'customer_request']),
+  failed_items: z.array(refundFailedItemSchema).optional(),
+});
+
+export const refundSchema = z
+  .object({
+    id: z.string(),
+    refund_number: z.string(),
+    order_id: optionalString,
+    refund_amount: optionalNumber,
+    status: optionalString,
+  })
+  .passthrough();
+
+export const createRefundResponseSchema = successResponseSchema.extend({
+  data: refundSchema,
+});
+
+// ============================================
+// Pre-payment validation
+// ============================================
+
+export const productValidationItemSchema = z
+  .object({
+    spring_id: z.string(),
+    selection_number: z.string(),
+    product_name: z.string(),
+    requested_qty: z.number(),
+    available_qty: z.number(),
+    spring_status: z.string(),
+    is_available: z.boolean(),
+    is_purchasable: z.boolean(),
+    error_message: optionalString,
+  })
+  .passthrough();
+
+export const prePaymentValidationResultSchema = z
+  .object({
+    valid: z.boolean(),
+    vm_connected: z.boolean(),
+    message: optionalString,
+    errors: z.array(z.string()).nullish(),
+    product_validation: z.array(productValidationItemSchema).nullish(),
+  })
+  .passthrough();
+
+export const prePaymentValidationResponseSchema = successResponseSchema.extend({
+  data: prePaymentValidationResultSchema,
+});
+
+// ============================================
+// Realtime events
+// ============================================
+
+export const vmConnectionEventSchema = z
+  .object({
+    type: z.literal('vm.connection'),
+    store_id: z.string(),
+    vm_id: z.string(),
+    connected: z.boolean(),
+    last_seen: optionalString,
+  })
+  .passthrough();
+
+export const springInventoryEventSchema = z
+  .object({
+    type: z.literal('spring.inventory'),
+    store_id: z.string(),
+    vm_id: optionalString,
+    spring_id: z.string(),
+    inventory: z.number(),
+    spring_status: optionalString,
+  })
+  .passthrough();
+
+export const dispenseEventSchema = z
+  .object({
+    type: z.literal('dispense.status'),
+    store_id: optionalString,
+    order_id: z.string(),
+    item_id: optionalString,
+    status: z.string(),
+    error: optionalString,
+  })
+  .passthrough();
+
+export const paymentEventSchema = z
+  .object({
+    type: z.literal('payment.status'),
+    store_id: optionalString,
+    order_id: z.string(),
+    payment_id: optionalString,
+    payment_method: optionalString,
+    status: z.string(),
+  })
+  .passthrough();
+
+export const realtimeEventSchema = z.discriminatedUnion('type', [
+  vmConnectionEventSchema,
+  springInventoryEventSchema,
+  dispenseEventSchema,
+  paymentEventSchema,
+]);
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Format zod issues as a single readable line, e.g.
+ * `data.items.0.id: Required; data.total_amount: Expected number, received string`
+ */
+export function formatSchemaIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+    .join('; ');
+}
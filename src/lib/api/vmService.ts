@@ -2,27 +2,17 @@
  * Centralized API service for vm-service communication
  */
 
-import { getCurrentAccessToken } from './auth';
-
-// API Configuration from environment variables
-const VM_SERVICE_URL = process.env.NEXT_PUBLIC_VM_SERVICE_URL || '';
-
-// API Response Types
-export interface Spring {
-  id: string;
-  vm_id: string;
-  project_id: string;
-  store_id: string;
-  selection_number: string;
-  capacity: number;
-  inventory: number;
-  linked_product: any | null;
-  spring_status?: string;
-  stripe_code: string;
-  last_update?: number;
-  created_at: string;
-  updated_at: string;
-}
+import type { z } from 'zod';
+import { apiRequest, type RequestOptions } from './httpClient';
+import { getIdempotencyKey, bindIdempotencyKey, releaseIdempotencyKeysFor, idempotencyScopes } from './idempotency';
+import * as schemas from './schemas';
+
+export type { ApiError, RequestOptions } from './httpClient';
+
+// API Types
+// Derived from the runtime schemas in ./schemas so types and validation never drift apart
+export type LinkedProduct = z.infer<typeof schemas.linkedProductSchema>;
+export type Spring = z.infer<typeof schemas.springSchema>;
 
 export interface SpringsResponse {
   data: Spring[];
@@ -31,239 +21,41 @@ export interface SpringsResponse {
   offset?: number;
 }
 
-export interface DispenseRequest {
-  selection_number: number;
-  spring_id?: string; // Optional: if provided, VM ID will be obtained from spring
-  products?: any[];
-  metadata?: Record<string, any>;
-}
-
-export interface DispenseResponse {
-  success: boolean;
-  message: string;
-}
-
-export interface ConnectionStatusResponse {
-  connected: boolean;
-  vm_id: string;
-  store_id: string;
-  last_seen?: string;
-}
-
-export interface ApiError {
-  code: any;
-  error: string;
-  message?: string;
-}
+export type DispenseRequest = z.infer<typeof schemas.dispenseRequestSchema>;
+export type DispenseResponse = z.infer<typeof schemas.dispenseResponseSchema>;
+export type ConnectionStatusResponse = z.infer<typeof schemas.connectionStatusResponseSchema>;
 
 // Order and Payment Types
-export interface OrderItem {
-  spring_id: string;
-  selection_number: string;
-  quantity: number;
-  unit_price: number;
-  tax_rate: number;
-}
-
-export interface CreateOrderRequest {
-  store_id: string;
-  vm_id: string;
-  customer_email?: string;
-  customer_phone?: string;
-  items: OrderItem[];
-  metadata?: Record<string, any>;
-}
-
-export interface Order {
-  id: string;
-  order_number: string;
-  project_id: string;
-  store_id: string;
-  vm_id: string;
-  total_amount: number;
-  currency: string;
-  payment_method?: string;
-  payment_status: string;
-  order_status: string;
-  razorpay_order_id?: string;
-  razorpay_payment_id?: string;
-  payment_verified: boolean;
-  dispense_status: string;
-  items?: any[];
-  created_at: string;
-  updated_at: string;
-}
-
-export interface CreateOrderResponse {
-  success: boolean;
-  message: string;
-  data: Order;
-}
-
-export interface RazorpayOrderResponse {
-  success: boolean;
-  message: string;
-  razorpay_order_id: string;
-  amount: number;
-  currency: string;
-  order_number: string;
-}
-
-export interface VerifyPaymentRequest {
-  razorpay_order_id: string;
-  razorpay_payment_id: string;
-  razorpay_signature: string;
-}
-
-export interface VerifyPaymentResponse {
-  success: boolean;
-  message: string;
-  data: Order;
-}
-
-export interface RefundRequest {
-  refund_amount: number;
-  refund_reason: string;
-  refund_type: 'full' | 'partial' | 'failed_dispense' | 'customer_request';
-  failed_items?: Array<{
-    product_name: string;
-    selection_number: string;
-    quantity: number;
-    unit_price: number;
-    total_price: number;
-    reason: string;
-  }>;
-}
-
-export interface ProductValidationItem {
-  spring_id: string;
-  selection_number: string;
-  product_name: string;
-  requested_qty: number;
-  available_qty: number;
-  spring_status: string;
-  is_available: boolean;
-  is_purchasable: boolean;
-  error_message?: string;
-}
-
-export interface PrePaymentValidationResult {
-  valid: boolean;
-  vm_connected: boolean;
-  message?: string;
-  errors?: string[];
-  product_validation?: ProductValidationItem[];
-}
-
-export interface PrePaymentValidationResponse {
-  success: boolean;
-  message: string;
-  data: PrePaymentValidationResult;
-}
-
-/**
- * Get API base URL
- */
-function getApiBaseUrl(): string {
-  if (!VM_SERVICE_URL) {
-    throw new Error('VM_SERVICE_URL is not configured');
-  }
-  return VM_SERVICE_URL.replace(/\/$/, ''); // Remove trailing slash
-}
-
-/**
- * Get API headers with Bearer token authentication
- * 
- * IMPORTANT: This function ensures all REST API calls include the Bearer token in the Authorization header.
- * The token is obtained first (or retrieved from cache if valid), then included in the request.
- * 
- * Token flow:
- * 1. Get access token using client_id and client_secret (from env vars or params)
- * 2. Token is stored in localStorage and automatically refreshed when expired
- * 3. Token is included in Authorization header as: "Bearer <access_token>"
- * 
- * @param clientId - Optional client ID for authentication (overrides env vars if provided)
- * @param clientSecret - Optional client secret for authentication (overrides env vars if provided)
- * @returns Headers with Authorization: Bearer <token> included
- */
-async function getHeaders(
-  clientId?: string,
-  clientSecret?: string
-): Promise<HeadersInit> {
-  const headers: HeadersInit = {
-    'Content-Type': 'application/json',
-    'Accept': 'application/json',
-  };
-
-  try {
-    // Get access token first (from cache if valid, or fetch new one)
-    // If credentials not provided, will use env vars automatically
-    const accessToken = await getCurrentAccessToken(clientId, clientSecret);
-    
-    if (!accessToken || accessToken.trim().length === 0) {
-      throw new Error('Access token is empty or invalid');
-    }
-    
-    // Add Bearer token to Authorization header (required by vm-service)
-    // Format: "Bearer <token>" - vm-service expects exactly this format
-    const bearerToken = `Bearer ${accessToken.trim()}`;
-    headers['Authorization'] = bearerToken;
-    
-    // Log token info for debugging (without exposing full token)
-    console.log('Using Bearer token:', bearerToken.substring(0, 20) + '...');
-  } catch (error) {
-    console.error('Failed to get access token:', error);
-    if (error instanceof Error) {
-      throw error;
-    }
-    throw new Error('Authentication failed. Please check your environment variables (NEXT_PUBLIC_VM_SERVICE_CLIENT_ID and NEXT_PUBLIC_VM_SERVICE_CLIENT_SECRET).');
-  }
-
-  return headers;
-}
-
-/**
- * Handle API response and errors
- */
-async function handleResponse<T>(response: Response): Promise<T> {
-  const responseText = await response.text();
-  
-  if (!response.ok) {
-    let errorMessage = `API request failed with status ${response.status}`;
-    try {
-      const errorData: ApiError = JSON.parse(responseText);
-      errorMessage = errorData.error || errorData.message || errorMessage;
-      console.error('API Error Response:', {
-        status: response.status,
-        statusText: response.statusText,
-        error: errorData.error,
-        message: errorData.message,
-        code: errorData.code,
-      });
-    } catch {
-      // If JSON parsing fails, use default error message
-      console.error('API Error (non-JSON):', responseText);
-      errorMessage = `${errorMessage}: ${responseText}`;
-    }
-    throw new Error(errorMessage);
-  }
-
-  // Parse successful response
-  try {
-    return JSON.parse(responseText) as T;
-  } catch (parseError) {
-    console.error('Failed to parse API response:', responseText);
-    throw new Error('Invalid response format from server');
-  }
-}
+export type OrderItem = z.infer<typeof schemas.orderItemSchema>;
+export type CreateOrderRequest = z.infer<typeof schemas.createOrderRequestSchema>;
+export type BackendOrderItem = z.infer<typeof schemas.backendOrderItemSchema>;
+export type Order = z.infer<typeof schemas.orderSchema>;
+export type CreateOrderResponse = z.infer<typeof schemas.createOrderResponseSchema>;
+export type RazorpayOrderResponse = z.infer<typeof schemas.razorpayOrderResponseSchema>;
+export type VerifyPaymentRequest = z.infer<typeof schemas.verifyPaymentRequestSchema>;
+export type VerifyPaymentResponse = z.infer<typeof schemas.verifyPaymentResponseSchema>;
+export type CreateSwishPaymentRequest = z.infer<typeof schemas.createSwishPaymentRequestSchema>;
+export type SwishPayment = z.infer<typeof schemas.swishPaymentSchema>;
+export type SwishPaymentResponse = z.infer<typeof schemas.swishPaymentResponseSchema>;
+export type CreateCardPaymentRequest = z.infer<typeof schemas.createCardPaymentRequestSchema>;
+export type CardPayment = z.infer<typeof schemas.cardPaymentSchema>;
+export type CardPaymentResponse = z.infer<typeof schemas.cardPaymentResponseSchema>;
+export type CompleteTestPaymentResponse = z.infer<typeof schemas.completeTestPaymentResponseSchema>;
+export type RefundRequest = z.infer<typeof schemas.refundRequestSchema>;
+export type Refund = z.infer<typeof schemas.refundSchema>;
+export type CreateRefundResponse = z.infer<typeof schemas.createRefundResponseSchema>;
+export type ProductValidationItem = z.infer<typeof schemas.productValidationItemSchema>;
+export type PrePaymentValidationResult = z.infer<typeof schemas.prePaymentValidationResultSchema>;
+export type PrePaymentValidationResponse = z.infer<typeof schemas.prePaymentValidationResponseSchema>;
+export type CancelOrderRequest = z.infer<typeof schemas.cancelOrderRequestSchema>;
+export type CancelOrderResponse = z.infer<typeof schemas.cancelOrderResponseSchema>;
+export type CompleteDispenseResponse = z.infer<typeof schemas.completeDispenseResponseSchema>;
+export type SuccessResponse = z.infer<typeof schemas.successResponseSchema>;
 
 /**
  * Get springs (products) by store ID
  * 
- * This function:
- * 1. Gets access token first (or uses cached valid token)
- * 2. Makes GET request to /api/v1/stores/{store_id}/springs
- * 3. Includes Bearer token in Authorization header
+ * Makes GET request to /api/v1/stores/{store_id}/springs with Bearer token in Authorization header.
  * 
  * Project ID is automatically extracted from the access token by vm-service
  * Credentials are taken from environment variables (NEXT_PUBLIC_VM_SERVICE_CLIENT_ID and NEXT_PUBLIC_VM_SERVICE_CLIENT_SECRET)
@@ -273,6 +65,7 @@ async function handleResponse<T>(response: Response): Promise<T> {
  * @param offset - Number of results to skip
  * @param clientId - Optional client ID for authentication (overrides env vars if provided)
  * @param clientSecret - Optional client secret for authentication (overrides env vars if provided)
+ * @param options - Optional request options (signal, timeout, retries)
  * @returns SpringsResponse with products data
  */
 export async function getSpringsByStoreId(
@@ -280,63 +73,35 @@ export async function getSpringsByStoreId(
   limit: number = 100,
   offset: number = 0,
   clientId?: string,
-  clientSecret?: string
+  clientSecret?: string,
+  options?: RequestOptions
 ): Promise<SpringsResponse> {
-  const baseUrl = getApiBaseUrl();
   // Project ID comes from token, not URL path
   // Note: vm-service may not support limit/offset, but we include them for compatibility
-  const url = `${baseUrl}/api/v1/stores/${storeId}/springs${limit > 0 ? `?limit=${limit}&offset=${offset}` : ''}`;
-
-  console.log('Fetching springs from:', url);
-
-  // Get headers with Bearer token included
-  const headers = await getHeaders(clientId, clientSecret);
-
-  try {
-    // Log request details for debugging
-    console.log('Making GET request to:', url);
-    console.log('Request headers:', {
-      'Content-Type': headers['Content-Type'],
-      'Authorization': headers['Authorization'] ? `${headers['Authorization'].substring(0, 20)}...` : 'missing',
-    });
-
-    const response = await fetch(url, {
-      method: 'GET',
-      headers,
-    });
-
-    console.log('Response status:', response.status, response.statusText);
-    
-    // Check for 401 specifically
-    if (response.status === 401) {
-      const responseText = await response.text();
-      console.error('401 Unauthorized response:', responseText);
-      let errorDetails: any = {};
-      try {
-        errorDetails = JSON.parse(responseText);
-      } catch {
-        // Not JSON
-      }
-      throw new Error(`Unauthorized (401): ${errorDetails.error || errorDetails.message || 'Invalid or expired token. Please check your credentials.'}`);
-    }
-
-    const result = await handleResponse<{ data: Spring[] }>(response);
-    
-    // vm-service returns {data: Spring[]}, so we normalize it to SpringsResponse
-    const springsResponse: SpringsResponse = {
-      data: result.data || [],
-      total: result.data?.length || 0,
-      limit: limit,
-      offset: offset,
-    };
-
-    console.log(`Successfully fetched ${springsResponse.data.length} springs`);
-    
-    return springsResponse;
-  } catch (error) {
-    console.error('Error fetching springs:', error);
-    throw error;
-  }
+  const path = `/api/v1/stores/${storeId}/springs${limit > 0 ? `?limit=${limit}&offset=${offset}` : ''}`;
+
+  console.log('Fetching springs from:', path);
+
+  const result = await apiRequest({
+    ...options,
+    method: 'GET',
+    path,
+    responseSchema: schemas.springsResponseSchema,
+    clientId,
+    clientSecret,
+  });
+
+  // vm-service returns {data: Spring[]}, so we normalize it to SpringsResponse
+  const springsResponse: SpringsResponse = {
+    data: result.data || [],
+    total: result.data?.length || 0,
+    limit: limit,
+    offset: offset,
+  };
+
+  console.log(`Successfully fetched ${springsResponse.data.length} springs`);
+
+  return springsResponse;
 }
 
 /**
@@ -349,25 +114,24 @@ export async function getSpringsByStoreId(
  * @param vmId - VM ID
  * @param clientId - Optional client ID for authentication (overrides env vars if provided)
  * @param clientSecret - Optional client secret for authentication (overrides env vars if provided)
+ * @param options - Optional request options (signal, timeout, retries)
  */
 export async function getConnectionStatus(
   storeId: string,
   vmId: string,
   clientId?: string,
-  clientSecret?: string
+  clientSecret?: string,
+  options?: RequestOptions
 ): Promise<ConnectionStatusResponse> {
-  const baseUrl = getApiBaseUrl();
-  const url = `${baseUrl}/api/v1/stores/${storeId}/vms/${vmId}/connectionStatus`;
-
-  // Get headers with Bearer token included
-  const headers = await getHeaders(clientId, clientSecret);
-
-  const response = await fetch(url, {
+  return apiRequest({
+    ...options,
     method: 'GET',
-    headers,
+    path: `/api/v1/stores/${storeId}/vms/${vmId}/connectionStatus`,
+    responseSchema: schemas.connectionStatusResponseSchema,
+    domain: 'vm',
+    clientId,
+    clientSecret,
   });
-
-  return handleResponse<ConnectionStatusResponse>(response);
 }
 
 /**
@@ -375,33 +139,45 @@ export async function getConnectionStatus(
  * 
  * Makes POST request with Bearer token in Authorization header.
  * Project ID is automatically extracted from the access token.
+ * Never retried automatically: repeating the command could dispense twice.
+ * When `request.metadata` carries `orderId`, `itemId` and `unitIndex`, the call is
+ * sent with a per-unit idempotency key so vm-service can drop duplicates
+ * (`metadata.attempt` selects a fresh key for a retry after a refusal).
  * 
  * @param storeId - Store ID
  * @param vmId - VM ID
  * @param request - Dispense request with selection_number and products
  * @param clientId - Optional client ID for authentication (overrides env vars if provided)
  * @param clientSecret - Optional client secret for authentication (overrides env vars if provided)
+ * @param options - Optional request options (signal, timeout, idempotencyKey)
  */
 export async function dispenseProduct(
   storeId: string,
   vmId: string,
   request: DispenseRequest,
   clientId?: string,
-  clientSecret?: string
+  clientSecret?: string,
+  options?: RequestOptions
 ): Promise<DispenseResponse> {
-  const baseUrl = getApiBaseUrl();
-  const url = `${baseUrl}/api/v1/stores/${storeId}/vms/${vmId}/dispense`;
-
-  // Get headers with Bearer token included
-  const headers = await getHeaders(clientId, clientSecret);
-
-  const response = await fetch(url, {
+  const { orderId, itemId, unitIndex, attempt } = request.metadata || {};
+  const idempotencyKey =
+    options?.idempotencyKey ??
+    (orderId && itemId && typeof unitIndex === 'number'
+      ? getIdempotencyKey(idempotencyScopes.dispenseUnit(orderId, itemId, unitIndex, attempt))
+      : undefined);
+
+  return apiRequest({
+    ...options,
     method: 'POST',
-    headers,
-    body: JSON.stringify(request),
+    idempotencyKey,
+    path: `/api/v1/stores/${storeId}/vms/${vmId}/dispense`,
+    body: request,
+    requestSchema: schemas.dispenseRequestSchema,
+    responseSchema: schemas.dispenseResponseSchema,
+    domain: 'dispense',
+    clientId,
+    clientSecret,
   });
-
-  return handleResponse<DispenseResponse>(response);
 }
 
 /**
@@ -414,25 +190,26 @@ export async function dispenseProduct(
  * @param vmId - VM ID
  * @param clientId - Optional client ID for authentication (overrides env vars if provided)
  * @param clientSecret - Optional client secret for authentication (overrides env vars if provided)
+ * @param options - Optional request options (signal, timeout, retries)
  */
 export async function requestSpringData(
   storeId: string,
   vmId: string,
   clientId?: string,
-  clientSecret?: string
-): Promise<{ success: boolean; message: string }> {
-  const baseUrl = getApiBaseUrl();
-  const url = `${baseUrl}/api/v1/stores/${storeId}/vms/${vmId}/requestSpringData`;
-
-  // Get headers with Bearer token included
-  const headers = await getHeaders(clientId, clientSecret);
-
-  const response = await fetch(url, {
+  clientSecret?: string,
+  options?: RequestOptions
+): Promise<SuccessResponse> {
+  return apiRequest({
+    ...options,
     method: 'POST',
-    headers,
+    path: `/api/v1/stores/${storeId}/vms/${vmId}/requestSpringData`,
+    responseSchema: schemas.successResponseSchema,
+    domain: 'vm',
+    // Asking for a refresh twice has no side effects
+    retryable: true,
+    clientId,
+    clientSecret,
   });
-
-  return handleResponse<{ success: boolean; message: string }>(response);
 }
 
 /**
@@ -445,27 +222,28 @@ export async function requestSpringData(
  * @param request - Order validation request with items
  * @param clientId - Optional client ID for authentication (overrides env vars if provided)
  * @param clientSecret - Optional client secret for authentication (overrides env vars if provided)
+ * @param options - Optional request options (signal, timeout, retries)
  */
 export async function validatePrePayment(
   request: CreateOrderRequest,
   clientId?: string,
-  clientSecret?: string
+  clientSecret?: string,
+  options?: RequestOptions
 ): Promise<PrePaymentValidationResponse> {
-  const baseUrl = getApiBaseUrl();
-  const url = `${baseUrl}/api/v1/orders/validate`;
-
-  console.log('Validating order before payment:', url);
-
-  // Get headers with Bearer token included
-  const headers = await getHeaders(clientId, clientSecret);
+  console.log('Validating order before payment');
 
-  const response = await fetch(url, {
+  const result = await apiRequest({
+    ...options,
     method: 'POST',
-    headers,
-    body: JSON.stringify(request),
+    path: '/api/v1/orders/validate',
+    body: request,
+    requestSchema: schemas.createOrderRequestSchema,
+    responseSchema: schemas.prePaymentValidationResponseSchema,
+    // Validation is read-only on the backend
+    retryable: true,
+    clientId,
+    clientSecret,
   });
-
-  const result = await handleResponse<PrePaymentValidationResponse>(response);
   console.log('Validation result:', result);
 
   return result;
@@ -480,28 +258,31 @@ export async function validatePrePayment(
  * @param request - Order creation request with items
  * @param clientId - Optional client ID for authentication (overrides env vars if provided)
  * @param clientSecret - Optional client secret for authentication (overrides env vars if provided)
+ * @param options - Optional request options (signal, timeout, idempotencyKey)
  */
 export async function createOrder(
   request: CreateOrderRequest,
   clientId?: string,
-  clientSecret?: string
+  clientSecret?: string,
+  options?: RequestOptions
 ): Promise<CreateOrderResponse> {
-  const baseUrl = getApiBaseUrl();
-  const url = `${baseUrl}/api/v1/orders`;
-
-  console.log('Creating order:', url);
-
-  // Get headers with Bearer token included
-  const headers = await getHeaders(clientId, clientSecret);
+  console.log('Creating order');
+  const orderScope = idempotencyScopes.createOrder(request);
 
-  const response = await fetch(url, {
+  const result = await apiRequest({
+    ...options,
     method: 'POST',
-    headers,
-    body: JSON.stringify(request),
+    idempotencyKey: options?.idempotencyKey ?? getIdempotencyKey(orderScope),
+    path: '/api/v1/orders',
+    body: request,
+    requestSchema: schemas.createOrderRequestSchema,
+    responseSchema: schemas.createOrderResponseSchema,
+    clientId,
+    clientSecret,
   });
-
-  const result = await handleResponse<CreateOrderResponse>(response);
   console.log('Order created successfully:', result.data.order_number);
+  // Repeats return this order until it is paid or cancelled; after that, the same items are a new order
+  bindIdempotencyKey(orderScope, result.data.id);
 
   return result;
 }
@@ -515,26 +296,26 @@ export async function createOrder(
  * @param orderId - Order ID
  * @param clientId - Optional client ID for authentication (overrides env vars if provided)
  * @param clientSecret - Optional client secret for authentication (overrides env vars if provided)
+ * @param options - Optional request options (signal, timeout, idempotencyKey)
  */
 export async function createRazorpayOrder(
   orderId: string,
   clientId?: string,
-  clientSecret?: string
+  clientSecret?: string,
+  options?: RequestOptions
 ): Promise<RazorpayOrderResponse> {
-  const baseUrl = getApiBaseUrl();
-  const url = `${baseUrl}/api/v1/orders/${orderId}/razorpay`;
-
-  console.log('Creating Razorpay order:', url);
-
-  // Get headers with Bearer token included
-  const headers = await getHeaders(clientId, clientSecret);
+  console.log('Creating Razorpay order for:', orderId);
 
-  const response = await fetch(url, {
+  const result = await apiRequest({
+    ...options,
     method: 'POST',
-    headers,
+    idempotencyKey: options?.idempotencyKey ?? getIdempotencyKey(idempotencyScopes.createRazorpayOrder(orderId)),
+    path: `/api/v1/orders/${orderId}/razorpay`,
+    responseSchema: schemas.razorpayOrderResponseSchema,
+    domain: 'payment',
+    clientId,
+    clientSecret,
   });
-
-  const result = await handleResponse<RazorpayOrderResponse>(response);
   console.log('Razorpay order created:', result.razorpay_order_id);
 
   return result;
@@ -549,32 +330,240 @@ export async function createRazorpayOrder(
  * @param request - Payment verification request with Razorpay response
  * @param clientId - Optional client ID for authentication (overrides env vars if provided)
  * @param clientSecret - Optional client secret for authentication (overrides env vars if provided)
+ * @param options - Optional request options (signal, timeout, retries)
  */
 export async function verifyPayment(
   request: VerifyPaymentRequest,
   clientId?: string,
-  clientSecret?: string
+  clientSecret?: string,
+  options?: RequestOptions
 ): Promise<VerifyPaymentResponse> {
-  const baseUrl = getApiBaseUrl();
-  const url = `${baseUrl}/api/v1/payments/verify`;
+  console.log('Verifying payment');
 
-  console.log('Verifying payment:', url);
+  const result = await apiRequest({
+    ...options,
+    method: 'POST',
+    path: '/api/v1/payments/verify',
+    body: request,
+    requestSchema: schemas.verifyPaymentRequestSchema,
+    responseSchema: schemas.verifyPaymentResponseSchema,
+    domain: 'payment-verification',
+    // Signature verification yields the same result for the same payment
+    retryable: true,
+    clientId,
+    clientSecret,
+  });
+  console.log('Payment verified successfully');
 
-  // Get headers with Bearer token included
-  const headers = await getHeaders(clientId, clientSecret);
+  return result;
+}
+
+/**
+ * Create a Swish payment request for an order
+ *
+ * Makes POST request with Bearer token in Authorization header.
+ * vm-service registers the request with Swish and returns its token (for the
+ * app deep link) and a QR code (for paying from another device).
+ *
+ * @param orderId - Order ID
+ * @param request - Optional payer alias and callback URL
+ * @param clientId - Optional client ID for authentication (overrides env vars if provided)
+ * @param clientSecret - Optional client secret for authentication (overrides env vars if provided)
+ * @param options - Optional request options (signal, timeout, idempotencyKey)
+ */
+export async function createSwishPayment(
+  orderId: string,
+  request: CreateSwishPaymentRequest = {},
+  clientId?: string,
+  clientSecret?: string,
+  options?: RequestOptions
+): Promise<SwishPaymentResponse> {
+  console.log('Creating Swish payment for:', orderId);
 
-  const response = await fetch(url, {
+  const result = await apiRequest({
+    ...options,
     method: 'POST',
-    headers,
-    body: JSON.stringify(request),
+    idempotencyKey: options?.idempotencyKey ?? getIdempotencyKey(idempotencyScopes.createSwishPayment(orderId)),
+    path: `/api/v1/orders/${orderId}/swish`,
+    body: request,
+    requestSchema: schemas.createSwishPaymentRequestSchema,
+    responseSchema: schemas.swishPaymentResponseSchema,
+    domain: 'payment',
+    clientId,
+    clientSecret,
   });
+  console.log('Swish payment created:', result.data.id);
 
-  const result = await handleResponse<VerifyPaymentResponse>(response);
-  console.log('Payment verified successfully');
+  return result;
+}
+
+/**
+ * Get the current state of a Swish payment request
+ *
+ * Makes GET request with Bearer token in Authorization header.
+ *
+ * @param paymentId - Swish payment ID (from createSwishPayment)
+ * @param clientId - Optional client ID for authentication (overrides env vars if provided)
+ * @param clientSecret - Optional client secret for authentication (overrides env vars if provided)
+ * @param options - Optional request options (signal, timeout, retries)
+ */
+export async function getSwishPayment(
+  paymentId: string,
+  clientId?: string,
+  clientSecret?: string,
+  options?: RequestOptions
+): Promise<SwishPaymentResponse> {
+  return apiRequest({
+    ...options,
+    method: 'GET',
+    path: `/api/v1/payments/swish/${paymentId}`,
+    responseSchema: schemas.swishPaymentResponseSchema,
+    domain: 'payment',
+    clientId,
+    clientSecret,
+  });
+}
+
+/**
+ * Create a card payment for an order
+ *
+ * Makes POST request with Bearer token in Authorization header.
+ * vm-service creates the payment with the card gateway (Stripe) and returns
+ * the client secret the hosted card element confirms it with.
+ *
+ * @param orderId - Order ID
+ * @param request - Optional return URL for 3-D Secure redirects
+ * @param clientId - Optional client ID for authentication (overrides env vars if provided)
+ * @param clientSecret - Optional client secret for authentication (overrides env vars if provided)
+ * @param options - Optional request options (signal, timeout, idempotencyKey)
+ */
+export async function createCardPayment(
+  orderId: string,
+  request: CreateCardPaymentRequest = {},
+  clientId?: string,
+  clientSecret?: string,
+  options?: RequestOptions
+): Promise<CardPaymentResponse> {
+  console.log('Creating card payment for:', orderId);
+
+  const result = await apiRequest({
+    ...options,
+    method: 'POST',
+    idempotencyKey: options?.idempotencyKey ?? getIdempotencyKey(idempotencyScopes.createCardPayment(orderId)),
+    path: `/api/v1/orders/${orderId}/card`,
+    body: request,
+    requestSchema: schemas.createCardPaymentRequestSchema,
+    responseSchema: schemas.cardPaymentResponseSchema,
+    domain: 'payment',
+    clientId,
+    clientSecret,
+  });
+  console.log('Card payment created:', result.data.id);
+
+  return result;
+}
+
+/**
+ * Get the current state of a card payment
+ *
+ * Makes GET request with Bearer token in Authorization header.
+ *
+ * @param paymentId - Card payment ID (from createCardPayment)
+ * @param clientId - Optional client ID for authentication (overrides env vars if provided)
+ * @param clientSecret - Optional client secret for authentication (overrides env vars if provided)
+ * @param options - Optional request options (signal, timeout, retries)
+ */
+export async function getCardPayment(
+  paymentId: string,
+  clientId?: string,
+  clientSecret?: string,
+  options?: RequestOptions
+): Promise<CardPaymentResponse> {
+  return apiRequest({
+    ...options,
+    method: 'GET',
+    path: `/api/v1/payments/card/${paymentId}`,
+    responseSchema: schemas.cardPaymentResponseSchema,
+    domain: 'payment',
+    clientId,
+    clientSecret,
+  });
+}
+
+/**
+ * Cancel an order that was never paid
+ *
+ * Makes POST request with Bearer token in Authorization header.
+ * Used when the payer abandons or runs out of time on the payment, so the
+ * order does not stay open. vm-service refuses (ConflictError) once the order
+ * is paid, and closes any gateway payment still open for it.
+ *
+ * @param orderId - Order ID
+ * @param request - Why the order is cancelled
+ * @param clientId - Optional client ID for authentication (overrides env vars if provided)
+ * @param clientSecret - Optional client secret for authentication (overrides env vars if provided)
+ * @param options - Optional request options (signal, timeout, idempotencyKey)
+ */
+export async function cancelOrder(
+  orderId: string,
+  request: CancelOrderRequest,
+  clientId?: string,
+  clientSecret?: string,
+  options?: RequestOptions
+): Promise<CancelOrderResponse> {
+  console.log('Cancelling order:', orderId, request.reason);
+
+  const result = await apiRequest({
+    ...options,
+    method: 'POST',
+    idempotencyKey: options?.idempotencyKey ?? getIdempotencyKey(idempotencyScopes.cancelOrder(orderId)),
+    path: `/api/v1/orders/${orderId}/cancel`,
+    body: request,
+    requestSchema: schemas.cancelOrderRequestSchema,
+    responseSchema: schemas.cancelOrderResponseSchema,
+    domain: 'payment',
+    clientId,
+    clientSecret,
+  });
+  // Ordering the same items again is a new order
+  releaseIdempotencyKeysFor(orderId);
 
   return result;
 }
 
+/**
+ * Settle an order with a test payment (no payment gateway involved)
+ *
+ * Makes POST request with Bearer token in Authorization header.
+ * vm-service only accepts test payments in test environments, and marks the
+ * order paid and verified like after a verified Razorpay payment.
+ *
+ * @param orderId - Order ID
+ * @param clientId - Optional client ID for authentication (overrides env vars if provided)
+ * @param clientSecret - Optional client secret for authentication (overrides env vars if provided)
+ * @param options - Optional request options (signal, timeout, retries)
+ */
+export async function completeTestPayment(
+  orderId: string,
+  clientId?: string,
+  clientSecret?: string,
+  options?: RequestOptions
+): Promise<CompleteTestPaymentResponse> {
+  console.log('Completing test payment for:', orderId);
+
+  return apiRequest({
+    ...options,
+    method: 'POST',
+    path: `/api/v1/orders/${orderId}/test-payment`,
+    responseSchema: schemas.completeTestPaymentResponseSchema,
+    domain: 'payment-verification',
+    // Settling an order twice is harmless
+    retryable: true,
+    clientId,
+    clientSecret,
+  });
+}
+
 /**
  * Get order details by ID
  *
@@ -583,24 +572,22 @@ export async function verifyPayment(
  * @param orderId - Order ID
  * @param clientId - Optional client ID for authentication (overrides env vars if provided)
  * @param clientSecret - Optional client secret for authentication (overrides env vars if provided)
+ * @param options - Optional request options (signal, timeout, retries)
  */
 export async function getOrder(
   orderId: string,
   clientId?: string,
-  clientSecret?: string
+  clientSecret?: string,
+  options?: RequestOptions
 ): Promise<Order> {
-  const baseUrl = getApiBaseUrl();
-  const url = `${baseUrl}/api/v1/orders/${orderId}`;
-
-  // Get headers with Bearer token included
-  const headers = await getHeaders(clientId, clientSecret);
-
-  const response = await fetch(url, {
+  const result = await apiRequest({
+    ...options,
     method: 'GET',
-    headers,
+    path: `/api/v1/orders/${orderId}`,
+    responseSchema: schemas.orderResponseSchema,
+    clientId,
+    clientSecret,
   });
-
-  const result = await handleResponse<{ data: Order }>(response);
   return result.data;
 }
 
@@ -613,26 +600,26 @@ export async function getOrder(
  * @param orderId - Order ID
  * @param clientId - Optional client ID for authentication (overrides env vars if provided)
  * @param clientSecret - Optional client secret for authentication (overrides env vars if provided)
+ * @param options - Optional request options (signal, timeout, idempotencyKey)
  */
 export async function initiateDispense(
   orderId: string,
   clientId?: string,
-  clientSecret?: string
-): Promise<{ success: boolean; message: string }> {
-  const baseUrl = getApiBaseUrl();
-  const url = `${baseUrl}/api/v1/orders/${orderId}/dispense`;
-
-  console.log('Initiating dispense:', url);
-
-  // Get headers with Bearer token included
-  const headers = await getHeaders(clientId, clientSecret);
+  clientSecret?: string,
+  options?: RequestOptions
+): Promise<SuccessResponse> {
+  console.log('Initiating dispense for order:', orderId);
 
-  const response = await fetch(url, {
+  const result = await apiRequest({
+    ...options,
     method: 'POST',
-    headers,
+    idempotencyKey: options?.idempotencyKey ?? getIdempotencyKey(idempotencyScopes.initiateDispense(orderId)),
+    path: `/api/v1/orders/${orderId}/dispense`,
+    responseSchema: schemas.successResponseSchema,
+    domain: 'dispense',
+    clientId,
+    clientSecret,
   });
-
-  const result = await handleResponse<{ success: boolean; message: string }>(response);
   console.log('Dispense initiated');
 
   return result;
@@ -650,6 +637,8 @@ export async function initiateDispense(
  * @param error - Optional error message if failed
  * @param clientId - Optional client ID for authentication (overrides env vars if provided)
  * @param clientSecret - Optional client secret for authentication (overrides env vars if provided)
+ * @param options - Optional request options (signal, timeout, retries)
+ * @param metadata - Optional details stored with the status, e.g. a spring substitution
  */
 export async function updateDispenseStatus(
   orderId: string,
@@ -657,23 +646,25 @@ export async function updateDispenseStatus(
   status: 'success' | 'failed',
   error?: string,
   clientId?: string,
-  clientSecret?: string
-): Promise<{ success: boolean; message: string }> {
-  const baseUrl = getApiBaseUrl();
-  const url = `${baseUrl}/api/v1/orders/${orderId}/items/${itemId}/dispense-status`;
-
-  console.log('Updating dispense status:', url, status);
-
-  // Get headers with Bearer token included
-  const headers = await getHeaders(clientId, clientSecret);
-
-  const response = await fetch(url, {
+  clientSecret?: string,
+  options?: RequestOptions,
+  metadata?: Record<string, unknown>
+): Promise<SuccessResponse> {
+  console.log('Updating dispense status:', orderId, itemId, status);
+
+  return apiRequest({
+    ...options,
     method: 'POST',
-    headers,
-    body: JSON.stringify({ status, error }),
+    path: `/api/v1/orders/${orderId}/items/${itemId}/dispense-status`,
+    body: { status, error, metadata },
+    requestSchema: schemas.dispenseStatusUpdateSchema,
+    responseSchema: schemas.successResponseSchema,
+    domain: 'dispense',
+    // Setting the same status twice is harmless
+    retryable: true,
+    clientId,
+    clientSecret,
   });
-
-  return handleResponse<{ success: boolean; message: string }>(response);
 }
 
 /**
@@ -685,26 +676,26 @@ export async function updateDispenseStatus(
  * @param orderId - Order ID
  * @param clientId - Optional client ID for authentication (overrides env vars if provided)
  * @param clientSecret - Optional client secret for authentication (overrides env vars if provided)
+ * @param options - Optional request options (signal, timeout, idempotencyKey)
  */
 export async function completeDispense(
   orderId: string,
   clientId?: string,
-  clientSecret?: string
-): Promise<{ success: boolean; message: string; data: Order }> {
-  const baseUrl = getApiBaseUrl();
-  const url = `${baseUrl}/api/v1/orders/${orderId}/dispense/complete`;
-
-  console.log('Completing dispense:', url);
+  clientSecret?: string,
+  options?: RequestOptions
+): Promise<CompleteDispenseResponse> {
+  console.log('Completing dispense for order:', orderId);
 
-  // Get headers with Bearer token included
-  const headers = await getHeaders(clientId, clientSecret);
-
-  const response = await fetch(url, {
+  const result = await apiRequest({
+    ...options,
     method: 'POST',
-    headers,
+    idempotencyKey: options?.idempotencyKey ?? getIdempotencyKey(idempotencyScopes.completeDispense(orderId)),
+    path: `/api/v1/orders/${orderId}/dispense/complete`,
+    responseSchema: schemas.completeDispenseResponseSchema,
+    domain: 'dispense',
+    clientId,
+    clientSecret,
   });
-
-  const result = await handleResponse<{ success: boolean; message: string; data: Order }>(response);
   console.log('Dispense completed:', result.data.order_status);
 
   return result;
@@ -720,28 +711,29 @@ export async function completeDispense(
  * @param request - Refund request details
  * @param clientId - Optional client ID for authentication (overrides env vars if provided)
  * @param clientSecret - Optional client secret for authentication (overrides env vars if provided)
+ * @param options - Optional request options (signal, timeout, idempotencyKey)
  */
 export async function createRefund(
   orderId: string,
   request: RefundRequest,
   clientId?: string,
-  clientSecret?: string
-): Promise<{ success: boolean; message: string; data: any }> {
-  const baseUrl = getApiBaseUrl();
-  const url = `${baseUrl}/api/v1/orders/${orderId}/refunds`;
-
-  console.log('Creating refund:', url);
+  clientSecret?: string,
+  options?: RequestOptions
+): Promise<CreateRefundResponse> {
+  console.log('Creating refund for order:', orderId);
 
-  // Get headers with Bearer token included
-  const headers = await getHeaders(clientId, clientSecret);
-
-  const response = await fetch(url, {
+  const result = await apiRequest({
+    ...options,
     method: 'POST',
-    headers,
-    body: JSON.stringify(request),
+    idempotencyKey: options?.idempotencyKey ?? getIdempotencyKey(idempotencyScopes.createRefund(orderId)),
+    path: `/api/v1/orders/${orderId}/refunds`,
+    body: request,
+    requestSchema: schemas.refundRequestSchema,
+    responseSchema: schemas.createRefundResponseSchema,
+    domain: 'payment',
+    clientId,
+    clientSecret,
   });
-
-  const result = await handleResponse<{ success: boolean; message: string; data: any }>(response);
   console.log('Refund created:', result.data.refund_number);
 
   return result;
@@ -756,26 +748,26 @@ export async function createRefund(
  * @param refundId - Refund ID
  * @param clientId - Optional client ID for authentication (overrides env vars if provided)
  * @param clientSecret - Optional client secret for authentication (overrides env vars if provided)
+ * @param options - Optional request options (signal, timeout, idempotencyKey)
  */
 export async function processRefund(
   refundId: string,
   clientId?: string,
-  clientSecret?: string
-): Promise<{ success: boolean; message: string }> {
-  const baseUrl = getApiBaseUrl();
-  const url = `${baseUrl}/api/v1/refunds/${refundId}/process`;
-
-  console.log('Processing refund:', url);
+  clientSecret?: string,
+  options?: RequestOptions
+): Promise<SuccessResponse> {
+  console.log('Processing refund:', refundId);
 
-  // Get headers with Bearer token included
-  const headers = await getHeaders(clientId, clientSecret);
-
-  const response = await fetch(url, {
+  const result = await apiRequest({
+    ...options,
     method: 'POST',
-    headers,
+    idempotencyKey: options?.idempotencyKey ?? getIdempotencyKey(idempotencyScopes.processRefund(refundId)),
+    path: `/api/v1/refunds/${refundId}/process`,
+    responseSchema: schemas.successResponseSchema,
+    domain: 'payment',
+    clientId,
+    clientSecret,
   });
-
-  const result = await handleResponse<{ success: boolean; message: string }>(response);
   console.log('Refund processed successfully');
 
   return result;
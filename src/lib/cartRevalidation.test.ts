@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import type { ProductValidationItem, Spring } from '@/lib/api/vmService';
+import { springToProduct } from '@/lib/api/productMapper';
+import { fromMajor } from '@/lib/money';
+import type { CartItem } from '@/lib/types';
+import { describeCartChange, mapValidationToCart, revalidateCart } from './cartRevalidation';
+
+function spring(id: string, overrides: Partial<Spring> = {}, product: Partial<Spring['linked_product']> = {}): Spring {
+  return {
+    id,
+    vm_id: 'vm-1',
+    project_id: 'project-1',
+    store_id: 'store-1',
+    selection_number: '11',
+    capacity: 10,
+    inventory: 5,
+    linked_product: { id: `product-${id}`, title: id, price: 25, tax_rate: 12, ...product },
+    spring_status: 'active',
+    stripe_code: '',
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+// A cart line as it was added from the spring
+const line = (source: Spring, quantity: number): CartItem => ({ product: springToProduct(source), quantity });
+
+describe('revalidateCart', () => {
+  it('changes nothing when the springs are as they were', () => {
+    const cola = spring('cola');
+    const items = [line(cola, 2)];
+
+    expect(revalidateCart(items, [cola])).toEqual({ changes: [], items });
+  });
+
+  it('drops lines whose spring is gone, empty of products or out of service', () => {
+    const items = [line(spring('gone'), 1), line(spring('unlinked'), 1), line(spring('broken'), 1)];
+
+    const result = revalidateCart(items, [
+      spring('unlinked', { linked_product: null }),
+      spring('broken', { spring_status: 'broken' }),
+    ]);
+
+    expect(result.items).toEqual([]);
+    expect(result.changes.map((change) => change.type)).toEqual(['removed', 'removed', 'unavailable']);
+  });
+
+  it('takes the current price, deposit included, and reports the change', () => {
+    const items = [line(spring('cola'), 1)];
+
+    const result = revalidateCart(items, [spring('cola', {}, { price: 25, deposit_amount: 1 })]);
+
+    expect(result.changes).toEqual([
+      { type: 'price', item: items[0], previous: fromMajor(25), current: fromMajor(26) },
+    ]);
+    expect(result.items[0].product.depositAmount).toEqual(fromMajor(1));
+    expect(describeCartChange(result.changes[0])).toBe('Price changed');
+  });
+
+  it('lowers the quantity to the stock and drops sold-out lines', () => {
+    const items = [line(spring('cola'), 4), line(spring('chips'), 2)];
+
+    const result = revalidateCart(items, [spring('cola', { inventory: 3 }), spring('chips', { inventory: 0 })]);
+
+    expect(result.items.map((item) => [item.product.id, item.quantity])).toEqual([['cola', 3]]);
+    expect(result.changes.map(describeCartChange)).toEqual(['Only 3 left', 'Sold out']);
+  });
+});
+
+describe('mapValidationToCart', () => {
+  const validation = (springId: string, overrides: Partial<ProductValidationItem> = {}): ProductValidationItem => ({
+    spring_id: springId,
+    selection_number: '11',
+    product_name: springId,
+    requested_qty: 2,
+    available_qty: 2,
+    spring_status: 'active',
+    is_available: true,
+    is_purchasable: true,
+    ...overrides,
+  });
+
+  it('keeps only the lines vm-service refused', () => {
+    const items = [line(spring('cola'), 2), line(spring('chips'), 2), line(spring('water'), 1)];
+
+    const issues = mapValidationToCart(items, [
+      validation('cola'),
+      validation('chips', { available_qty: 1 }),
+      validation('water', { is_purchasable: false, error_message: 'Spring is broken' }),
+      validation('not-in-cart', { available_qty: 0 }),
+    ]);
+
+    expect(issues).toEqual({
+      chips: { availableQty: 1, purchasable: true, message: 'Only 1 left' },
+      water: { availableQty: 2, purchasable: false, message: 'Spring is broken' },
+    });
+  });
+});
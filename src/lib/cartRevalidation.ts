@@ -0,0 +1,142 @@
+/**
+ * Revalidation of a persisted cart against fresh spring data
+ *
+ * The cart keeps a snapshot of each product (price, deposit, inventory) from
+ * when it was added, and survives in localStorage for as long as the customer
+ * likes. Before paying, the snapshot is compared with the store's current
+ * springs: every difference the customer has to know about becomes a
+ * `CartChange`, and `items` is the cart as it can be bought now.
+ *
+ * vm-service's pre-payment validation is mapped back onto cart lines the same
+ * way (`mapValidationToCart`), so refused lines can be fixed in the cart.
+ *
+ * @module lib/cartRevalidation
+ */
+
+import type { ProductValidationItem, Spring } from '@/lib/api/vmService';
+import { springToProduct } from '@/lib/api/productMapper';
+import { equals } from '@/lib/money';
+import { chargedUnitPrice } from '@/lib/tax';
+import type { CartItem, Money } from '@/lib/types';
+
+/**
+ * Spring statuses that cannot dispense
+ */
+const UNAVAILABLE_SPRING_STATUSES = ['broken', 'maintenance'];
+
+/**
+ * What changed about a cart line
+ *
+ * - `removed`: the spring is gone or no longer holds a product
+ * - `unavailable`: the spring is broken or in maintenance
+ * - `price`: the unit price or deposit changed (amounts include the deposit)
+ * - `quantity`: fewer units are in stock than in the cart (`available` 0 drops the line)
+ */
+export type CartChange =
+  | { type: 'removed'; item: CartItem }
+  | { type: 'unavailable'; item: CartItem; springStatus: string }
+  | { type: 'price'; item: CartItem; previous: Money; current: Money }
+  | { type: 'quantity'; item: CartItem; available: number };
+
+export interface CartRevalidation {
+  changes: CartChange[];
+  /** The cart with current product data, reduced quantities and without unavailable lines */
+  items: CartItem[];
+}
+
+/**
+ * Compare cart lines with the store's current springs
+ */
+export function revalidateCart(items: CartItem[], springs: Spring[]): CartRevalidation {
+  const springsById = new Map(springs.map((spring) => [spring.id, spring]));
+  const changes: CartChange[] = [];
+  const revalidated: CartItem[] = [];
+
+  for (const item of items) {
+    const spring = springsById.get(item.product.id);
+    const product = spring && springToProduct(spring);
+
+    if (!product) {
+      changes.push({ type: 'removed', item });
+      continue;
+    }
+
+    if (spring.spring_status && UNAVAILABLE_SPRING_STATUSES.includes(spring.spring_status)) {
+      changes.push({ type: 'unavailable', item, springStatus: spring.spring_status });
+      continue;
+    }
+
+    const previous = chargedUnitPrice(item.product);
+    const current = chargedUnitPrice(product);
+    if (!equals(previous, current)) {
+      changes.push({ type: 'price', item, previous, current });
+    }
+
+    const available = Math.max(0, spring.inventory);
+    if (available < item.quantity) {
+      changes.push({ type: 'quantity', item, available });
+    }
+
+    if (available > 0) {
+      revalidated.push({ product, quantity: Math.min(item.quantity, available) });
+    }
+  }
+
+  return { changes, items: revalidated };
+}
+
+/**
+ * One-line description of a change for the customer
+ */
+export function describeCartChange(change: CartChange): string {
+  switch (change.type) {
+    case 'removed':
+      return 'No longer sold here';
+    case 'unavailable':
+      return 'Temporarily unavailable';
+    case 'price':
+      return 'Price changed';
+    case 'quantity':
+      return change.available === 0 ? 'Sold out' : `Only ${change.available} left`;
+  }
+}
+
+/**
+ * A cart line vm-service refused in pre-payment validation
+ */
+export interface CartLineIssue {
+  /** Units the spring can dispense now */
+  availableQty: number;
+  /** False when the line cannot be bought at all (spring broken, product removed) */
+  purchasable: boolean;
+  message: string;
+}
+
+/**
+ * Refused lines of a pre-payment validation, keyed by product ID
+ */
+export function mapValidationToCart(
+  items: CartItem[],
+  validation: ProductValidationItem[]
+): Record<string, CartLineIssue> {
+  const issues: Record<string, CartLineIssue> = {};
+
+  for (const result of validation) {
+    const item = items.find((cartItem) => cartItem.product.id === result.spring_id);
+    if (!item) continue;
+
+    const availableQty = Math.max(0, result.available_qty);
+    const purchasable = result.is_purchasable && result.is_available && availableQty > 0;
+    if (purchasable && availableQty >= item.quantity) continue;
+
+    issues[item.product.id] = {
+      availableQty,
+      purchasable,
+      message:
+        result.error_message ||
+        (!purchasable ? 'Not available right now' : `Only ${availableQty} left`),
+    };
+  }
+
+  return issues;
+}
@@ -1,70 +1,71 @@
 import { Product } from '../types';
+import { money } from '../money';
 
 export const mockProducts: Product[] = [
   {
     id: 'pepsi-500ml',
     name: 'Pepsi 500ml',
-    price: 40,
+    price: money(4000, 'SEK'),
     image: 'https://images.unsplash.com/photo-1629203851122-3726ecdf080e?w=200&h=300&fit=crop',
     category: 'Beverages',
     isAgeRestricted: false,
     taxRate: 6,
-    depositAmount: 1,
+    depositAmount: money(100, 'SEK'),
   },
   {
     id: 'coca-cola-classic',
     name: 'Coca Cola Classic',
-    price: 35,
+    price: money(3500, 'SEK'),
     image: 'https://images.unsplash.com/photo-1554866585-cd94860890b7?w=200&h=300&fit=crop',
     category: 'Beverages',
     isAgeRestricted: false,
     taxRate: 12,
-    depositAmount: 1,
+    depositAmount: money(100, 'SEK'),
   },
   {
     id: 'fanta-orange',
     name: 'Fanta Orange',
-    price: 35,
+    price: money(3500, 'SEK'),
     image: 'https://images.unsplash.com/photo-1624517452488-04869289c4ca?w=200&h=300&fit=crop',
     category: 'Beverages',
     isAgeRestricted: false,
     taxRate: 12,
-    depositAmount: 1,
+    depositAmount: money(100, 'SEK'),
   },
   {
     id: 'sprite-500ml',
     name: 'Sprite 500ml',
-    price: 35,
+    price: money(3500, 'SEK'),
     image: 'https://images.unsplash.com/photo-1625772299848-391b6a87d7b3?w=200&h=300&fit=crop',
     category: 'Beverages',
     isAgeRestricted: false,
     taxRate: 12,
-    depositAmount: 1,
+    depositAmount: money(100, 'SEK'),
   },
   {
     id: 'red-bull',
     name: 'Red Bull Energy',
-    price: 45,
+    price: money(4500, 'SEK'),
     image: 'https://images.unsplash.com/photo-1613217970109-ae3d8dbe8e17?w=200&h=300&fit=crop',
     category: 'Energy Drinks',
     isAgeRestricted: false,
     taxRate: 12,
-    depositAmount: 1,
+    depositAmount: money(100, 'SEK'),
   },
   {
     id: 'beer-lager',
     name: 'Premium Lager',
-    price: 55,
+    price: money(5500, 'SEK'),
     image: 'https://images.unsplash.com/photo-1608270586620-248524c67de9?w=200&h=300&fit=crop',
     category: 'Alcoholic Beverages',
     isAgeRestricted: true,
     taxRate: 25,
-    depositAmount: 1,
+    depositAmount: money(100, 'SEK'),
   },
   {
     id: 'wine-red',
     name: 'Red Wine 375ml',
-    price: 120,
+    price: money(12000, 'SEK'),
     image: 'https://images.unsplash.com/photo-1510812431401-41d2bd2722f3?w=200&h=300&fit=crop',
     category: 'Alcoholic Beverages',
     isAgeRestricted: true,
@@ -73,7 +74,7 @@ export const mockProducts: Product[] = [
   {
     id: 'snickers',
     name: 'Snickers Bar',
-    price: 25,
+    price: money(2500, 'SEK'),
     image: 'https://images.unsplash.com/photo-1611312449412-6cefac5dc3e4?w=200&h=300&fit=crop',
     category: 'Snacks',
     isAgeRestricted: false,
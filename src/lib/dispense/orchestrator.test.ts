@@ -0,0 +1,421 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ConflictError, NetworkError } from '@/lib/api/errors';
+import type { Order as BackendOrder, DispenseRequest, DispenseResponse, RefundRequest, Spring } from '@/lib/api/vmService';
+import { money } from '@/lib/money';
+import type { Product } from '@/lib/types';
+import {
+  runDispense,
+  transition,
+  planDispenseUnits,
+  initialDispenseContext,
+  isDispenseFinished,
+  type DispenseApi,
+  type DispenseContext,
+  type DispenseRunInput,
+} from './orchestrator';
+import type { DispenseRetryPolicy } from './retryPolicy';
+
+const STORE_ID = 'store-1';
+const VM_ID = 'vm-1';
+
+// No waiting between attempts
+const retryPolicy: DispenseRetryPolicy = { maxRetries: 1, retryDelay: 0, attemptTimeout: 1000 };
+
+function product(id: string, selectionNumber: number, price: number): Product {
+  return {
+    id,
+    name: `Product ${id}`,
+    price: money(price, 'SEK'),
+    image: '',
+    category: 'Drinks',
+    isAgeRestricted: false,
+    taxRate: 12,
+    selectionNumber,
+    vmId: VM_ID,
+    storeId: STORE_ID,
+  };
+}
+
+const cola = product('spring-cola', 11, 2500);
+const chips = product('spring-chips', 12, 1900);
+
+function spring(id: string, selectionNumber: number, productId: string, inventory = 5): Spring {
+  return {
+    id,
+    vm_id: VM_ID,
+    project_id: 'project-1',
+    store_id: STORE_ID,
+    selection_number: String(selectionNumber),
+    capacity: 10,
+    inventory,
+    linked_product: { id: productId },
+    stripe_code: '',
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+  };
+}
+
+const input: DispenseRunInput = {
+  orderId: 'order-1',
+  storeId: STORE_ID,
+  orderItems: [
+    { productId: cola.id, name: cola.name, price: cola.price, quantity: 2, taxRate: 12 },
+    { productId: chips.id, name: chips.name, price: chips.price, quantity: 1, taxRate: 12 },
+  ],
+  cartProducts: [cola, chips],
+};
+
+type DispenseHandler = (request: DispenseRequest) => DispenseResponse;
+
+/**
+ * In-memory vm-service: one paid order whose status moves the way the backend's does
+ */
+function createFakeVmService() {
+  const order: BackendOrder = {
+    id: input.orderId,
+    order_number: 'ORD-1',
+    project_id: 'project-1',
+    store_id: STORE_ID,
+    vm_id: VM_ID,
+    total_amount: 69,
+    currency: 'SEK',
+    payment_status: 'paid',
+    order_status: 'paid',
+    payment_verified: true,
+    dispense_status: 'pending',
+    items: [
+      { id: 'item-cola', spring_id: cola.id, selection_number: '11', quantity: 2, unit_price: 25, tax_rate: 12 },
+      { id: 'item-chips', spring_id: chips.id, selection_number: '12', quantity: 1, unit_price: 19, tax_rate: 12 },
+    ],
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+  };
+
+  const dispensed: DispenseRequest[] = [];
+  const statusUpdates: { itemId: string; status: string; metadata?: Record<string, unknown> }[] = [];
+  const refunds: RefundRequest[] = [];
+  const springs: Spring[] = [];
+  let onDispense: DispenseHandler = () => ({ success: true });
+  let completeError: Error | null = null;
+  let isConnected = () => true;
+  let connectionChecks = 0;
+
+  const api: DispenseApi = {
+    getOrder: async () => structuredClone(order),
+    initiateDispense: async () => {
+      order.order_status = 'dispensing';
+    },
+    dispenseProduct: async (_storeId, _vmId, request) => {
+      const response = onDispense(request);
+      if (response.success) {
+        dispensed.push(request);
+      }
+      return response;
+    },
+    getConnectionStatus: async () => {
+      connectionChecks++;
+      return { connected: isConnected(), vm_id: VM_ID, store_id: STORE_ID };
+    },
+    getSprings: async () => springs,
+    updateDispenseStatus: async (_orderId, itemId, status, _error, metadata) => {
+      statusUpdates.push({ itemId, status, metadata });
+    },
+    completeDispense: async () => {
+      if (completeError) throw completeError;
+      order.order_status = refunds.length > 0 || statusUpdates.some((update) => update.status === 'failed')
+        ? 'partially_dispensed'
+        : 'completed';
+      order.dispense_status = 'completed';
+      return { success: true, data: structuredClone(order) };
+    },
+    createRefund: async (_orderId, request) => {
+      refunds.push(request);
+      return { success: true, data: { id: 'refund-1', refund_number: 'REF-1' } };
+    },
+    processRefund: async () => ({ success: true }),
+  };
+
+  return {
+    api,
+    order,
+    dispensed,
+    statusUpdates,
+    refunds,
+    springs,
+    failDispense: (handler: DispenseHandler) => {
+      onDispense = handler;
+    },
+    failComplete: (error: Error | null) => {
+      completeError = error;
+    },
+    setConnected: (connected: () => boolean) => {
+      isConnected = connected;
+    },
+    get connectionChecks() {
+      return connectionChecks;
+    },
+  };
+}
+
+let vm: ReturnType<typeof createFakeVmService>;
+
+beforeEach(() => {
+  vm = createFakeVmService();
+  // The orchestrator logs every failure it handles
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe('transition', () => {
+  it('ignores events that are not valid in the current state', () => {
+    const context = transition(initialDispenseContext, { type: 'UNITS_FINISHED' });
+
+    expect(context).toBe(initialDispenseContext);
+  });
+
+  it('does not leave a finished run', () => {
+    const complete: DispenseContext = { ...initialDispenseContext, state: 'complete' };
+
+    expect(transition(complete, { type: 'FAILED', error: 'late' })).toBe(complete);
+    expect(transition(complete, { type: 'INTERRUPTED', error: 'late' })).toBe(complete);
+  });
+});
+
+describe('planDispenseUnits', () => {
+  it('splits a line discount over the units without losing the remainder', () => {
+    const { units } = planDispenseUnits(
+      [{ id: 'item-cola', spring_id: cola.id, selection_number: '11', quantity: 3, unit_price: 25, tax_rate: 12 }],
+      {
+        storeId: STORE_ID,
+        orderItems: [{ ...input.orderItems[0], quantity: 3, discount: money(100, 'SEK') }],
+        cartProducts: [cola],
+      },
+      'SEK'
+    );
+
+    expect(units.map((unit) => unit.price.amount)).toEqual([2467, 2467, 2466]);
+  });
+
+  it('never gives a unit a negative share of a small line discount', () => {
+    const { units } = planDispenseUnits(
+      [{ id: 'item-cola', spring_id: cola.id, selection_number: '11', quantity: 10, unit_price: 25, tax_rate: 12 }],
+      {
+        storeId: STORE_ID,
+        orderItems: [{ ...input.orderItems[0], quantity: 10, discount: money(7, 'SEK') }],
+        cartProducts: [cola],
+      },
+      'SEK'
+    );
+
+    const discounts = units.map((unit) => 2500 - unit.price.amount);
+    expect(discounts.every((discount) => discount >= 0 && discount <= 1)).toBe(true);
+    expect(discounts.reduce((total, discount) => total + discount, 0)).toBe(7);
+  });
+});
+
+describe('runDispense', () => {
+  it('dispenses every unit and completes the order', async () => {
+    const result = await runDispense(input, { api: vm.api, retryPolicy });
+
+    expect(result.state).toBe('complete');
+    expect(result.dispensedCount).toBe(3);
+    expect(vm.dispensed.map((request) => request.selection_number)).toEqual([11, 11, 12]);
+    expect(vm.statusUpdates.every((update) => update.status === 'success')).toBe(true);
+    expect(vm.refunds).toHaveLength(0);
+    expect(vm.order.order_status).toBe('completed');
+  });
+
+  it('refunds the units a jammed spring could not dispense', async () => {
+    vm.failDispense((request) =>
+      request.selection_number === 12
+        ? ({ success: false, message: 'Spring jammed', code: 'SPRING_JAMMED' } as DispenseResponse)
+        : { success: true }
+    );
+
+    const result = await runDispense(input, { api: vm.api, retryPolicy });
+
+    expect(result.state).toBe('partial');
+    expect(result.dispensedCount).toBe(2);
+    expect(result.failedItems).toEqual([expect.objectContaining({ productId: chips.id, reason: 'Spring jammed' })]);
+    expect(vm.refunds).toHaveLength(1);
+    expect(vm.refunds[0].refund_amount).toBe(19);
+    expect(result.refund).toEqual({ id: 'refund-1', refundNumber: 'REF-1', amount: money(1900, 'SEK'), processed: true });
+    expect(isDispenseFinished(result)).toBe(true);
+  });
+
+  it('never refunds more than the cash-rounded order total', async () => {
+    // 2 × 25.20 + 19.00 = 69.40, charged as 69 kr
+    const roundedCola = { ...cola, price: money(2520, 'SEK') };
+    vm.failDispense(() => ({ success: false, message: 'Spring jammed', code: 'SPRING_JAMMED' }) as DispenseResponse);
+
+    const result = await runDispense(
+      {
+        ...input,
+        orderItems: [{ ...input.orderItems[0], price: roundedCola.price }, input.orderItems[1]],
+        cartProducts: [roundedCola, chips],
+      },
+      { api: vm.api, retryPolicy }
+    );
+
+    expect(vm.refunds).toHaveLength(1);
+    expect(vm.refunds[0].refund_amount).toBe(69);
+    expect(vm.refunds[0].failed_items.map((item) => item.total_price)).toEqual([25.2, 25.2, 18.6]);
+    expect(result.refund.amount).toEqual(money(6900, 'SEK'));
+  });
+
+  it('resumes from the journal without dispensing again', async () => {
+    vm.failComplete(new NetworkError());
+    const journal = await runDispense(input, { api: vm.api, retryPolicy });
+
+    // Products came out, so the run is not over and must not be started again
+    expect(journal.state).toBe('interrupted');
+    expect(journal.dispenseStarted).toBe(true);
+    expect(isDispenseFinished(journal)).toBe(false);
+
+    vm.failComplete(null);
+    const result = await runDispense(input, { api: vm.api, retryPolicy, resumeFrom: journal });
+
+    expect(result.state).toBe('complete');
+    expect(result.dispensedCount).toBe(3);
+    expect(vm.dispensed).toHaveLength(3);
+    expect(vm.order.order_status).toBe('completed');
+  });
+
+  it('retries a busy machine with a growing delay', async () => {
+    const delays = vi.spyOn(globalThis, 'setTimeout');
+    const chipsRequests: DispenseRequest[] = [];
+    vm.failDispense((request) => {
+      if (request.selection_number !== 12) return { success: true };
+      chipsRequests.push(request);
+      return chipsRequests.length < 3
+        ? ({ success: false, message: 'VM busy', code: 'VM_BUSY' } as DispenseResponse)
+        : { success: true };
+    });
+
+    const result = await runDispense(input, {
+      api: vm.api,
+      retryPolicy: { maxRetries: 2, retryDelay: 10, attemptTimeout: 1000 },
+    });
+    const waited = delays.mock.calls.map(([, delay]) => delay);
+    delays.mockRestore();
+
+    expect(result.state).toBe('complete');
+    expect(waited).toEqual([10, 20]);
+    // The machine answered that nothing came out, so each retry is a new command
+    expect(chipsRequests.map((request) => request.metadata.attempt)).toEqual([0, 1, 2]);
+    expect(vm.refunds).toHaveLength(0);
+  });
+
+  it('refunds a unit the machine stays too busy to dispense', async () => {
+    vm.failDispense((request) =>
+      request.selection_number === 12
+        ? ({ success: false, message: 'VM busy', code: 'VM_BUSY' } as DispenseResponse)
+        : { success: true }
+    );
+
+    const result = await runDispense(input, { api: vm.api, retryPolicy });
+
+    expect(result.state).toBe('partial');
+    expect(result.failedItems).toEqual([expect.objectContaining({ productId: chips.id, reason: 'VM busy' })]);
+    expect(vm.refunds[0].refund_amount).toBe(19);
+  });
+
+  it('checks the connection before a retry and skips the attempt while the machine is away', async () => {
+    const chipsRequests: DispenseRequest[] = [];
+    let failed = false;
+    vm.failDispense((request) => {
+      if (request.selection_number !== 12) return { success: true };
+      chipsRequests.push(request);
+      if (!failed) {
+        failed = true;
+        throw new NetworkError();
+      }
+      return { success: true };
+    });
+    // Away for the first check after the failure, back for the second
+    let checks = 0;
+    vm.setConnected(() => ++checks > 1);
+
+    const result = await runDispense(input, {
+      api: vm.api,
+      retryPolicy: { maxRetries: 2, retryDelay: 0, attemptTimeout: 1000 },
+    });
+
+    expect(result.state).toBe('complete');
+    expect(vm.connectionChecks).toBe(2);
+    // No answer to the first command, so the resend keeps its idempotency key
+    expect(chipsRequests.map((request) => request.metadata.attempt)).toEqual([0, 0]);
+  });
+
+  it('dispenses a unit from another spring of the product when its spring jams', async () => {
+    vm.springs.push(
+      spring(chips.id, 12, 'product-chips'),
+      spring('spring-chips-empty', 21, 'product-chips', 0),
+      spring('spring-chips-2', 22, 'product-chips')
+    );
+    vm.failDispense((request) =>
+      request.selection_number === 12
+        ? ({ success: false, message: 'Spring jammed', code: 'SPRING_JAMMED' } as DispenseResponse)
+        : { success: true }
+    );
+
+    const result = await runDispense(input, { api: vm.api, retryPolicy });
+
+    expect(result.state).toBe('complete');
+    expect(vm.refunds).toHaveLength(0);
+    // The empty spring is skipped; the alternate is a new command with a new key
+    expect(vm.dispensed.at(-1)).toMatchObject({
+      selection_number: 22,
+      spring_id: 'spring-chips-2',
+      metadata: { itemId: 'item-chips', attempt: 1 },
+    });
+    expect(vm.statusUpdates.at(-1)).toEqual({
+      itemId: 'item-chips',
+      status: 'success',
+      metadata: expect.objectContaining({ original_spring_id: chips.id, substituted_spring_id: 'spring-chips-2' }),
+    });
+  });
+
+  it('refunds the unit when no alternate spring is left', async () => {
+    vm.springs.push(spring(chips.id, 12, 'product-chips'), spring('spring-chips-2', 22, 'product-chips'));
+    const tried: number[] = [];
+    vm.failDispense((request) => {
+      if (request.selection_number === 11) return { success: true };
+      tried.push(request.selection_number);
+      return { success: false, message: 'Spring jammed', code: 'SPRING_JAMMED' } as DispenseResponse;
+    });
+
+    const result = await runDispense(input, { api: vm.api, retryPolicy });
+
+    expect(tried).toEqual([12, 22]);
+    expect(result.state).toBe('partial');
+    expect(result.failedItems).toEqual([expect.objectContaining({ productId: chips.id, reason: 'Spring jammed' })]);
+    expect(vm.refunds).toHaveLength(1);
+    expect(vm.refunds[0].refund_amount).toBe(19);
+  });
+
+  it('resends a unit left pending with the same idempotency attempt', async () => {
+    let conflicts = 1;
+    vm.failDispense((request) => {
+      if (request.selection_number === 12 && conflicts-- > 0) {
+        throw new ConflictError();
+      }
+      return { success: true };
+    });
+
+    const journal = await runDispense(input, { api: vm.api, retryPolicy });
+
+    // A refused request is not a spring fault: no substitute, no refund, unit left to reconcile
+    expect(journal.state).toBe('interrupted');
+    expect(journal.outcomes['item-chips:0']).toBe('pending');
+    expect(journal.substitutions).toEqual({});
+    expect(vm.refunds).toHaveLength(0);
+
+    const result = await runDispense(input, { api: vm.api, retryPolicy, resumeFrom: journal });
+
+    expect(result.state).toBe('complete');
+    expect(vm.dispensed.filter((request) => request.selection_number === 12)).toHaveLength(1);
+    expect(vm.dispensed.at(-1).metadata).toMatchObject({ itemId: 'item-chips', unitIndex: 0, attempt: 0 });
+  });
+});
@@ -0,0 +1,907 @@
+/**
+ * Dispense orchestrator
+ *
+ * Framework-free state machine for the collect-and-dispense flow:
+ *
+ *   idle → verifying → initiating → dispensing → completing → (refunding) → complete | partial
+ *
+ * Any non-final state can move to `failed` (payment not verified, backend error,
+ * or every unit failed). Once a command may have reached the VM, a backend error
+ * moves to `interrupted` instead: the run is not over, since status updates or
+ * a refund may still be owed, and it is continued from its journal.
+ *
+ * `transition` is a pure reducer over explicit events; `runDispense` drives it
+ * against an injected vm-service API and reports every step through `onChange`.
+ * The page only renders the resulting context, and the flow can be exercised
+ * against a fake API without React or network access.
+ *
+ * Transient failures of a unit are retried according to the retry policy
+ * (see ./retryPolicy); when the spring itself fails, the unit is tried from
+ * another spring with the same product before it is given up and refunded.
+ * When vm-service refuses the request itself (conflict, auth, validation), the
+ * run is interrupted with the unit pending, to be reconciled on resume.
+ *
+ * The context is plain JSON and records the outcome of every unit, so it can be
+ * persisted as a journal (see stores/dispenseJournalStore) and passed back as
+ * `resumeFrom` to continue an interrupted run.
+ *
+ * @module lib/dispense/orchestrator
+ */
+
+import type { Money, OrderItem, Product } from '@/lib/types';
+import { CURRENCY } from '@/config/constants';
+import { add, fromMajor, money, multiply, subtract, toMajor } from '@/lib/money';
+import { chargedUnitPrice } from '@/lib/tax';
+import type {
+  Order as BackendOrder,
+  BackendOrderItem,
+  DispenseRequest,
+  DispenseResponse,
+  CompleteDispenseResponse,
+  ConnectionStatusResponse,
+  CreateRefundResponse,
+  RefundRequest,
+  Spring,
+} from '@/lib/api/vmService';
+import { filterAvailableSprings } from '@/lib/api/productMapper';
+import {
+  defaultDispenseRetryPolicy,
+  classifyDispenseError,
+  classifyDispenseResponse,
+  getRetryDelay,
+  type DispenseFailure,
+  type DispenseRetryPolicy,
+} from './retryPolicy';
+
+// ============================================
+// Types
+// ============================================
+
+export type DispenseState =
+  | 'idle'
+  | 'verifying'
+  | 'initiating'
+  | 'dispensing'
+  | 'completing'
+  | 'refunding'
+  | 'complete'
+  | 'partial'
+  | 'failed'
+  | 'interrupted';
+
+/**
+ * One physical unit to dispense (an order item with quantity 3 yields three units)
+ */
+export interface DispenseUnit {
+  orderItemId: string;
+  springId: string;
+  selectionNumber: number;
+  storeId: string;
+  vmId: string;
+  name: string;
+  price: Money;
+  /** Deposit (pant) paid on top of the price, refunded with the unit */
+  depositAmount?: Money;
+  taxRate: number;
+  /** Index of this unit within its order item */
+  unitIndex: number;
+}
+
+/**
+ * An item (or unit) that was not dispensed, shown to the customer and refunded
+ */
+export interface FailedDispenseItem extends OrderItem {
+  reason: string;
+}
+
+/**
+ * `pending` means the dispense command was sent but no answer was recorded;
+ * the unit may or may not have been dispensed
+ */
+export type UnitOutcome = 'pending' | 'success' | 'failed';
+
+/**
+ * A dispense status update vm-service has not acknowledged yet
+ */
+export interface PendingStatusUpdate {
+  itemId: string;
+  status: 'success' | 'failed';
+  error?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Another spring in the same VM holding the same product, used after the unit's own spring failed
+ */
+export interface DispenseSubstitution {
+  springId: string;
+  selectionNumber: number;
+}
+
+export interface DispenseRefundInfo {
+  id: string;
+  refundNumber: string;
+  amount: Money;
+  /** False when the refund was created but processing it failed */
+  processed: boolean;
+}
+
+export interface DispenseContext {
+  state: DispenseState;
+  units: DispenseUnit[];
+  /** Outcome per unit, keyed by `unitKey(unit)` */
+  outcomes: Record<string, UnitOutcome>;
+  /** Idempotency key attempt per unit, bumped after vm-service refused the unit */
+  attempts: Record<string, number>;
+  /** Alternate spring a unit is currently dispensed from, keyed by `unitKey(unit)` */
+  substitutions: Record<string, DispenseSubstitution>;
+  dispensedCount: number;
+  failedItems: FailedDispenseItem[];
+  /** Failed units, in the shape vm-service expects for a refund */
+  refundItems: NonNullable<RefundRequest['failed_items']>;
+  refund: DispenseRefundInfo | null;
+  /** Status updates to resend before the order is completed */
+  pendingStatusUpdates: PendingStatusUpdate[];
+  /** order_status reported by completeDispense */
+  orderStatus: string | null;
+  error: string | null;
+  /** True once a dispense command may have reached the VM */
+  dispenseStarted: boolean;
+}
+
+export type DispenseEvent =
+  | { type: 'START'; resumeFrom?: DispenseContext }
+  | { type: 'PAYMENT_VERIFIED' }
+  | { type: 'INITIATED'; units: DispenseUnit[]; invalidItems: FailedDispenseItem[] }
+  | { type: 'UNIT_STARTED'; unit: DispenseUnit }
+  | { type: 'UNIT_SUCCEEDED'; unit: DispenseUnit }
+  | { type: 'UNIT_RETRYING'; unit: DispenseUnit; retry: number; reason: string; rejected: boolean }
+  | { type: 'UNIT_SUBSTITUTED'; unit: DispenseUnit; substitution: DispenseSubstitution }
+  | { type: 'UNIT_FAILED'; unit: DispenseUnit; reason: string }
+  | { type: 'UNITS_FINISHED' }
+  | { type: 'COMPLETED'; orderStatus: string }
+  | { type: 'REFUNDED'; refund: DispenseRefundInfo }
+  | { type: 'STATUS_UPDATE_QUEUED'; update: PendingStatusUpdate }
+  | { type: 'STATUS_UPDATE_SENT'; update: PendingStatusUpdate }
+  | { type: 'FAILED'; error: string }
+  | { type: 'INTERRUPTED'; error: string };
+
+/**
+ * vm-service calls the orchestrator needs (injected, so tests can pass a fake)
+ */
+export interface DispenseApi {
+  getOrder: (orderId: string) => Promise<BackendOrder>;
+  initiateDispense: (orderId: string) => Promise<unknown>;
+  dispenseProduct: (
+    storeId: string,
+    vmId: string,
+    request: DispenseRequest,
+    options?: { timeout?: number }
+  ) => Promise<DispenseResponse>;
+  getConnectionStatus: (storeId: string, vmId: string) => Promise<ConnectionStatusResponse>;
+  /** Current springs of a store, to find an alternate spring for a failed unit */
+  getSprings: (storeId: string) => Promise<Spring[]>;
+  updateDispenseStatus: (
+    orderId: string,
+    itemId: string,
+    status: 'success' | 'failed',
+    error?: string,
+    metadata?: Record<string, unknown>
+  ) => Promise<unknown>;
+  completeDispense: (orderId: string) => Promise<CompleteDispenseResponse>;
+  createRefund: (orderId: string, request: RefundRequest) => Promise<CreateRefundResponse>;
+  processRefund: (refundId: string) => Promise<unknown>;
+}
+
+export interface DispenseRunInput {
+  orderId: string;
+  /** Store the app is running for; takes precedence over product data */
+  storeId: string;
+  /** Items recorded on the frontend order at payment time */
+  orderItems: OrderItem[];
+  /** Products currently in the cart (carry selection number, VM and store) */
+  cartProducts: Product[];
+}
+
+export interface DispenseRunOptions {
+  api: DispenseApi;
+  /** Journaled context of an interrupted run to continue instead of starting over */
+  resumeFrom?: DispenseContext;
+  /** Retries per unit (default: defaultDispenseRetryPolicy) */
+  retryPolicy?: DispenseRetryPolicy;
+  /** Called after every transition with the new context and the event that caused it */
+  onChange?: (context: DispenseContext, event: DispenseEvent) => void;
+}
+
+// ============================================
+// State machine
+// ============================================
+
+export const initialDispenseContext: DispenseContext = {
+  state: 'idle',
+  units: [],
+  outcomes: {},
+  attempts: {},
+  substitutions: {},
+  dispensedCount: 0,
+  failedItems: [],
+  refundItems: [],
+  refund: null,
+  pendingStatusUpdates: [],
+  orderStatus: null,
+  error: null,
+  dispenseStarted: false,
+};
+
+const ALL_FAILED_MESSAGE = 'Failed to dispense products. Please contact support.';
+
+/**
+ * Backend order statuses meaning the dispense was already finalized
+ */
+const FINISHED_ORDER_STATUSES = ['completed', 'dispensed', 'partially_dispensed', 'failed', 'refunded'];
+
+/**
+ * Stable key for a unit within an order
+ */
+export function unitKey(unit: Pick<DispenseUnit, 'orderItemId' | 'unitIndex'>): string {
+  return `${unit.orderItemId}:${unit.unitIndex}`;
+}
+
+function isSameUpdate(a: PendingStatusUpdate, b: PendingStatusUpdate): boolean {
+  return a.itemId === b.itemId && a.status === b.status && a.error === b.error;
+}
+
+/**
+ * Terminal state once dispensing, completion and refunds are done
+ */
+function settle(context: DispenseContext): DispenseContext {
+  if (context.failedItems.length === 0) {
+    return { ...context, state: 'complete' };
+  }
+  if (context.dispensedCount > 0) {
+    return { ...context, state: 'partial' };
+  }
+  return { ...context, state: 'failed', error: ALL_FAILED_MESSAGE };
+}
+
+function unitAsFailedItem(unit: DispenseUnit, reason: string): FailedDispenseItem {
+  return {
+    productId: unit.springId,
+    name: unit.name,
+    price: unit.price,
+    depositAmount: unit.depositAmount,
+    quantity: 1,
+    taxRate: unit.taxRate,
+    reason,
+  };
+}
+
+/**
+ * Apply an event to the context
+ *
+ * Events that are not valid in the current state are ignored (the context is
+ * returned unchanged), so a stray callback can never move the flow backwards.
+ */
+export function transition(context: DispenseContext, event: DispenseEvent): DispenseContext {
+  if (event.type === 'FAILED' || event.type === 'INTERRUPTED') {
+    if (isDispenseFinished(context)) {
+      return context;
+    }
+    return { ...context, state: event.type === 'FAILED' ? 'failed' : 'interrupted', error: event.error };
+  }
+
+  // Status bookkeeping can happen at any point of a run
+  if (event.type === 'STATUS_UPDATE_QUEUED' && context.state !== 'idle') {
+    return { ...context, pendingStatusUpdates: [...context.pendingStatusUpdates, event.update] };
+  }
+  if (event.type === 'STATUS_UPDATE_SENT' && context.state !== 'idle') {
+    return {
+      ...context,
+      pendingStatusUpdates: context.pendingStatusUpdates.filter((update) => !isSameUpdate(update, event.update)),
+    };
+  }
+
+  switch (context.state) {
+    case 'idle':
+      if (event.type === 'START') {
+        return event.resumeFrom
+          ? { ...initialDispenseContext, ...event.resumeFrom, state: 'verifying', error: null }
+          : { ...initialDispenseContext, state: 'verifying' };
+      }
+      break;
+
+    case 'verifying':
+      if (event.type === 'PAYMENT_VERIFIED') {
+        return { ...context, state: 'initiating' };
+      }
+      break;
+
+    case 'initiating':
+      if (event.type === 'INITIATED') {
+        return {
+          ...context,
+          state: 'dispensing',
+          units: event.units,
+          failedItems: [...context.failedItems, ...event.invalidItems],
+        };
+      }
+      break;
+
+    case 'dispensing':
+      // A unit's outcome is final once recorded; replays after a resume are ignored
+      if (
+        (event.type === 'UNIT_SUCCEEDED' || event.type === 'UNIT_FAILED') &&
+        (context.outcomes[unitKey(event.unit)] === 'success' || context.outcomes[unitKey(event.unit)] === 'failed')
+      ) {
+        break;
+      }
+
+      switch (event.type) {
+        case 'UNIT_STARTED':
+          return {
+            ...context,
+            dispenseStarted: true,
+            outcomes: { ...context.outcomes, [unitKey(event.unit)]: 'pending' },
+          };
+        case 'UNIT_RETRYING':
+          return event.rejected
+            ? {
+                ...context,
+                attempts: { ...context.attempts, [unitKey(event.unit)]: (context.attempts[unitKey(event.unit)] ?? 0) + 1 },
+              }
+            : context;
+        case 'UNIT_SUBSTITUTED':
+          // A different spring is a different command, so it gets a fresh idempotency key
+          return {
+            ...context,
+            substitutions: { ...context.substitutions, [unitKey(event.unit)]: event.substitution },
+            attempts: { ...context.attempts, [unitKey(event.unit)]: (context.attempts[unitKey(event.unit)] ?? 0) + 1 },
+          };
+        case 'UNIT_SUCCEEDED':
+          return {
+            ...context,
+            outcomes: { ...context.outcomes, [unitKey(event.unit)]: 'success' },
+            dispensedCount: context.dispensedCount + 1,
+          };
+        case 'UNIT_FAILED':
+          return {
+            ...context,
+            outcomes: { ...context.outcomes, [unitKey(event.unit)]: 'failed' },
+            failedItems: [...context.failedItems, unitAsFailedItem(event.unit, event.reason)],
+            refundItems: [
+              ...context.refundItems,
+              {
+                product_name: event.unit.name,
+                selection_number: event.unit.selectionNumber.toString(),
+                quantity: 1,
+                unit_price: toMajor(chargedUnitPrice(event.unit)),
+                total_price: toMajor(chargedUnitPrice(event.unit)),
+                reason: event.reason,
+              },
+            ],
+          };
+        case 'UNITS_FINISHED':
+          return { ...context, state: 'completing' };
+      }
+      break;
+
+    case 'completing':
+      if (event.type === 'COMPLETED') {
+        const completed = { ...context, orderStatus: event.orderStatus };
+        return completed.refundItems.length > 0 ? { ...completed, state: 'refunding' } : settle(completed);
+      }
+      break;
+
+    case 'refunding':
+      if (event.type === 'REFUNDED') {
+        return settle({ ...context, refund: event.refund });
+      }
+      break;
+  }
+
+  console.warn(`[dispense] Ignoring ${event.type} in state ${context.state}`);
+  return context;
+}
+
+/**
+ * Whether the flow has finished (successfully or not); an interrupted run has not
+ */
+export function isDispenseFinished(context: DispenseContext): boolean {
+  return context.state === 'complete' || context.state === 'partial' || context.state === 'failed';
+}
+
+// ============================================
+// Planning
+// ============================================
+
+/**
+ * Turn backend order items into dispense units
+ *
+ * Backend items are the source of truth (every item is processed, even if the
+ * same product appears twice); frontend order items and cart products fill in
+ * what the backend does not store, such as the VM ID.
+ *
+ * @returns Units to dispense, and items that cannot be dispensed with the reason why
+ */
+export function planDispenseUnits(
+  backendItems: BackendOrderItem[],
+  input: Pick<DispenseRunInput, 'storeId' | 'orderItems' | 'cartProducts'>,
+  currency: string = CURRENCY.DEFAULT
+): { units: DispenseUnit[]; invalidItems: (FailedDispenseItem & { orderItemId?: string })[] } {
+  const units: DispenseUnit[] = [];
+  const invalidItems: (FailedDispenseItem & { orderItemId?: string })[] = [];
+
+  // Frontend items by product ID (several entries when the same product appears twice)
+  const frontendItemMap = new Map<string, OrderItem[]>();
+  input.orderItems.forEach((item) => {
+    if (!item.productId) return;
+    if (!frontendItemMap.has(item.productId)) {
+      frontendItemMap.set(item.productId, []);
+    }
+    frontendItemMap.get(item.productId)!.push(item);
+  });
+
+  for (const backendItem of backendItems) {
+    const springId = backendItem.spring_id;
+    const frontendItem = (frontendItemMap.get(springId) || []).shift();
+    const cartProduct = input.cartProducts.find((product) => product.id === springId);
+
+    // Cart product data wins over the frontend order item, which wins over the backend item
+    const name = cartProduct?.name || frontendItem?.name || backendItem.product_name || 'Unknown';
+    const listPrice = cartProduct?.price ?? frontendItem?.price ?? fromMajor(backendItem.unit_price ?? 0, currency);
+    // Units are refunded at what was paid for them, after promotions. Each unit gets the line
+    // discount's share rounded down and the last units one minor unit of the remainder each,
+    // so no unit's discount is negative and the units add up to what the line cost
+    const unitPrice = (unitIndex: number): Money => {
+      const discount = frontendItem?.discount;
+      if (!discount) return listPrice;
+      const { quantity } = frontendItem;
+      const share = multiply(discount, 1 / quantity, 'down');
+      const remainder = discount.amount - share.amount * quantity;
+      const unitDiscount = unitIndex >= quantity - remainder ? add(share, money(1, discount.currency)) : share;
+      return subtract(listPrice, unitDiscount);
+    };
+    const price = unitPrice(0);
+    const depositAmount = cartProduct ? cartProduct.depositAmount : frontendItem?.depositAmount;
+    const taxRate = cartProduct?.taxRate ?? frontendItem?.taxRate ?? backendItem.tax_rate ?? 0;
+    const failed = (reason: string) =>
+      invalidItems.push({
+        orderItemId: backendItem.id || undefined,
+        productId: springId,
+        name,
+        price,
+        depositAmount,
+        quantity: backendItem.quantity || 0,
+        taxRate,
+        reason,
+      });
+
+    if (!backendItem.id) {
+      failed('Backend order item missing ID');
+      continue;
+    }
+
+    const selectionNumber = cartProduct?.selectionNumber ?? Number(backendItem.selection_number);
+    const vmId = cartProduct?.vmId;
+    const storeId = input.storeId || cartProduct?.storeId;
+
+    if (!selectionNumber || !vmId || !storeId) {
+      failed('Missing required product information');
+      continue;
+    }
+
+    for (let unitIndex = 0; unitIndex < backendItem.quantity; unitIndex++) {
+      units.push({
+        orderItemId: backendItem.id,
+        springId,
+        selectionNumber,
+        storeId,
+        vmId,
+        name,
+        price: unitPrice(unitIndex),
+        depositAmount,
+        taxRate,
+        unitIndex,
+      });
+    }
+  }
+
+  return { units, invalidItems };
+}
+
+/**
+ * Springs that can stand in for a unit whose spring failed
+ *
+ * Same VM, same linked product, stock left and not broken or in maintenance;
+ * the fullest spring comes first.
+ *
+ * @param springs - Current springs of the store
+ * @param unit - Unit that could not be dispensed from its own spring
+ * @param excludeSpringIds - Springs already tried for this unit
+ */
+export function findAlternateSprings(springs: Spring[], unit: DispenseUnit, excludeSpringIds: string[]): Spring[] {
+  const productId = springs.find((spring) => spring.id === unit.springId)?.linked_product?.id;
+  if (productId == null) {
+    return [];
+  }
+
+  return filterAvailableSprings(springs)
+    .filter(
+      (spring) =>
+        spring.vm_id === unit.vmId &&
+        !excludeSpringIds.includes(spring.id) &&
+        spring.id !== unit.springId &&
+        String(spring.linked_product?.id) === String(productId)
+    )
+    .sort((a, b) => b.inventory - a.inventory);
+}
+
+function withSubstitution(unit: DispenseUnit, substitution?: DispenseSubstitution): DispenseUnit {
+  return substitution ? { ...unit, ...substitution } : unit;
+}
+
+// ============================================
+// Runner
+// ============================================
+
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error ? error.message : fallback;
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Outcome vm-service recorded for a backend order item, if any
+ */
+function backendItemOutcome(item: BackendOrderItem | undefined): 'success' | 'failed' | null {
+  if (item?.dispense_status === 'success' || item?.dispense_status === 'failed') {
+    return item.dispense_status;
+  }
+  return null;
+}
+
+/**
+ * Refund items adding up to at most what the order was charged
+ *
+ * Units are refunded at their unrounded price, while a cash-rounded order
+ * total (whole kronor in Sweden) can be less than their sum; the difference is
+ * taken off the last refunded units.
+ */
+function capRefundItems(items: DispenseContext['refundItems'], charged: Money): DispenseContext['refundItems'] {
+  const refunded = fromMajor(items.reduce((total, item) => total + item.total_price, 0), charged.currency);
+  let excess = refunded.amount - charged.amount;
+  if (excess <= 0) return items;
+
+  return items
+    .slice()
+    .reverse()
+    .map((item) => {
+      const price = fromMajor(item.total_price, charged.currency);
+      const taken = Math.min(excess, price.amount);
+      excess -= taken;
+      if (taken === 0) return item;
+      const capped = toMajor(subtract(price, money(taken, charged.currency)));
+      return { ...item, unit_price: capped, total_price: capped };
+    })
+    .reverse();
+}
+
+/**
+ * Run the full dispense flow for a paid order
+ *
+ * Never throws: failures end in the `failed` state with `error` set, or in
+ * `interrupted` once anything may have reached the VM (`dispenseStarted`);
+ * an interrupted run must be resumed, not started over.
+ *
+ * With `resumeFrom`, the journaled run is reconciled with the backend order:
+ * units with a recorded outcome are skipped, in-doubt units take the outcome
+ * vm-service recorded where it is unambiguous and are resent otherwise (the
+ * per-unit idempotency key makes the resend safe), and steps that already
+ * happened (completion, refund) are not repeated.
+ *
+ * @param input - Order and cart data
+ * @param options - Injected API, journaled context to resume and progress callback
+ * @returns Final context
+ *
+ * @example
+ * const result = await runDispense(
+ *   { orderId, storeId, orderItems: currentOrder.items, cartProducts },
+ *   { api, onChange: (context) => setDispense(context) }
+ * );
+ */
+export async function runDispense(input: DispenseRunInput, options: DispenseRunOptions): Promise<DispenseContext> {
+  const { api, onChange, resumeFrom, retryPolicy = defaultDispenseRetryPolicy } = options;
+  const { orderId } = input;
+  let context = initialDispenseContext;
+
+  const dispatch = (event: DispenseEvent) => {
+    context = transition(context, event);
+    onChange?.(context, event);
+  };
+
+  // Status updates are bookkeeping; a failure must not turn a dispensed unit into a refund.
+  // Failed updates are queued in the context and resent before completing the order.
+  const reportStatus = async (
+    itemId: string,
+    status: 'success' | 'failed',
+    error?: string,
+    metadata?: Record<string, unknown>
+  ) => {
+    try {
+      await api.updateDispenseStatus(orderId, itemId, status, error, metadata);
+    } catch (statusError) {
+      console.error('Failed to update dispense status:', statusError);
+      dispatch({ type: 'STATUS_UPDATE_QUEUED', update: { itemId, status, error, metadata } });
+    }
+  };
+
+  const flushStatusUpdates = async () => {
+    for (const update of context.pendingStatusUpdates) {
+      try {
+        await api.updateDispenseStatus(orderId, update.itemId, update.status, update.error, update.metadata);
+        dispatch({ type: 'STATUS_UPDATE_SENT', update });
+      } catch (statusError) {
+        console.error('Failed to resend dispense status:', statusError);
+      }
+    }
+  };
+
+  // Send one unit, retrying transient failures; resolves with the last failure, or null once dispensed
+  const dispenseWithRetries = async (unit: DispenseUnit): Promise<DispenseFailure | null> => {
+    let failure: DispenseFailure | null = null;
+
+    for (let retry = 0; retry <= retryPolicy.maxRetries; retry++) {
+      if (failure) {
+        dispatch({ type: 'UNIT_RETRYING', unit, retry, reason: failure.reason, rejected: failure.rejected });
+        await wait(getRetryDelay(retryPolicy, retry));
+
+        // Don't spend an attempt on a machine that isn't there
+        const connected = await api.getConnectionStatus(unit.storeId, unit.vmId).then(
+          (status) => !!status.connected,
+          () => false
+        );
+        if (!connected) {
+          // Nothing was sent, so the previous attempt decides whether the key may change
+          failure = {
+            kind: 'transient',
+            reason: 'Vending machine is not connected',
+            springFault: false,
+            rejected: failure.rejected,
+          };
+          continue;
+        }
+      }
+
+      try {
+        const response = await api.dispenseProduct(
+          unit.storeId,
+          unit.vmId,
+          {
+            selection_number: unit.selectionNumber,
+            spring_id: unit.springId,
+            products: [{ id: unit.springId, name: unit.name, price: toMajor(unit.price) }],
+            metadata: {
+              orderId,
+              itemId: unit.orderItemId,
+              unitIndex: unit.unitIndex,
+              attempt: context.attempts[unitKey(unit)] ?? 0,
+              timestamp: new Date().toISOString(),
+            },
+          },
+          { timeout: retryPolicy.attemptTimeout }
+        );
+        if (response.success) {
+          return null;
+        }
+        failure = classifyDispenseResponse(response);
+      } catch (dispenseError) {
+        console.error('Error dispensing product:', unit.name, dispenseError);
+        failure = classifyDispenseError(dispenseError);
+      }
+
+      if (failure.kind !== 'transient') {
+        break;
+      }
+    }
+
+    return failure;
+  };
+
+  // Other springs that may still dispense the unit; none if the springs can't be loaded
+  const loadAlternates = async (unit: DispenseUnit, tried: string[]): Promise<Spring[]> => {
+    try {
+      return findAlternateSprings(await api.getSprings(unit.storeId), unit, tried);
+    } catch (springsError) {
+      console.error('Failed to load springs for an alternate:', springsError);
+      return [];
+    }
+  };
+
+  try {
+    dispatch({ type: 'START', resumeFrom });
+
+    // Step 1: Verify order is paid before dispensing (security check)
+    const paidOrder = await api.getOrder(orderId);
+    if (!paidOrder.payment_verified) {
+      dispatch({ type: 'FAILED', error: 'Payment not verified. Cannot dispense products. Please contact support.' });
+      return context;
+    }
+    // A resumed run has already moved the order past `paid`
+    if (!resumeFrom && paidOrder.order_status !== 'paid') {
+      dispatch({
+        type: 'FAILED',
+        error: `Order is not in paid status (current: ${paidOrder.order_status}). Cannot dispense.`,
+      });
+      return context;
+    }
+    const backendFinished =
+      FINISHED_ORDER_STATUSES.includes(paidOrder.order_status) || paidOrder.dispense_status === 'completed';
+    dispatch({ type: 'PAYMENT_VERIFIED' });
+
+    // Step 2: Initiate dispense process in backend, then read the item IDs
+    let backendItems = paidOrder.items || [];
+    if (context.units.length > 0) {
+      // Resumed after planning: keep the journaled units so their keys and outcomes line up
+      dispatch({ type: 'INITIATED', units: context.units, invalidItems: [] });
+    } else {
+      if (!backendFinished) {
+        await api.initiateDispense(orderId);
+        backendItems = (await api.getOrder(orderId)).items || [];
+      }
+      if (backendItems.length === 0) {
+        dispatch({ type: 'FAILED', error: 'No order items found in backend. Cannot proceed with dispense.' });
+        return context;
+      }
+
+      const { units, invalidItems } = planDispenseUnits(backendItems, input, paidOrder.currency);
+      for (const item of invalidItems) {
+        console.error('Cannot dispense order item:', item);
+        if (item.orderItemId) {
+          await reportStatus(item.orderItemId, 'failed', item.reason);
+        }
+      }
+      dispatch({ type: 'INITIATED', units, invalidItems: invalidItems.map(({ orderItemId: _id, ...item }) => item) });
+    }
+
+    // Step 3: Dispense each unit
+    for (const unit of context.units) {
+      const outcome = context.outcomes[unitKey(unit)];
+      if (outcome === 'success' || outcome === 'failed') {
+        continue;
+      }
+
+      // Unit of an interrupted run: use what vm-service recorded when it is unambiguous
+      if (outcome === 'pending' || backendFinished) {
+        const backendItem = backendItems.find((item) => item.id === unit.orderItemId);
+        const recorded = backendItemOutcome(backendItem);
+        if (recorded && (backendFinished || backendItem?.quantity === 1)) {
+          dispatch(
+            recorded === 'success'
+              ? { type: 'UNIT_SUCCEEDED', unit }
+              : { type: 'UNIT_FAILED', unit, reason: backendItem?.dispense_error || 'Dispense failed' }
+          );
+          continue;
+        }
+        if (backendFinished) {
+          // The order was finalized without this unit; it can no longer be dispensed
+          dispatch({ type: 'UNIT_FAILED', unit, reason: 'Dispense was interrupted' });
+          continue;
+        }
+      }
+
+      const key = unitKey(unit);
+      dispatch({ type: 'UNIT_STARTED', unit });
+      let failure = await dispenseWithRetries(withSubstitution(unit, context.substitutions[key]));
+
+      // A fault of the spring itself (jammed, empty) can be worked around from another spring,
+      // but only once vm-service confirmed nothing was dispensed
+      const isSpringFault = (result: DispenseFailure | null) =>
+        result?.kind === 'hard' && result.springFault && result.rejected;
+      if (isSpringFault(failure)) {
+        const tried = [unit.springId, context.substitutions[key]?.springId].filter((id): id is string => !!id);
+        for (const alternate of await loadAlternates(unit, tried)) {
+          const selectionNumber = parseInt(alternate.selection_number, 10);
+          if (!selectionNumber) continue;
+
+          console.log(`Dispensing ${unit.name} from alternate selection ${selectionNumber}`);
+          dispatch({ type: 'UNIT_SUBSTITUTED', unit, substitution: { springId: alternate.id, selectionNumber } });
+          failure = await dispenseWithRetries(withSubstitution(unit, context.substitutions[key]));
+          if (!isSpringFault(failure)) break;
+        }
+      }
+
+      // The unit stays pending: resuming reconciles it with vm-service and resends with the same key
+      if (failure?.kind === 'abort') {
+        dispatch({ type: 'INTERRUPTED', error: `Dispensing stopped: ${failure.reason}` });
+        return context;
+      }
+
+      const substitution = context.substitutions[key];
+      const metadata = substitution
+        ? {
+            unit_index: unit.unitIndex,
+            original_spring_id: unit.springId,
+            original_selection_number: unit.selectionNumber,
+            substituted_spring_id: substitution.springId,
+            substituted_selection_number: substitution.selectionNumber,
+          }
+        : undefined;
+
+      if (failure === null) {
+        dispatch({ type: 'UNIT_SUCCEEDED', unit });
+        await reportStatus(unit.orderItemId, 'success', undefined, metadata);
+      } else {
+        dispatch({ type: 'UNIT_FAILED', unit, reason: failure.reason });
+        await reportStatus(unit.orderItemId, 'failed', failure.reason, metadata);
+      }
+    }
+    dispatch({ type: 'UNITS_FINISHED' });
+
+    // Step 4: Complete dispense process (skipped when it already happened)
+    if (!backendFinished) {
+      await flushStatusUpdates();
+    }
+    if (context.orderStatus) {
+      dispatch({ type: 'COMPLETED', orderStatus: context.orderStatus });
+    } else if (backendFinished) {
+      dispatch({ type: 'COMPLETED', orderStatus: paidOrder.order_status });
+    } else {
+      const completeResult = await api.completeDispense(orderId);
+      dispatch({ type: 'COMPLETED', orderStatus: completeResult.data.order_status });
+    }
+
+    // Step 5: Refund failed units
+    if (context.state === 'refunding') {
+      const refundItems = capRefundItems(context.refundItems, fromMajor(paidOrder.total_amount, paidOrder.currency));
+      // Refund items are in vm-service's major units; rounding drops the float noise of the sum
+      const amount = fromMajor(
+        refundItems.reduce((total, item) => total + item.total_price, 0),
+        paidOrder.currency
+      );
+      try {
+        const existingRefund = context.refund;
+        const refundResult = existingRefund
+          ? null
+          : await api.createRefund(orderId, {
+              refund_amount: toMajor(amount),
+              refund_reason: 'Product dispense failed',
+              refund_type: 'failed_dispense',
+              failed_items: refundItems,
+            });
+        const refundId = existingRefund?.id ?? refundResult!.data.id;
+
+        let processed = existingRefund?.processed ?? false;
+        if (!processed) {
+          try {
+            await api.processRefund(refundId);
+            processed = true;
+          } catch (processError) {
+            console.error('Failed to process refund:', processError);
+          }
+        }
+
+        dispatch({
+          type: 'REFUNDED',
+          refund: {
+            id: refundId,
+            refundNumber: existingRefund?.refundNumber ?? refundResult!.data.refund_number,
+            amount: existingRefund?.amount ?? amount,
+            processed,
+          },
+        });
+      } catch (refundError) {
+        // The refund is still owed: resuming the run creates it
+        console.error('Failed to create refund:', refundError);
+        dispatch({ type: 'INTERRUPTED', error: errorMessage(refundError, 'Refund failed') });
+      }
+    }
+  } catch (error) {
+    console.error('Dispense error:', error);
+    const message = errorMessage(error, 'Failed to dispense products');
+    dispatch(context.dispenseStarted ? { type: 'INTERRUPTED', error: message } : { type: 'FAILED', error: message });
+  }
+
+  return context;
+}
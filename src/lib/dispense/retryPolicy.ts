@@ -0,0 +1,129 @@
+/**
+ * Dispense retry policy
+ *
+ * Decides whether a failed dispense attempt for a single unit is worth
+ * repeating. Transient failures (timeout, VM busy, network, VM offline) are
+ * retried up to `maxRetries` times with a growing delay; hard failures (spring
+ * jammed or empty, unknown refusals) are not retried. Only a fault of the
+ * spring itself is worth trying from another spring.
+ *
+ * Errors about the request rather than the machine (conflict, auth,
+ * validation, cancelled) abort the run: whether the unit came out is then
+ * settled with vm-service when the run is resumed.
+ *
+ * @module lib/dispense/retryPolicy
+ */
+
+import { VM } from '@/config/constants';
+import {
+  VmServiceError,
+  NetworkError,
+  TimeoutError,
+  VMOfflineError,
+  ConflictError,
+  ValidationError,
+  AuthError,
+  RequestCancelledError,
+} from '@/lib/api/errors';
+import type { DispenseResponse } from '@/lib/api/vmService';
+
+export interface DispenseRetryPolicy {
+  /** Retries after the first attempt for transient failures */
+  maxRetries: number;
+  /** Delay before the first retry in milliseconds, doubled on each further retry */
+  retryDelay: number;
+  /** Timeout per dispense attempt in milliseconds */
+  attemptTimeout: number;
+}
+
+export const defaultDispenseRetryPolicy: DispenseRetryPolicy = {
+  maxRetries: VM.DISPENSE_MAX_RETRIES,
+  retryDelay: VM.DISPENSE_POLL_INTERVAL,
+  attemptTimeout: VM.DISPENSE_TIMEOUT,
+};
+
+export type DispenseFailureKind = 'transient' | 'hard' | 'abort';
+
+export interface DispenseFailure {
+  kind: DispenseFailureKind;
+  reason: string;
+  /** Whether the spring itself failed (jammed, empty, motor), so another spring may still dispense the unit */
+  springFault: boolean;
+  /**
+   * Whether vm-service answered that nothing was dispensed. Only then may the
+   * next attempt use a new idempotency key; otherwise the first command may
+   * still have gone through and must be replayed with the same key.
+   */
+  rejected: boolean;
+}
+
+/**
+ * Backend codes and message fragments for failures that may clear up on their own
+ */
+const TRANSIENT_CODES = ['VM_BUSY', 'VM_OFFLINE', 'VM_DISCONNECTED', 'VM_NOT_CONNECTED', 'DISPENSE_TIMEOUT', 'TIMEOUT'];
+const TRANSIENT_MESSAGE = /busy|timed? ?out|temporar|try again|not connected|offline/i;
+
+/**
+ * Backend codes and message fragments for failures that won't (the machine needs service)
+ */
+const HARD_CODES = ['SPRING_JAMMED', 'SPRING_EMPTY', 'OUT_OF_STOCK', 'MOTOR_FAULT', 'INVALID_SELECTION'];
+const HARD_MESSAGE = /jam|empty|out of stock|sold out|motor|invalid selection/i;
+
+function classifyText(code: string, message: string): DispenseFailureKind | null {
+  if (HARD_CODES.includes(code) || HARD_MESSAGE.test(message)) return 'hard';
+  if (TRANSIENT_CODES.includes(code) || TRANSIENT_MESSAGE.test(message)) return 'transient';
+  return null;
+}
+
+/**
+ * Classify an unsuccessful dispense response from vm-service
+ */
+export function classifyDispenseResponse(response: DispenseResponse): DispenseFailure {
+  const reason = response.message || 'Dispense failed';
+  const rawCode = (response as { code?: unknown; error_code?: unknown }).code ?? (response as { error_code?: unknown }).error_code;
+  const code = typeof rawCode === 'string' ? rawCode.toUpperCase() : '';
+
+  // Unknown refusals are treated as hard: the unit is refunded instead of risking a loop
+  const kind = classifyText(code, reason) ?? 'hard';
+  return { kind, reason, springFault: kind === 'hard', rejected: true };
+}
+
+/**
+ * Classify an error thrown by the dispense call
+ */
+export function classifyDispenseError(error: unknown): DispenseFailure {
+  const reason = error instanceof Error ? error.message : 'Unknown error';
+
+  // No answer: the command may or may not have reached the VM
+  if (error instanceof NetworkError || error instanceof TimeoutError) {
+    return { kind: 'transient', reason, springFault: false, rejected: false };
+  }
+  if (error instanceof VMOfflineError) {
+    return { kind: 'transient', reason, springFault: false, rejected: true };
+  }
+  // The request was refused before the machine was involved; a new key could dispense twice
+  if (
+    error instanceof ConflictError ||
+    error instanceof ValidationError ||
+    error instanceof AuthError ||
+    error instanceof RequestCancelledError
+  ) {
+    return { kind: 'abort', reason, springFault: false, rejected: false };
+  }
+  if (error instanceof VmServiceError) {
+    const code = typeof error.code === 'string' ? error.code.toUpperCase() : '';
+    const known = classifyText(code, reason);
+    const kind = known ?? (error.isRetryable ? 'transient' : 'hard');
+    // 5xx without a known code: the VM may have acted before the server failed
+    return { kind, reason, springFault: known === 'hard', rejected: !error.isRetryable || kind === 'hard' };
+  }
+
+  return { kind: 'hard', reason, springFault: false, rejected: false };
+}
+
+/**
+ * Delay before a retry (`retry` starts at 1)
+ */
+export function getRetryDelay(policy: DispenseRetryPolicy, retry: number): number {
+  return policy.retryDelay * Math.pow(2, retry - 1);
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CurrencyMismatchError,
+  add,
+  formatMoney,
+  fromLegacyAmount,
+  fromMajor,
+  getMinorUnitDigits,
+  money,
+  multiply,
+  roundMinor,
+  subtract,
+  sum,
+  toMajor,
+} from './money';
+
+describe('roundMinor', () => {
+  it('rounds half away from zero by default', () => {
+    expect(roundMinor(2.5)).toBe(3);
+    expect(roundMinor(-2.5)).toBe(-3);
+    expect(roundMinor(2.4999)).toBe(2);
+  });
+
+  it('drops float noise before rounding', () => {
+    // 1.005 * 100 is 100.49999999999999 in floating point
+    expect(roundMinor(1.005 * 100)).toBe(101);
+    // 6 * (1 / 3) is 1.9999999999999998
+    expect(roundMinor(6 * (1 / 3), 'down')).toBe(2);
+  });
+
+  it('rounds in the requested mode', () => {
+    expect(roundMinor(2.5, 'half-even')).toBe(2);
+    expect(roundMinor(3.5, 'half-even')).toBe(4);
+    expect(roundMinor(2.9, 'down')).toBe(2);
+    expect(roundMinor(2.1, 'up')).toBe(3);
+    expect(roundMinor(-2.9, 'down')).toBe(-2);
+  });
+});
+
+describe('money', () => {
+  it('refuses fractions of a minor unit', () => {
+    expect(() => money(10.5, 'SEK')).toThrow(RangeError);
+  });
+
+  it('converts between major and minor units by the currency', () => {
+    expect(getMinorUnitDigits('SEK')).toBe(2);
+    expect(getMinorUnitDigits('JPY')).toBe(0);
+    expect(fromMajor(40.5, 'SEK')).toEqual(money(4050, 'SEK'));
+    expect(fromMajor(0.1 + 0.2, 'SEK')).toEqual(money(30, 'SEK'));
+    expect(fromMajor(500, 'JPY')).toEqual(money(500, 'JPY'));
+    expect(toMajor(money(4050, 'SEK'))).toBe(40.5);
+  });
+
+  it('reads amounts persisted as major-unit numbers', () => {
+    expect(fromLegacyAmount(25.5)).toEqual(fromMajor(25.5));
+    expect(fromLegacyAmount(money(100, 'INR'))).toEqual(money(100, 'INR'));
+  });
+});
+
+describe('arithmetic', () => {
+  it('adds up exactly', () => {
+    const tenOre = money(10, 'SEK');
+    expect(sum([tenOre, money(20, 'SEK')])).toEqual(money(30, 'SEK'));
+    expect(subtract(money(100, 'SEK'), tenOre)).toEqual(money(90, 'SEK'));
+    expect(sum([], 'INR')).toEqual(money(0, 'INR'));
+  });
+
+  it('rounds a multiplied amount to whole minor units', () => {
+    expect(multiply(money(1999, 'SEK'), 3)).toEqual(money(5997, 'SEK'));
+    expect(multiply(money(1000, 'SEK'), 1 / 3)).toEqual(money(333, 'SEK'));
+    expect(multiply(money(1000, 'SEK'), 2 / 3, 'down')).toEqual(money(666, 'SEK'));
+  });
+
+  it('refuses to combine currencies', () => {
+    expect(() => add(money(100, 'SEK'), money(100, 'INR'))).toThrow(CurrencyMismatchError);
+  });
+});
+
+describe('formatMoney', () => {
+  it('leaves out the decimals of whole amounts unless asked for them', () => {
+    const whole = formatMoney(money(2500, 'SEK'));
+    expect(whole).toContain('25');
+    expect(whole).not.toMatch(/25[.,]00/);
+    expect(formatMoney(money(2500, 'SEK'), { decimals: 'always' })).toMatch(/25[.,]00/);
+    expect(formatMoney(money(2550, 'SEK'))).toMatch(/25[.,]50/);
+  });
+});
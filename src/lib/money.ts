@@ -0,0 +1,163 @@
+/**
+ * Money arithmetic and formatting
+ *
+ * Amounts are integers in the currency's minor unit (see `Money` in lib/types),
+ * so totals add up exactly. vm-service orders and refunds are in major units
+ * (40.5 SEK) and payment gateways in minor units (4050 öre, paise, cents):
+ * convert with `fromMajor` / `toMajor` at those boundaries only.
+ *
+ * Rounding happens only where a fraction of a minor unit can appear
+ * (converting major units, multiplying by a non-integer factor) and is half
+ * away from zero unless another mode is asked for.
+ *
+ * @module lib/money
+ */
+
+import { APP_METADATA, CURRENCY } from '@/config/constants';
+import type { Money } from '@/lib/types';
+
+export type RoundingMode = 'half-up' | 'half-even' | 'down' | 'up';
+
+/**
+ * Arithmetic on amounts in different currencies
+ */
+export class CurrencyMismatchError extends Error {
+  constructor(a: string, b: string) {
+    super(`Cannot combine amounts in ${a} and ${b}`);
+    this.name = 'CurrencyMismatchError';
+  }
+}
+
+const minorUnitDigits = new Map<string, number>();
+
+/**
+ * Number of decimals in the currency's minor unit (2 for SEK and INR, 0 for JPY)
+ */
+export function getMinorUnitDigits(currency: string): number {
+  let digits = minorUnitDigits.get(currency);
+  if (digits === undefined) {
+    digits = new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits;
+    minorUnitDigits.set(currency, digits);
+  }
+  return digits;
+}
+
+/**
+ * Round a fractional amount of minor units to an integer
+ */
+export function roundMinor(value: number, mode: RoundingMode = 'half-up'): number {
+  // Drop float noise first (100.49999999999999 is meant to be 100.5)
+  const clean = Number(value.toPrecision(15));
+  const magnitude = Math.abs(clean);
+  const sign = clean < 0 ? -1 : 1;
+  const whole = Math.floor(magnitude);
+  const fraction = magnitude - whole;
+
+  let rounded: number;
+  switch (mode) {
+    case 'down':
+      rounded = whole;
+      break;
+    case 'up':
+      rounded = fraction > 0 ? whole + 1 : whole;
+      break;
+    case 'half-even':
+      rounded = fraction > 0.5 || (fraction === 0.5 && whole % 2 === 1) ? whole + 1 : whole;
+      break;
+    case 'half-up':
+      rounded = fraction >= 0.5 ? whole + 1 : whole;
+      break;
+  }
+  return sign * rounded || 0;
+}
+
+/**
+ * An amount in minor units
+ */
+export function money(amount: number, currency: string = CURRENCY.DEFAULT): Money {
+  if (!Number.isSafeInteger(amount)) {
+    throw new RangeError(`Money amounts are whole minor units, got ${amount} ${currency}`);
+  }
+  return { amount, currency };
+}
+
+export function zero(currency: string = CURRENCY.DEFAULT): Money {
+  return { amount: 0, currency };
+}
+
+/**
+ * An amount given in major units (as vm-service reports prices and totals)
+ */
+export function fromMajor(major: number, currency: string = CURRENCY.DEFAULT, mode: RoundingMode = 'half-up'): Money {
+  return money(roundMinor(major * 10 ** getMinorUnitDigits(currency), mode), currency);
+}
+
+/**
+ * The amount in major units (as vm-service expects prices and totals)
+ */
+export function toMajor(value: Money): number {
+  return value.amount / 10 ** getMinorUnitDigits(value.currency);
+}
+
+function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) {
+    throw new CurrencyMismatchError(a.currency, b.currency);
+  }
+}
+
+export function add(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return money(a.amount + b.amount, a.currency);
+}
+
+export function subtract(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return money(a.amount - b.amount, a.currency);
+}
+
+/**
+ * Multiply by a quantity or a rate; a fractional result is rounded to whole minor units
+ */
+export function multiply(value: Money, factor: number, mode: RoundingMode = 'half-up'): Money {
+  return money(roundMinor(value.amount * factor, mode), value.currency);
+}
+
+/**
+ * Total of several amounts; `currency` is the currency of an empty list
+ */
+export function sum(values: Money[], currency: string = CURRENCY.DEFAULT): Money {
+  return values.reduce(add, zero(values[0]?.currency ?? currency));
+}
+
+export function equals(a: Money, b: Money): boolean {
+  return a.currency === b.currency && a.amount === b.amount;
+}
+
+/**
+ * Amount persisted before amounts were Money (a number in major units)
+ */
+export function fromLegacyAmount(value: number | Money): Money;
+export function fromLegacyAmount(value: number | Money | undefined): Money | undefined;
+export function fromLegacyAmount(value: number | Money | undefined): Money | undefined {
+  return typeof value === 'number' ? fromMajor(value) : value;
+}
+
+/**
+ * Format an amount for the customer, in the currency's own locale
+ *
+ * @param options.decimals - `auto` leaves out the decimals of whole amounts
+ *   (prices, totals); `always` shows them (receipts)
+ */
+export function formatMoney(value: Money, options: { decimals?: 'auto' | 'always' } = {}): string {
+  const digits = getMinorUnitDigits(value.currency);
+  const major = toMajor(value);
+  const showDecimals = options.decimals === 'always' || !Number.isInteger(major);
+
+  return new Intl.NumberFormat(CURRENCY.LOCALES[value.currency] ?? APP_METADATA.DEFAULT_LOCALE, {
+    style: 'currency',
+    currency: value.currency,
+    currencyDisplay: 'code',
+    minimumFractionDigits: showDecimals ? digits : 0,
+    maximumFractionDigits: digits,
+  }).format(major);
+}
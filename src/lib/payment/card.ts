@@ -0,0 +1,123 @@
+/**
+ * Card helpers
+ *
+ * Card payments are created by vm-service (see createCardPayment) as Stripe
+ * PaymentIntents. The card details never touch the app: Stripe's hosted
+ * Payment Element collects them and runs the 3-D Secure challenge when the
+ * issuer asks for one. The result arrives as a status change of the payment.
+ *
+ * @module lib/payment/card
+ */
+
+import { env } from '@/config/env';
+import { PAYMENT } from '@/config/constants';
+import type { CardPayment } from '@/lib/api/vmService';
+
+/**
+ * The parts of Stripe.js the card form uses
+ */
+export interface StripePaymentElement {
+  on(event: 'ready', handler: () => void): void;
+  mount(container: HTMLElement): void;
+  destroy(): void;
+}
+
+export interface StripeElements {
+  create(type: 'payment', options?: { layout?: 'tabs' | 'accordion' }): StripePaymentElement;
+}
+
+export interface StripeConfirmResult {
+  error?: { type: string; message?: string };
+  paymentIntent?: { id: string; status: string };
+}
+
+export interface StripeClient {
+  elements(options: { clientSecret: string }): StripeElements;
+  confirmPayment(options: {
+    elements: StripeElements;
+    confirmParams: { return_url: string };
+    redirect: 'if_required' | 'always';
+  }): Promise<StripeConfirmResult>;
+}
+
+// Stripe.js types
+declare global {
+  interface Window {
+    Stripe?: (publishableKey: string) => StripeClient;
+  }
+}
+
+/**
+ * Payment statuses reported by Stripe
+ */
+export const CARD_STATUS = {
+  REQUIRES_PAYMENT_METHOD: 'requires_payment_method',
+  REQUIRES_CONFIRMATION: 'requires_confirmation',
+  REQUIRES_ACTION: 'requires_action',
+  PROCESSING: 'processing',
+  SUCCEEDED: 'succeeded',
+  CANCELED: 'canceled',
+} as const;
+
+export type CardStatus = typeof CARD_STATUS[keyof typeof CARD_STATUS];
+
+/**
+ * Whether the payment has ended (succeeded or cancelled); a declined card can still be retried
+ */
+export function isCardPaymentFinal(status: string | null | undefined): boolean {
+  return status === CARD_STATUS.SUCCEEDED || status === CARD_STATUS.CANCELED;
+}
+
+/**
+ * Whether a payment attempt was declined: the payment is back to waiting for a card, with an error
+ */
+export function isCardAttemptDeclined(payment: CardPayment): boolean {
+  return (
+    payment.status === CARD_STATUS.REQUIRES_PAYMENT_METHOD && !!(payment.error_code || payment.error_message)
+  );
+}
+
+/**
+ * Customer-facing message for a card payment that did not succeed
+ */
+export function getCardFailureMessage(status: string, errorMessage?: string | null): string {
+  switch (status) {
+    case CARD_STATUS.CANCELED:
+      return 'The card payment was cancelled. Your items are still in the cart.';
+    case CARD_STATUS.REQUIRES_PAYMENT_METHOD:
+      return errorMessage || 'Your card was declined. Please try another card.';
+    default:
+      return errorMessage || 'The card payment could not be completed. Please try again.';
+  }
+}
+
+let stripeScript: Promise<void> | null = null;
+let stripeInstance: StripeClient | null = null;
+
+/**
+ * Load Stripe.js once and return the Stripe instance for the configured publishable key
+ */
+export async function loadStripe(): Promise<StripeClient> {
+  if (stripeInstance) return stripeInstance;
+
+  if (!window.Stripe) {
+    if (!stripeScript) {
+      stripeScript = new Promise<void>((resolve, reject) => {
+        const script = document.createElement('script');
+        script.src = PAYMENT.CARD.SCRIPT_URL;
+        script.async = true;
+        script.onload = () => resolve();
+        script.onerror = () => {
+          stripeScript = null;
+          script.remove();
+          reject(new Error('Could not load the card form. Please check your connection and try again.'));
+        };
+        document.head.appendChild(script);
+      });
+    }
+    await stripeScript;
+  }
+
+  stripeInstance = window.Stripe(env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY);
+  return stripeInstance;
+}
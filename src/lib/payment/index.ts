@@ -0,0 +1,42 @@
+/**
+ * Payment providers
+ *
+ * Import payment functionality from here: it registers the built-in providers
+ * before exposing the registry.
+ *
+ * @module lib/payment
+ */
+
+import { registerPaymentProvider } from './registry';
+import { razorpayProvider } from './providers/razorpay';
+import { swishProvider } from './providers/swish';
+import { cardProvider } from './providers/card';
+import { testProvider } from './providers/test';
+
+registerPaymentProvider(swishProvider);
+registerPaymentProvider(cardProvider);
+registerPaymentProvider(razorpayProvider);
+registerPaymentProvider(testProvider);
+
+export {
+  registerPaymentProvider,
+  getPaymentProvider,
+  getConfiguredPaymentMethods,
+  getAvailablePaymentProviders,
+} from './registry';
+export { razorpayProvider } from './providers/razorpay';
+export { swishProvider, SWISH_RETURN_PARAM } from './providers/swish';
+export { cardProvider, CARD_RETURN_PARAM, getCardReturnUrl } from './providers/card';
+export { testProvider, type TestPaymentSession } from './providers/test';
+export { assertSingleMachine, buildCreateOrderRequest, buildPaidOrder } from './order';
+export { reconcilePendingPayment, getPaymentRecoveryMessage, type PaymentRecoveryAction } from './recovery';
+export type {
+  PaymentApi,
+  PaymentOrder,
+  PaymentSession,
+  PaymentLaunchResult,
+  PaymentLaunchOptions,
+  PaidPayment,
+  PaymentCapabilities,
+  PaymentProvider,
+} from './types';
@@ -0,0 +1,149 @@
+/**
+ * Paid orders
+ *
+ * @module lib/payment/order
+ */
+
+import type { CartItem, Money, Order, PaymentMethod } from '@/lib/types';
+import type { CreateOrderRequest } from '@/lib/api/vmService';
+import { PaymentError } from '@/lib/api/errors';
+import { equals, money, toMajor } from '@/lib/money';
+import type { TaxBreakdown } from '@/lib/tax';
+import { getLineDiscounts, type AppliedDiscount, type PromotionResult } from '@/lib/promotions';
+import type { CartScope } from '@/lib/stores/cartStore';
+import { formatPrice } from '@/lib/utils/formatters';
+import type { PaymentOrder } from './types';
+
+/**
+ * The vm-service order for a cart, as validated before payment and then created
+ *
+ * Prices, deposits and the total's rounding are sent in major units. Applied
+ * promotions go in the metadata for vm-service to validate and price in.
+ */
+export function buildCreateOrderRequest({
+  items,
+  scope,
+  tax,
+  promotions,
+  couponCode,
+  paymentMethod,
+}: {
+  items: CartItem[];
+  scope: CartScope;
+  tax: TaxBreakdown;
+  promotions?: PromotionResult;
+  couponCode?: string | null;
+  paymentMethod?: PaymentMethod;
+}): CreateOrderRequest {
+  const discounts = promotions?.discounts ?? [];
+
+  return {
+    store_id: scope.storeId,
+    vm_id: scope.vmId,
+    items: items.map((item) => ({
+      spring_id: item.product.id,
+      selection_number: item.product.selectionNumber?.toString() || '0',
+      quantity: item.quantity,
+      unit_price: toMajor(item.product.price),
+      tax_rate: item.product.taxRate,
+      deposit_amount: item.product.depositAmount ? toMajor(item.product.depositAmount) : undefined,
+    })),
+    rounding_amount: tax.rounding.amount !== 0 ? toMajor(tax.rounding) : undefined,
+    metadata: {
+      ...(paymentMethod && { payment_method: paymentMethod }),
+      tax_region: tax.rules.region,
+      ...(couponCode && { coupon_code: couponCode }),
+      ...(discounts.length > 0 && {
+        discount_amount: toMajor(promotions.total),
+        discounts: discounts.map((discount) => ({
+          promotion_id: discount.promotionId,
+          code: discount.code,
+          amount: toMajor(discount.amount),
+          items: discount.lines.map((line) => ({ spring_id: line.productId, amount: toMajor(line.amount) })),
+        })),
+      }),
+    },
+  };
+}
+
+/**
+ * The order handed to /dispensing once its payment is confirmed
+ */
+export function buildPaidOrder({
+  orderId,
+  items,
+  total,
+  discounts = [],
+  paymentMethod,
+  referenceNumber,
+}: {
+  orderId: string;
+  items: CartItem[];
+  total: Money;
+  discounts?: AppliedDiscount[];
+  paymentMethod: PaymentMethod;
+  referenceNumber: string;
+}): Order {
+  const lineDiscounts = getLineDiscounts(discounts);
+  return {
+    id: orderId,
+    items: items.map((item) => ({
+      productId: item.product.id,
+      name: item.product.name,
+      price: item.product.price,
+      quantity: item.quantity,
+      taxRate: item.product.taxRate,
+      depositAmount: item.product.depositAmount,
+      discount: lineDiscounts[item.product.id],
+    })),
+    totalAmount: total,
+    discounts: discounts.map(({ lines: _lines, ...discount }) => discount),
+    paymentMethod,
+    paymentDate: new Date(),
+    referenceNumber,
+    dispensed: false,
+  };
+}
+
+/**
+ * Refuse to create one order for products of several vending machines
+ *
+ * A vm-service order, and the dispense run after it, belongs to one machine.
+ * Carts are scoped to one (see stores/cartStore), but a cart persisted before
+ * that can still mix them; it is refused rather than split into several payments.
+ */
+export function assertSingleMachine(items: CartItem[]): void {
+  const machines = new Set(
+    items
+      .filter((item) => item.product.storeId && item.product.vmId)
+      .map((item) => `${item.product.storeId}:${item.product.vmId}`)
+  );
+  if (machines.size > 1) {
+    throw new PaymentError(
+      'Your cart holds products from more than one vending machine. Please go back to the cart and keep the products of one machine.'
+    );
+  }
+}
+
+/**
+ * Refuse to start a payment the gateway would charge differently than the
+ * customer was shown (gateways report amounts in minor units)
+ *
+ * @param gateway - Name used in the error message
+ */
+export function assertGatewayAmount(
+  order: PaymentOrder,
+  gateway: string,
+  amount: number | null | undefined,
+  currency: string | null | undefined
+): void {
+  // Not every gateway response carries the amount
+  if (amount == null || !currency) return;
+
+  const charged = money(amount, currency.toUpperCase());
+  if (!equals(charged, order.amount)) {
+    throw new PaymentError(
+      `${gateway} would charge ${formatPrice(charged)} for order ${order.orderNumber}, not ${formatPrice(order.amount)}.`
+    );
+  }
+}
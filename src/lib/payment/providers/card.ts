@@ -0,0 +1,66 @@
+/**
+ * Card payment provider
+ *
+ * vm-service creates the card payment with Stripe; the page renders CardPayment
+ * (Stripe's hosted Payment Element, including 3-D Secure) and the result is
+ * confirmed by reading the payment back from vm-service.
+ *
+ * @module lib/payment/providers/card
+ */
+
+import { env } from '@/config/env';
+import { PaymentError } from '@/lib/api/errors';
+import type { CardPayment } from '@/lib/api/vmService';
+import { CARD_STATUS } from '../card';
+import type { PaymentProvider } from '../types';
+import { assertGatewayAmount } from '../order';
+import { refundThroughVmService } from './refund';
+
+/**
+ * Query parameter carrying the payment ID when a 3-D Secure redirect returns to the page
+ */
+export const CARD_RETURN_PARAM = 'cardPaymentId';
+
+/**
+ * Page a 3-D Secure redirect returns to
+ */
+export function getCardReturnUrl(paymentId: string): string {
+  return `${window.location.origin}${window.location.pathname}?${CARD_RETURN_PARAM}=${paymentId}`;
+}
+
+export const cardProvider: PaymentProvider<CardPayment> = {
+  method: 'card',
+  label: 'Card',
+  capabilities: { cancel: false, refund: true, embeddedUi: true },
+
+  isConfigured: () => !!env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY,
+
+  createSession: async (order, api) => {
+    const response = await api.createCardPayment(order.orderId);
+    console.log('Card payment created:', response.data.id);
+    assertGatewayAmount(order, 'Card', response.data.amount, response.data.currency);
+    return { method: 'card', orderId: order.orderId, data: response.data };
+  },
+
+  verify: async (session, _result, api) => {
+    // Trust vm-service, not what the card form reported
+    const { data: payment } = await api.getCardPayment(session.data.id);
+    if (payment.status !== CARD_STATUS.SUCCEEDED) {
+      throw new PaymentError(`Card payment is not paid (status: ${payment.status})`);
+    }
+    return {
+      orderId: payment.order_id,
+      referenceNumber: payment.payment_reference || payment.id,
+    };
+  },
+
+  refund: refundThroughVmService,
+
+  restoreSession: async (params, api) => {
+    const paymentId = params.get(CARD_RETURN_PARAM);
+    if (!paymentId) return null;
+
+    const { data: payment } = await api.getCardPayment(paymentId);
+    return { method: 'card', orderId: payment.order_id, data: payment };
+  },
+};
@@ -0,0 +1,172 @@
+/**
+ * Razorpay payment provider
+ *
+ * vm-service creates the Razorpay order; the Razorpay Checkout modal (loaded on
+ * first use) collects the payment and its signature is verified by vm-service.
+ *
+ * @module lib/payment/providers/razorpay
+ */
+
+import { env } from '@/config/env';
+import { PAYMENT } from '@/config/constants';
+import type { RazorpayOrderResponse } from '@/lib/api/vmService';
+import type { PaymentLaunchResult, PaymentProvider } from '../types';
+import { assertGatewayAmount } from '../order';
+import { refundThroughVmService } from './refund';
+
+const CHECKOUT_SCRIPT_URL = 'https://checkout.razorpay.com/v1/checkout.js';
+
+/**
+ * Checkout's answer for a completed payment, verified by vm-service
+ */
+interface RazorpaySuccessResponse {
+  razorpay_order_id: string;
+  razorpay_payment_id: string;
+  razorpay_signature: string;
+}
+
+interface RazorpayFailureResponse {
+  error?: { code?: string; description?: string; reason?: string };
+}
+
+/**
+ * The parts of Razorpay Checkout's options the provider sets
+ */
+interface RazorpayCheckoutOptions {
+  key: string;
+  amount: number;
+  currency: string;
+  name: string;
+  description: string;
+  order_id: string;
+  handler: (response: RazorpaySuccessResponse) => void;
+  prefill?: { name?: string; email?: string; contact?: string };
+  theme?: { color?: string };
+  modal?: { ondismiss?: () => void };
+}
+
+interface RazorpayCheckout {
+  open(): void;
+  close(): void;
+  on(event: 'payment.failed', handler: (response: RazorpayFailureResponse) => void): void;
+}
+
+// Razorpay types
+declare global {
+  interface Window {
+    Razorpay?: new (options: RazorpayCheckoutOptions) => RazorpayCheckout;
+  }
+}
+
+let checkoutScript: Promise<void> | null = null;
+
+/**
+ * Load Razorpay Checkout once
+ */
+function loadCheckout(): Promise<void> {
+  if (typeof window !== 'undefined' && window.Razorpay) {
+    return Promise.resolve();
+  }
+  if (!checkoutScript) {
+    checkoutScript = new Promise<void>((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = CHECKOUT_SCRIPT_URL;
+      script.async = true;
+      script.onload = () => resolve();
+      script.onerror = () => {
+        checkoutScript = null;
+        script.remove();
+        reject(new Error('Could not load the Razorpay checkout. Please check your connection and try again.'));
+      };
+      document.head.appendChild(script);
+    });
+  }
+  return checkoutScript;
+}
+
+export const razorpayProvider: PaymentProvider<RazorpayOrderResponse> = {
+  method: 'razorpay',
+  label: 'Razorpay',
+  capabilities: { cancel: false, refund: true, embeddedUi: false },
+
+  isConfigured: () => !!env.NEXT_PUBLIC_RAZORPAY_KEY_ID,
+
+  createSession: async (order, api) => {
+    const razorpayOrder = await api.createRazorpayOrder(order.orderId);
+    console.log('Razorpay order created:', razorpayOrder);
+    assertGatewayAmount(order, 'Razorpay', razorpayOrder.amount, razorpayOrder.currency);
+    return { method: 'razorpay', orderId: order.orderId, data: razorpayOrder };
+  },
+
+  launch: async (session, options = {}) => {
+    await loadCheckout();
+    if (options.signal?.aborted) {
+      return { status: 'expired' };
+    }
+
+    return new Promise<PaymentLaunchResult>((resolve) => {
+      const razorpay = new window.Razorpay({
+        key: env.NEXT_PUBLIC_RAZORPAY_KEY_ID,
+        amount: session.data.amount, // Amount in paise
+        currency: session.data.currency,
+        name: PAYMENT.RAZORPAY.MERCHANT_NAME,
+        description: `Order ${session.data.order_number}`,
+        order_id: session.data.razorpay_order_id,
+        handler: (response) => {
+          console.log('Payment successful, verifying...', response);
+          resolve({ status: 'approved', data: response });
+        },
+        prefill: {
+          name: '',
+          email: '',
+          contact: '',
+        },
+        theme: {
+          color: PAYMENT.RAZORPAY.THEME_COLOR,
+        },
+        modal: {
+          ondismiss: () => {
+            console.log('Payment cancelled by user');
+            resolve({ status: 'cancelled' });
+          },
+        },
+      });
+
+      // The checkout stays open after a failed attempt, so the payer can try again
+      razorpay.on('payment.failed', (response) => {
+        console.error('Payment failed:', response.error);
+        options.onAttemptFailed?.(
+          response.error?.description || 'Your payment could not be processed. Please try again.'
+        );
+      });
+      razorpay.open();
+
+      options.signal?.addEventListener(
+        'abort',
+        () => {
+          console.log('Payment timed out, closing checkout');
+          resolve({ status: 'expired' });
+          razorpay.close();
+        },
+        { once: true }
+      );
+    });
+  },
+
+  verify: async (_session, result, api) => {
+    const response = result.data as RazorpaySuccessResponse;
+    const verified = await api.verifyPayment({
+      razorpay_order_id: response.razorpay_order_id,
+      razorpay_payment_id: response.razorpay_payment_id,
+      razorpay_signature: response.razorpay_signature,
+    });
+    console.log('Payment verified:', verified);
+
+    return {
+      orderId: verified.data.id,
+      referenceNumber: verified.data.razorpay_payment_id || '',
+    };
+  },
+
+  refund: refundThroughVmService,
+};
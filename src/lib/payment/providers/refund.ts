@@ -0,0 +1,31 @@
+/**
+ * Refunds through vm-service
+ *
+ * vm-service refunds a paid order through whichever gateway took the payment,
+ * so providers share this implementation.
+ *
+ * @module lib/payment/providers/refund
+ */
+
+import type { RefundRequest } from '@/lib/api/vmService';
+import type { PaymentApi } from '../types';
+
+/**
+ * Create a refund for an order and process it right away
+ *
+ * A failure to process is logged, not thrown: the refund exists and can be
+ * processed later by support.
+ */
+export async function refundThroughVmService(
+  orderId: string,
+  request: RefundRequest,
+  api: Pick<PaymentApi, 'createRefund' | 'processRefund'>
+) {
+  const refund = await api.createRefund(orderId, request);
+  try {
+    await api.processRefund(refund.data.id);
+  } catch (error) {
+    console.error('Failed to process refund:', error);
+  }
+  return refund;
+}
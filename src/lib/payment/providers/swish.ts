@@ -0,0 +1,59 @@
+/**
+ * Swish payment provider
+ *
+ * vm-service creates the Swish payment request; the page renders SwishPayment
+ * (app deep link or QR code) until Swish reports a result, which is confirmed
+ * by reading the request back from vm-service.
+ *
+ * @module lib/payment/providers/swish
+ */
+
+import { PaymentError } from '@/lib/api/errors';
+import type { SwishPayment } from '@/lib/api/vmService';
+import { SWISH_STATUS } from '../swish';
+import type { PaymentProvider } from '../types';
+import { assertGatewayAmount } from '../order';
+import { refundThroughVmService } from './refund';
+
+/**
+ * Query parameter carrying the payment ID when the Swish app returns to the page
+ */
+export const SWISH_RETURN_PARAM = 'swishPaymentId';
+
+export const swishProvider: PaymentProvider<SwishPayment> = {
+  method: 'swish',
+  label: 'Swish',
+  capabilities: { cancel: false, refund: true, embeddedUi: true },
+
+  // Swish is configured in vm-service; nothing to set up in the app
+  isConfigured: () => true,
+
+  createSession: async (order, api) => {
+    const response = await api.createSwishPayment(order.orderId);
+    console.log('Swish payment created:', response.data);
+    assertGatewayAmount(order, 'Swish', response.data.amount, response.data.currency);
+    return { method: 'swish', orderId: order.orderId, data: response.data };
+  },
+
+  verify: async (session, _result, api) => {
+    // Trust vm-service, not the status the page last saw
+    const { data: payment } = await api.getSwishPayment(session.data.id);
+    if (payment.status.toUpperCase() !== SWISH_STATUS.PAID) {
+      throw new PaymentError(`Swish payment is not paid (status: ${payment.status})`);
+    }
+    return {
+      orderId: payment.order_id,
+      referenceNumber: payment.payment_reference || payment.id,
+    };
+  },
+
+  refund: refundThroughVmService,
+
+  restoreSession: async (params, api) => {
+    const paymentId = params.get(SWISH_RETURN_PARAM);
+    if (!paymentId) return null;
+
+    const { data: payment } = await api.getSwishPayment(paymentId);
+    return { method: 'swish', orderId: payment.order_id, data: payment };
+  },
+};
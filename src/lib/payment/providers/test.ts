@@ -0,0 +1,51 @@
+/**
+ * Test payment provider
+ *
+ * Fake gateway for local and demo builds (PAYMENT.TEST.ENABLED). The page
+ * renders TestPayment, where a scenario is picked (or run straight away when
+ * preset); a successful payment settles the order through vm-service's test
+ * payment endpoint so dispensing accepts it. scripts/payment-server.js serves
+ * that endpoint, and everything else the flow needs, without a vm-service.
+ *
+ * @module lib/payment/providers/test
+ */
+
+import { PAYMENT } from '@/config/constants';
+import { PaymentError } from '@/lib/api/errors';
+import { TEST_PAYMENT_SCENARIO, getPresetTestPaymentScenario, type TestPaymentScenario } from '../testPayment';
+import type { PaymentOrder, PaymentProvider } from '../types';
+import { refundThroughVmService } from './refund';
+
+export interface TestPaymentSession extends PaymentOrder {
+  /** Scenario to run without asking, if one was configured */
+  scenario: TestPaymentScenario | null;
+}
+
+export const testProvider: PaymentProvider<TestPaymentSession> = {
+  method: 'test',
+  label: 'Test payment',
+  capabilities: { cancel: false, refund: true, embeddedUi: true },
+
+  isConfigured: () => PAYMENT.TEST.ENABLED,
+
+  createSession: async (order) => ({
+    method: 'test',
+    orderId: order.orderId,
+    data: { ...order, scenario: getPresetTestPaymentScenario() },
+  }),
+
+  verify: async (session, result, api) => {
+    const { scenario } = (result.data ?? {}) as { scenario?: TestPaymentScenario };
+    if (scenario === TEST_PAYMENT_SCENARIO.VERIFICATION_FAILURE) {
+      throw new PaymentError('The test payment could not be verified.');
+    }
+
+    const { data: order } = await api.completeTestPayment(session.orderId);
+    return {
+      orderId: order.id,
+      referenceNumber: `TEST-${order.order_number}`,
+    };
+  },
+
+  refund: refundThroughVmService,
+};
@@ -0,0 +1,74 @@
+/**
+ * Pending payment reconciliation
+ *
+ * Before a payment UI opens, the payment page journals the order
+ * (paymentJournalStore). If the app is closed before the payment is reported
+ * back (e.g. the Razorpay handler never ran), the journal is still there on
+ * the next launch and the order is read back from vm-service to decide what
+ * the customer gets.
+ *
+ * @module lib/payment/recovery
+ */
+
+import { PAYMENT } from '@/config/constants';
+import type { Order as BackendOrder } from '@/lib/api/vmService';
+import type { PaymentJournalEntry } from '@/lib/stores/paymentJournalStore';
+
+const FINISHED_ORDER_STATUSES = ['completed', 'dispensed', 'partially_dispensed', 'failed', 'refunded', 'cancelled'];
+
+export type PaymentRecoveryAction =
+  /** Paid and verified recently: continue to /dispensing */
+  | { action: 'resume'; referenceNumber: string }
+  /** Paid, but the app cannot dispense it: offer a refund or support (support only when in progress) */
+  | { action: 'support'; reason: 'expired' | 'unverified' | 'in_progress' }
+  /** Not paid yet; check again on the next launch */
+  | { action: 'wait' }
+  /** Nothing left to do (never paid, cancelled, already dispensed or refunded) */
+  | { action: 'discard' };
+
+/**
+ * Decide what to do with a journaled payment, given the order as vm-service reports it
+ */
+export function reconcilePendingPayment(
+  entry: PaymentJournalEntry,
+  order: BackendOrder,
+  now = Date.now()
+): PaymentRecoveryAction {
+  const recent = now - entry.createdAt <= PAYMENT.RECOVERY_WINDOW;
+
+  if (order.payment_status === 'refunded' || FINISHED_ORDER_STATUSES.includes(order.order_status)) {
+    return { action: 'discard' };
+  }
+
+  if (order.payment_verified) {
+    if (order.order_status !== 'paid') {
+      // Dispensing started somewhere without a dispense journal on this device
+      return { action: 'support', reason: 'in_progress' };
+    }
+    // Dispensing long after the payment could hand the products to someone else
+    return recent
+      ? { action: 'resume', referenceNumber: order.razorpay_payment_id || order.order_number }
+      : { action: 'support', reason: 'expired' };
+  }
+
+  if (order.payment_status === 'paid') {
+    return { action: 'support', reason: 'unverified' };
+  }
+
+  // The gateway may still report the payment to vm-service
+  return recent ? { action: 'wait' } : { action: 'discard' };
+}
+
+/**
+ * Customer-facing explanation for a payment that needs a refund or support
+ */
+export function getPaymentRecoveryMessage(reason: 'expired' | 'unverified' | 'in_progress'): string {
+  switch (reason) {
+    case 'expired':
+      return 'We received your payment, but too much time has passed to dispense your products safely.';
+    case 'unverified':
+      return 'We received your payment, but it could not be confirmed, so your products were not dispensed.';
+    case 'in_progress':
+      return 'We received your payment, but dispensing was interrupted on another device or session. Please contact support with your order number so we can check what was dispensed.';
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Payment provider registry
+ *
+ * Providers register themselves by payment method. Which of them a store
+ * offers comes from configuration: `PAYMENT.STORE_METHODS` for a store with its
+ * own list, otherwise `PAYMENT.ENABLED_METHODS` (NEXT_PUBLIC_PAYMENT_METHODS).
+ * Providers missing their own configuration (e.g. no Razorpay key) are left out.
+ *
+ * @module lib/payment/registry
+ */
+
+import { PAYMENT } from '@/config/constants';
+import type { PaymentMethod } from '@/lib/types';
+import type { PaymentProvider } from './types';
+
+const providers = new Map<PaymentMethod, PaymentProvider<unknown>>();
+
+/**
+ * Register a provider for its payment method (replaces an earlier registration)
+ */
+export function registerPaymentProvider<TData>(provider: PaymentProvider<TData>): void {
+  providers.set(provider.method, provider);
+}
+
+/**
+ * Provider registered for a payment method, if any
+ */
+export function getPaymentProvider(method: PaymentMethod): PaymentProvider | undefined {
+  return providers.get(method);
+}
+
+/**
+ * Payment methods configured for a store, in display order
+ */
+export function getConfiguredPaymentMethods(storeId?: string | null): readonly PaymentMethod[] {
+  const storeMethods = storeId ? PAYMENT.STORE_METHODS[storeId] : undefined;
+  return storeMethods ?? PAYMENT.ENABLED_METHODS;
+}
+
+/**
+ * Providers a store offers, in display order
+ */
+export function getAvailablePaymentProviders(storeId?: string | null): PaymentProvider[] {
+  return getConfiguredPaymentMethods(storeId)
+    .map((method) => providers.get(method))
+    .filter((provider): provider is PaymentProvider => !!provider && provider.isConfigured());
+}
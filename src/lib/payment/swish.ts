@@ -0,0 +1,68 @@
+/**
+ * Swish helpers
+ *
+ * Swish payment requests are created by vm-service (see createSwishPayment).
+ * On a phone the payer opens the request in the Swish app through a deep link;
+ * on any other device they scan the QR code with the phone instead. Either way
+ * the result arrives as a status change of the payment request.
+ *
+ * @module lib/payment/swish
+ */
+
+import { PAYMENT } from '@/config/constants';
+
+/**
+ * Payment request statuses reported by Swish
+ */
+export const SWISH_STATUS = {
+  CREATED: 'CREATED',
+  PAID: 'PAID',
+  DECLINED: 'DECLINED',
+  ERROR: 'ERROR',
+  CANCELLED: 'CANCELLED',
+} as const;
+
+export type SwishStatus = typeof SWISH_STATUS[keyof typeof SWISH_STATUS];
+
+/**
+ * Whether the payer has answered (or the request ended without an answer)
+ */
+export function isSwishPaymentFinal(status: string | null | undefined): boolean {
+  return !!status && status.toUpperCase() !== SWISH_STATUS.CREATED;
+}
+
+/**
+ * Whether this device can open the Swish app (Swish is only available on phones and tablets)
+ */
+export function canOpenSwishApp(): boolean {
+  if (typeof navigator === 'undefined') return false;
+  return /Android|iPhone|iPad|iPod/i.test(navigator.userAgent);
+}
+
+/**
+ * Deep link that opens a payment request in the Swish app
+ *
+ * @param token - payment_request_token of the Swish payment
+ * @param callbackUrl - Page the Swish app returns to when the payer is done
+ */
+export function buildSwishAppUrl(token: string, callbackUrl?: string): string {
+  const params = new URLSearchParams({ token });
+  if (callbackUrl) {
+    params.set('callbackurl', callbackUrl);
+  }
+  return `${PAYMENT.SWISH.APP_URL}?${params.toString()}`;
+}
+
+/**
+ * Customer-facing message for a Swish request that did not end in PAID
+ */
+export function getSwishFailureMessage(status: string, errorMessage?: string | null): string {
+  switch (status.toUpperCase()) {
+    case SWISH_STATUS.DECLINED:
+      return 'The payment was declined in Swish. Your items are still in the cart.';
+    case SWISH_STATUS.CANCELLED:
+      return 'The Swish payment was cancelled or expired. Your items are still in the cart.';
+    default:
+      return errorMessage || 'Swish could not complete the payment. Please try again.';
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Test payment helpers
+ *
+ * The test payment provider stands in for a payment gateway in local and demo
+ * builds. Each scenario always ends the same way, so the whole cart → payment
+ * → dispensing → receipt path can be run without a gateway and failure cases
+ * can be scripted.
+ *
+ * @module lib/payment/testPayment
+ */
+
+import { PAYMENT } from '@/config/constants';
+import type { PaymentLaunchResult } from './types';
+
+/**
+ * Outcomes the fake gateway can simulate
+ */
+export const TEST_PAYMENT_SCENARIO = {
+  SUCCESS: 'success',
+  DECLINE: 'decline',
+  CANCEL: 'cancel',
+  VERIFICATION_FAILURE: 'verification_failure',
+  SLOW: 'slow',
+} as const;
+
+export type TestPaymentScenario = typeof TEST_PAYMENT_SCENARIO[keyof typeof TEST_PAYMENT_SCENARIO];
+
+export const TEST_PAYMENT_SCENARIO_LABELS: Record<TestPaymentScenario, string> = {
+  success: 'Pay',
+  decline: 'Decline',
+  cancel: 'Cancel',
+  verification_failure: 'Fail verification',
+  slow: 'Pay slowly',
+};
+
+/**
+ * Query parameter on /payment that picks the scenario for scripted runs
+ */
+export const TEST_PAYMENT_SCENARIO_PARAM = 'testPayment';
+
+/**
+ * Scenario name, or null when the value is not one
+ */
+export function parseTestPaymentScenario(value: string | null | undefined): TestPaymentScenario | null {
+  const scenarios = Object.values(TEST_PAYMENT_SCENARIO) as string[];
+  return value && scenarios.includes(value) ? (value as TestPaymentScenario) : null;
+}
+
+/**
+ * Scenario to run without asking: ?testPayment= on the page, then NEXT_PUBLIC_TEST_PAYMENT_SCENARIO
+ */
+export function getPresetTestPaymentScenario(): TestPaymentScenario | null {
+  const fromUrl =
+    typeof window !== 'undefined'
+      ? new URLSearchParams(window.location.search).get(TEST_PAYMENT_SCENARIO_PARAM)
+      : null;
+  return parseTestPaymentScenario(fromUrl) ?? parseTestPaymentScenario(PAYMENT.TEST.SCENARIO);
+}
+
+/**
+ * What the payer "did" in the fake gateway, after the gateway's response delay
+ *
+ * Verification failures are approved here and fail in the provider's `verify`.
+ */
+export async function runTestPaymentScenario(scenario: TestPaymentScenario): Promise<PaymentLaunchResult> {
+  const delay =
+    scenario === TEST_PAYMENT_SCENARIO.SLOW ? PAYMENT.TEST.SLOW_RESPONSE_DELAY : PAYMENT.TEST.RESPONSE_DELAY;
+  await new Promise((resolve) => setTimeout(resolve, delay));
+
+  switch (scenario) {
+    case TEST_PAYMENT_SCENARIO.DECLINE:
+      return { status: 'failed', message: 'The test payment was declined.' };
+    case TEST_PAYMENT_SCENARIO.CANCEL:
+      return { status: 'cancelled' };
+    default:
+      return { status: 'approved', data: { scenario } };
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Payment provider contract
+ *
+ * Every payment method (Razorpay, Swish, card, ...) is a `PaymentProvider`. The
+ * payment page only talks to this interface: it creates a session for the
+ * order, lets the provider run its UI, has the provider verify the result with
+ * vm-service and then hands the paid order to /dispensing.
+ *
+ * Providers are framework-free; vm-service calls are injected through
+ * `PaymentApi` so the page can route them through the query cache.
+ *
+ * @module lib/payment/types
+ */
+
+import type { Money, PaymentMethod } from '@/lib/types';
+import type {
+  CardPaymentResponse,
+  CompleteTestPaymentResponse,
+  CreateCardPaymentRequest,
+  CreateRefundResponse,
+  CreateSwishPaymentRequest,
+  RazorpayOrderResponse,
+  RefundRequest,
+  SwishPaymentResponse,
+  VerifyPaymentRequest,
+  VerifyPaymentResponse,
+} from '@/lib/api/vmService';
+
+/**
+ * vm-service calls the providers need (injected, so tests can pass a fake)
+ */
+export interface PaymentApi {
+  createRazorpayOrder: (orderId: string) => Promise<RazorpayOrderResponse>;
+  verifyPayment: (request: VerifyPaymentRequest) => Promise<VerifyPaymentResponse>;
+  createSwishPayment: (orderId: string, request?: CreateSwishPaymentRequest) => Promise<SwishPaymentResponse>;
+  getSwishPayment: (paymentId: string) => Promise<SwishPaymentResponse>;
+  createCardPayment: (orderId: string, request?: CreateCardPaymentRequest) => Promise<CardPaymentResponse>;
+  getCardPayment: (paymentId: string) => Promise<CardPaymentResponse>;
+  completeTestPayment: (orderId: string) => Promise<CompleteTestPaymentResponse>;
+  createRefund: (orderId: string, request: RefundRequest) => Promise<CreateRefundResponse>;
+  processRefund: (refundId: string) => Promise<unknown>;
+}
+
+/**
+ * The backend order a payment is for
+ */
+export interface PaymentOrder {
+  orderId: string;
+  orderNumber: string;
+  /** Total as shown to the customer */
+  amount: Money;
+}
+
+/**
+ * A started payment: what the provider created for the order (Razorpay order,
+ * Swish payment request, ...) in `data`
+ */
+export interface PaymentSession<TData = unknown> {
+  method: PaymentMethod;
+  orderId: string;
+  data: TData;
+}
+
+/**
+ * What the payer did in the provider's UI (`expired`: the payment timeout ran out first)
+ */
+export type PaymentLaunchResult =
+  | { status: 'approved'; data?: unknown }
+  | { status: 'cancelled' }
+  | { status: 'expired' }
+  | { status: 'failed'; message: string };
+
+/**
+ * A payment vm-service has confirmed
+ */
+export interface PaidPayment {
+  orderId: string;
+  /** Reference shown on the receipt */
+  referenceNumber: string;
+}
+
+export interface PaymentCapabilities {
+  /** A started session can be cancelled through `cancel` */
+  cancel: boolean;
+  /** Paid orders can be refunded through `refund` */
+  refund: boolean;
+  /**
+   * The provider's UI is rendered inside the page (see components/payment/PaymentView)
+   * instead of being opened by `launch`
+   */
+  embeddedUi: boolean;
+}
+
+/**
+ * Hooks the page passes to `launch`
+ */
+export interface PaymentLaunchOptions {
+  /** A payment attempt failed but the provider's UI stays open for another try */
+  onAttemptFailed?: (message: string) => void;
+  /** Aborted when the payment timeout runs out: close the UI and resolve `expired` */
+  signal?: AbortSignal;
+}
+
+export interface PaymentProvider<TData = unknown> {
+  method: PaymentMethod;
+  /** Name shown to the customer */
+  label: string;
+  capabilities: PaymentCapabilities;
+
+  /** Whether the provider has the configuration it needs (keys, URLs) */
+  isConfigured: () => boolean;
+
+  /** Create the provider-side payment for an order */
+  createSession: (order: PaymentOrder, api: PaymentApi) => Promise<PaymentSession<TData>>;
+
+  /**
+   * Open the provider's own UI (modal, redirect) and resolve once the payer is done.
+   * Not set for providers with `capabilities.embeddedUi`.
+   */
+  launch?: (session: PaymentSession<TData>, options?: PaymentLaunchOptions) => Promise<PaymentLaunchResult>;
+
+  /** Confirm an approved payment with vm-service */
+  verify: (
+    session: PaymentSession<TData>,
+    result: Extract<PaymentLaunchResult, { status: 'approved' }>,
+    api: PaymentApi
+  ) => Promise<PaidPayment>;
+
+  /** Cancel a started session (when `capabilities.cancel`) */
+  cancel?: (session: PaymentSession<TData>, api: PaymentApi) => Promise<void>;
+
+  /** Refund a paid order (when `capabilities.refund`) */
+  refund?: (
+    orderId: string,
+    request: RefundRequest,
+    api: Pick<PaymentApi, 'createRefund' | 'processRefund'>
+  ) => Promise<CreateRefundResponse>;
+
+  /**
+   * Pick up a session after the payer was sent away and came back
+   * (e.g. from the Swish app), based on the return URL's query parameters
+   */
+  restoreSession?: (params: URLSearchParams, api: PaymentApi) => Promise<PaymentSession<TData> | null>;
+}
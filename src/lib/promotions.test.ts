@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from 'vitest';
+import { money } from '@/lib/money';
+import type { CartItem } from '@/lib/types';
+import { applyPromotions, findPromotionByCode, parsePromotions, type Promotion } from './promotions';
+
+function item(id: string, category: string, price: number, quantity = 1): CartItem {
+  return {
+    product: { id, name: id, price: money(price, 'SEK'), image: '', category, isAgeRestricted: false, taxRate: 12 },
+    quantity,
+  };
+}
+
+const welcome: Promotion = {
+  id: 'welcome',
+  label: 'Welcome 10%',
+  code: 'WELCOME10',
+  rule: { type: 'percentage', percent: 10 },
+};
+
+describe('applyPromotions', () => {
+  it('takes a percentage off every eligible line', () => {
+    const promotions: Promotion[] = [{ ...welcome, code: undefined, categories: ['Drinks'] }];
+
+    const result = applyPromotions([item('cola', 'Drinks', 2500, 2), item('chips', 'Snacks', 1900)], {}, promotions);
+
+    expect(result.total).toEqual(money(500, 'SEK'));
+    expect(result.lineDiscounts).toEqual({ cola: money(500, 'SEK') });
+  });
+
+  it('applies a code only when the customer entered it, in any case', () => {
+    const items = [item('cola', 'Drinks', 2500)];
+
+    expect(applyPromotions(items, {}, [welcome]).discounts).toEqual([]);
+    expect(applyPromotions(items, { code: ' welcome10 ' }, [welcome]).total).toEqual(money(250, 'SEK'));
+    expect(findPromotionByCode('Welcome10', [welcome])).toBe(welcome);
+  });
+
+  it('applies a store promotion only in its stores', () => {
+    const promotions: Promotion[] = [{ ...welcome, code: undefined, storeIds: ['store-1'] }];
+    const items = [item('cola', 'Drinks', 2500)];
+
+    expect(applyPromotions(items, { storeId: 'store-2' }, promotions).discounts).toEqual([]);
+    expect(applyPromotions(items, { storeId: 'store-1' }, promotions).total).toEqual(money(250, 'SEK'));
+  });
+
+  it('never takes off more than the eligible goods cost', () => {
+    const promotions: Promotion[] = [{ id: 'big', label: '100 kr off', rule: { type: 'fixed', amount: 100 } }];
+
+    const result = applyPromotions([item('cola', 'Drinks', 2500), item('chips', 'Snacks', 1900)], {}, promotions);
+
+    expect(result.total).toEqual(money(4400, 'SEK'));
+    expect(result.lineDiscounts).toEqual({ cola: money(2500, 'SEK'), chips: money(1900, 'SEK') });
+  });
+
+  it('makes the cheapest units of each multi-buy group free', () => {
+    const promotions: Promotion[] = [{ id: '3for2', label: '3 for 2', rule: { type: 'multi_buy', buy: 3, pay: 2 } }];
+
+    // Units by price: 30, 30, 25 | 25, 20, 20 | 20 (no full group)
+    const result = applyPromotions(
+      [item('a', 'Drinks', 3000, 2), item('b', 'Drinks', 2500, 2), item('c', 'Drinks', 2000, 3)],
+      {},
+      promotions
+    );
+
+    expect(result.lineDiscounts).toEqual({ b: money(2500, 'SEK'), c: money(2000, 'SEK') });
+  });
+
+  it('applies each promotion to what the ones before it left to pay', () => {
+    const promotions: Promotion[] = [
+      { id: 'half', label: 'Half price', rule: { type: 'percentage', percent: 50 } },
+      { ...welcome, code: undefined },
+    ];
+
+    const result = applyPromotions([item('cola', 'Drinks', 2000)], {}, promotions);
+
+    expect(result.discounts.map((discount) => discount.amount.amount)).toEqual([1000, 100]);
+  });
+
+  it('gives the rounding remainder of a fixed discount to a line that can still take it', () => {
+    const promotions: Promotion[] = [
+      { id: 'free-drinks', label: 'Free drinks', categories: ['Drinks'], rule: { type: 'multi_buy', buy: 3, pay: 0 } },
+      { id: 'one-off', label: '1 kr off', rule: { type: 'fixed', amount: 1 } },
+    ];
+    // The drinks are free already, so the last line has nothing left to discount
+    const items = [
+      item('a', 'Snacks', 1000),
+      item('b', 'Snacks', 1000),
+      item('c', 'Snacks', 1000),
+      item('d', 'Drinks', 100, 3),
+    ];
+
+    const { discounts } = applyPromotions(items, {}, promotions);
+
+    const fixed = discounts.find((discount) => discount.promotionId === 'one-off');
+    expect(fixed.amount).toEqual(money(100, 'SEK'));
+    expect(fixed.lines.map((line) => [line.productId, line.amount.amount])).toEqual([
+      ['a', 33],
+      ['b', 33],
+      ['c', 34],
+    ]);
+  });
+});
+
+describe('parsePromotions', () => {
+  it('skips invalid entries and keeps the rest', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const promotions = parsePromotions(
+      JSON.stringify([
+        welcome,
+        { id: 'free', label: 'Pay for all', rule: { type: 'multi_buy', buy: 2, pay: 2 } },
+        { id: 'nothing', label: 'No rule' },
+      ])
+    );
+
+    expect(promotions).toEqual([welcome]);
+    expect(parsePromotions('not json')).toEqual([]);
+    expect(parsePromotions('')).toEqual([]);
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Promotions and discount codes
+ *
+ * Promotions are configuration (NEXT_PUBLIC_PROMOTIONS, a JSON list) and are
+ * worked out in the cart so the customer sees what they save. The applied
+ * discounts travel in the order metadata, where vm-service validates them
+ * before it prices the order.
+ *
+ * The list is baked into the public bundle, so every discount code in it can
+ * be read by anyone who opens the app. vm-service must check every code and
+ * discount it receives against its own promotions and never trust the
+ * metadata; a code meant for a few customers does not belong in this list.
+ *
+ * - `percentage`: percent off the eligible goods
+ * - `fixed`: an amount (major units) off the eligible goods, never more than they cost
+ * - `multi_buy`: buy `buy`, pay for `pay` (3 for 2); the cheapest units of each group are free
+ *
+ * A promotion covers the whole cart or only products in `categories`, in every
+ * store or only in `storeIds`. With a `code` it needs the customer to enter it,
+ * otherwise it applies by itself. Promotions apply in the order they are
+ * configured, each to what is left to pay of a line; deposits are never
+ * discounted.
+ *
+ * @example
+ * ```json
+ * [
+ *   { "id": "drinks-3for2", "label": "Drinks 3 for 2", "categories": ["Drinks"], "rule": { "type": "multi_buy", "buy": 3, "pay": 2 } },
+ *   { "id": "welcome10", "label": "Welcome 10%", "code": "WELCOME10", "rule": { "type": "percentage", "percent": 10 } }
+ * ]
+ * ```
+ *
+ * @module lib/promotions
+ */
+
+import { z } from 'zod';
+import { CURRENCY, PROMOTIONS } from '@/config/constants';
+import type { CartItem, Money, OrderDiscount } from '@/lib/types';
+import { add, fromMajor, money, multiply, subtract, sum } from '@/lib/money';
+
+export const promotionSchema = z
+  .object({
+    id: z.string().min(1),
+    /** Shown in the cart and on the receipt */
+    label: z.string().min(1),
+    code: z.string().trim().min(1).max(PROMOTIONS.MAX_CODE_LENGTH).optional(),
+    categories: z.array(z.string()).nonempty().optional(),
+    storeIds: z.array(z.string()).nonempty().optional(),
+    rule: z.discriminatedUnion('type', [
+      z.object({ type: z.literal('percentage'), percent: z.number().gt(0).max(100) }),
+      z.object({ type: z.literal('fixed'), amount: z.number().positive() }),
+      z.object({ type: z.literal('multi_buy'), buy: z.number().int().min(2), pay: z.number().int().nonnegative() }),
+    ]),
+  })
+  .refine((promotion) => promotion.rule.type !== 'multi_buy' || promotion.rule.pay < promotion.rule.buy, {
+    message: 'A multi-buy must pay for fewer units than it buys',
+    path: ['rule'],
+  });
+
+export type Promotion = z.infer<typeof promotionSchema>;
+
+/**
+ * Part of a discount taken off one cart line
+ */
+export interface DiscountLine {
+  productId: string;
+  amount: Money;
+}
+
+export interface AppliedDiscount extends OrderDiscount {
+  /** How the amount is spread over the cart lines */
+  lines: DiscountLine[];
+}
+
+export interface PromotionResult {
+  discounts: AppliedDiscount[];
+  /** Everything taken off a line, by product ID */
+  lineDiscounts: Record<string, Money>;
+  total: Money;
+}
+
+/**
+ * Why a discount code was not applied
+ */
+export type CouponRejection = 'unknown' | 'not_applicable';
+
+/**
+ * Promotions from a JSON list; invalid entries are skipped with a warning
+ */
+export function parsePromotions(json: string): Promotion[] {
+  if (!json.trim()) return [];
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    console.warn('NEXT_PUBLIC_PROMOTIONS is not valid JSON; no promotions apply');
+    return [];
+  }
+  if (!Array.isArray(raw)) {
+    console.warn('NEXT_PUBLIC_PROMOTIONS must be a JSON list; no promotions apply');
+    return [];
+  }
+
+  return raw.flatMap((entry, index) => {
+    const result = promotionSchema.safeParse(entry);
+    if (!result.success) {
+      console.warn(`Skipping promotion ${index}:`, result.error.issues[0]?.message);
+      return [];
+    }
+    return [result.data];
+  });
+}
+
+const configuredPromotions = parsePromotions(PROMOTIONS.CONFIG);
+
+/**
+ * Codes are matched without regard to case or surrounding spaces
+ */
+export function normalizeCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export function findPromotionByCode(code: string, promotions: Promotion[] = configuredPromotions): Promotion | undefined {
+  const normalized = normalizeCode(code);
+  return promotions.find((promotion) => promotion.code && normalizeCode(promotion.code) === normalized);
+}
+
+export function getCouponRejectionMessage(reason: CouponRejection): string {
+  switch (reason) {
+    case 'unknown':
+      return 'This code is not valid';
+    case 'not_applicable':
+      return 'This code does not apply to your cart';
+  }
+}
+
+/**
+ * Spread `amount` (at most the weights' total) over lines in proportion to their weight
+ *
+ * Shares are rounded down; the rounding remainder goes one minor unit at a
+ * time to the last lines whose share is still below their weight, so no line
+ * gets more than its weight and the shares add up to `amount`.
+ */
+function allocate(amount: Money, weights: DiscountLine[]): DiscountLine[] {
+  const total = sum(weights.map((weight) => weight.amount), amount.currency).amount;
+  const lines = weights.map((weight) => ({
+    productId: weight.productId,
+    amount: multiply(amount, weight.amount.amount / total, 'down'),
+  }));
+
+  let remainder = subtract(amount, sum(lines.map((line) => line.amount), amount.currency)).amount;
+  for (let index = lines.length - 1; index >= 0 && remainder > 0; index--) {
+    if (lines[index].amount.amount < weights[index].amount.amount) {
+      lines[index].amount = add(lines[index].amount, money(1, amount.currency));
+      remainder--;
+    }
+  }
+  return lines;
+}
+
+/**
+ * Discount of one promotion per eligible line, before capping at what is left to pay
+ */
+function promotionLines(
+  promotion: Promotion,
+  eligible: CartItem[],
+  remaining: Map<string, Money>,
+  currency: string
+): DiscountLine[] {
+  const { rule } = promotion;
+
+  switch (rule.type) {
+    case 'percentage':
+      return eligible.map((item) => ({
+        productId: item.product.id,
+        amount: multiply(remaining.get(item.product.id), rule.percent / 100),
+      }));
+
+    case 'fixed': {
+      const weights = eligible.map((item) => ({ productId: item.product.id, amount: remaining.get(item.product.id) }));
+      const base = sum(weights.map((weight) => weight.amount), currency);
+      if (base.amount <= 0) return [];
+      const amount = fromMajor(rule.amount, currency);
+      return allocate(amount.amount < base.amount ? amount : base, weights);
+    }
+
+    case 'multi_buy': {
+      // Most expensive first, so the cheapest units of each group are the free ones
+      const units = eligible
+        .flatMap((item) => Array.from({ length: item.quantity }, () => item.product))
+        .sort((a, b) => b.price.amount - a.price.amount);
+      const free = new Map<string, Money>();
+      const groups = Math.floor(units.length / rule.buy);
+      for (let group = 0; group < groups; group++) {
+        for (let index = group * rule.buy + rule.pay; index < (group + 1) * rule.buy; index++) {
+          const product = units[index];
+          const previous = free.get(product.id);
+          free.set(product.id, previous ? add(previous, product.price) : product.price);
+        }
+      }
+      return [...free.entries()].map(([productId, amount]) => ({ productId, amount }));
+    }
+  }
+}
+
+/**
+ * Discounts for a cart
+ *
+ * @param options.code - Discount code the customer entered
+ * @param options.storeId - Store the cart is bought in
+ * @param options.currency - Currency of an empty cart
+ */
+export function applyPromotions(
+  items: CartItem[],
+  options: { code?: string | null; storeId?: string | null; currency?: string } = {},
+  promotions: Promotion[] = configuredPromotions
+): PromotionResult {
+  const currency = items[0]?.product.price.currency ?? options.currency ?? CURRENCY.DEFAULT;
+  const code = options.code ? normalizeCode(options.code) : null;
+  const remaining = new Map(items.map((item) => [item.product.id, multiply(item.product.price, item.quantity)]));
+  const discounts: AppliedDiscount[] = [];
+
+  for (const promotion of promotions) {
+    if (promotion.code && normalizeCode(promotion.code) !== code) continue;
+    if (promotion.storeIds && !(options.storeId && promotion.storeIds.includes(options.storeId))) continue;
+
+    const eligible = items.filter(
+      (item) => !promotion.categories || promotion.categories.includes(item.product.category)
+    );
+    const lines = promotionLines(promotion, eligible, remaining, currency)
+      .map((line) => {
+        const left = remaining.get(line.productId);
+        return { productId: line.productId, amount: line.amount.amount > left.amount ? left : line.amount };
+      })
+      .filter((line) => line.amount.amount > 0);
+    if (lines.length === 0) continue;
+
+    for (const line of lines) {
+      remaining.set(line.productId, subtract(remaining.get(line.productId), line.amount));
+    }
+    discounts.push({
+      promotionId: promotion.id,
+      label: promotion.label,
+      code: promotion.code,
+      amount: sum(lines.map((line) => line.amount), currency),
+      lines,
+    });
+  }
+
+  return {
+    discounts,
+    lineDiscounts: getLineDiscounts(discounts),
+    total: sum(discounts.map((discount) => discount.amount), currency),
+  };
+}
+
+/**
+ * Everything taken off each line, by product ID
+ */
+export function getLineDiscounts(discounts: AppliedDiscount[]): Record<string, Money> {
+  const lineDiscounts: Record<string, Money> = {};
+  for (const line of discounts.flatMap((discount) => discount.lines)) {
+    const previous = lineDiscounts[line.productId];
+    lineDiscounts[line.productId] = previous ? add(previous, line.amount) : line.amount;
+  }
+  return lineDiscounts;
+}
@@ -1,6 +1,39 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { AgeVerification, Order, PaymentMethod } from '../types';
+import { VM } from '../../config/constants';
+
+export type DispenseRunStatus = 'running' | 'completed';
+
+export interface DispenseRun {
+  status: DispenseRunStatus;
+  /** When the run finished (epoch ms); unset while it is running */
+  finishedAt?: number;
+}
+
+/**
+ * Keep every running claim but only the most recently finished runs
+ */
+function pruneDispenseRuns(runs: Record<string, DispenseRun>): Record<string, DispenseRun> {
+  const completed = Object.keys(runs)
+    .filter((orderId) => runs[orderId].status === 'completed')
+    .sort((a, b) => (runs[b].finishedAt ?? 0) - (runs[a].finishedAt ?? 0));
+  const dropped = new Set(completed.slice(VM.DISPENSE_RUNS_KEPT));
+  return Object.fromEntries(Object.entries(runs).filter(([orderId]) => !dropped.has(orderId)));
+}
+
+/**
+ * Persisted state before version 1, when a run was only its status
+ */
+function migrateDispenseRuns(runs: unknown): Record<string, DispenseRun> {
+  if (!runs || typeof runs !== 'object') return {};
+  return Object.fromEntries(
+    Object.entries(runs as Record<string, unknown>)
+      .filter((entry): entry is [string, DispenseRunStatus] => entry[1] === 'running' || entry[1] === 'completed')
+      // When an old run finished is unknown; they are the first to be dropped
+      .map(([orderId, status]) => [orderId, status === 'completed' ? { status, finishedAt: 0 } : { status }])
+  );
+}
 
 interface AppState {
   // Store ID (from URL params, stored in Zustand for use throughout the app)
@@ -30,8 +63,19 @@ interface AppState {
   setIsDispensing: (dispensing: boolean) => void;
   dispensedCount: number;
   setDispensedCount: (count: number) => void;
+
+  // Dispense runs per order (persisted, so a reload can't start a second run);
+  // finished runs are kept up to VM.DISPENSE_RUNS_KEPT, oldest dropped first
+  dispenseRuns: Record<string, DispenseRun>;
+  /** Claim the dispense run for an order; returns false if one was already started */
+  startDispenseRun: (orderId: string) => boolean;
+  finishDispenseRun: (orderId: string) => void;
+  /** Drop the claim when a run failed before anything was sent to the VM */
+  releaseDispenseRun: (orderId: string) => void;
 }
 
+type PersistedAppState = Pick<AppState, 'storeId' | 'ageVerification' | 'dispenseRuns'>;
+
 export const useAppStore = create<AppState>()(
   persist(
     (set, get) => ({
@@ -72,12 +116,46 @@ export const useAppStore = create<AppState>()(
       setIsDispensing: (dispensing) => set({ isDispensing: dispensing }),
       dispensedCount: 0,
       setDispensedCount: (count) => set({ dispensedCount: count }),
+
+      // Dispense Runs
+      dispenseRuns: {},
+      startDispenseRun: (orderId) => {
+        if (get().dispenseRuns[orderId]) {
+          return false;
+        }
+        set((state) => ({
+          dispenseRuns: { ...state.dispenseRuns, [orderId]: { status: 'running' } },
+        }));
+        return true;
+      },
+      finishDispenseRun: (orderId) =>
+        set((state) => ({
+          dispenseRuns: pruneDispenseRuns({
+            ...state.dispenseRuns,
+            [orderId]: { status: 'completed', finishedAt: Date.now() },
+          }),
+        })),
+      releaseDispenseRun: (orderId) =>
+        set((state) => {
+          const { [orderId]: _released, ...dispenseRuns } = state.dispenseRuns;
+          return { dispenseRuns };
+        }),
     }),
     {
       name: 'vm-app-storage',
-      partialize: (state) => ({
+      // Version 1: dispense runs record when they finished
+      version: 1,
+      migrate: (persisted, version) => {
+        const state = (persisted ?? {}) as Record<string, unknown>;
+        if (version < 1) {
+          state.dispenseRuns = migrateDispenseRuns(state.dispenseRuns);
+        }
+        return state as PersistedAppState;
+      },
+      partialize: (state): PersistedAppState => ({
         storeId: state.storeId,
         ageVerification: state.ageVerification,
+        dispenseRuns: state.dispenseRuns,
       }),
     }
   )
@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { CART } from '@/config/constants';
+import { money } from '@/lib/money';
+import type { CartItem, Product } from '@/lib/types';
+import { calculateQuantityLimit, getCartLimitMessage, useCartStore } from './cartStore';
+
+function product(id: string, overrides: Partial<Product> = {}): Product {
+  return {
+    id,
+    name: id,
+    price: money(2500, 'SEK'),
+    image: '',
+    category: 'Drinks',
+    isAgeRestricted: false,
+    taxRate: 12,
+    storeId: 'store-1',
+    vmId: 'vm-1',
+    inventory: 100,
+    ...overrides,
+  };
+}
+
+const line = (item: Product, quantity: number): CartItem => ({ product: item, quantity });
+
+beforeEach(() => {
+  // No localStorage in node: persist warns and keeps the cart in memory
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  useCartStore.setState({ items: [], parkedCarts: {}, couponCode: null, pendingChanges: null, lineIssues: null });
+});
+
+describe('calculateQuantityLimit', () => {
+  it('allows the product limit when nothing tighter applies', () => {
+    expect(calculateQuantityLimit(product('cola'), [])).toEqual({
+      max: CART.MAX_QUANTITY_PER_PRODUCT,
+      reason: 'product_limit',
+    });
+  });
+
+  it('stops at the spring inventory', () => {
+    expect(calculateQuantityLimit(product('cola', { inventory: 3 }), [])).toEqual({ max: 3, reason: 'inventory' });
+    expect(calculateQuantityLimit(product('cola', { inventory: 0 }), [])).toEqual({ max: 0, reason: 'out_of_stock' });
+    expect(calculateQuantityLimit(product('cola', { inventory: -2 }), [])).toEqual({ max: 0, reason: 'out_of_stock' });
+  });
+
+  it('ignores inventory for products that did not come from a spring', () => {
+    expect(calculateQuantityLimit(product('cola', { inventory: undefined }), []).reason).toBe('product_limit');
+  });
+
+  it('leaves room only for what the rest of the cart does not use', () => {
+    const others = Array.from({ length: 5 }, (_, index) =>
+      line(product(`other-${index}`), CART.MAX_QUANTITY_PER_PRODUCT - 1)
+    );
+    const cola = product('cola');
+
+    // The product's own units do not count against it
+    const limit = calculateQuantityLimit(cola, [...others, line(cola, 2)]);
+
+    expect(limit).toEqual({ max: CART.MAX_ITEMS - 5 * (CART.MAX_QUANTITY_PER_PRODUCT - 1), reason: 'cart_limit' });
+    expect(getCartLimitMessage(limit)).toBe(`Cart is full (${CART.MAX_ITEMS} items)`);
+  });
+
+  it('refuses products of another machine', () => {
+    const items = [line(product('cola'), 1)];
+
+    expect(calculateQuantityLimit(product('chips', { vmId: 'vm-2' }), items).reason).toBe('other_machine');
+    expect(calculateQuantityLimit(product('chips', { storeId: 'store-2' }), items)).toEqual({
+      max: 0,
+      reason: 'other_machine',
+    });
+  });
+});
+
+describe('addItem', () => {
+  it('rejects a unit past the limit and keeps the cart as it was', () => {
+    const cola = product('cola', { inventory: 1 });
+    const { addItem } = useCartStore.getState();
+
+    expect(addItem(cola)).toEqual({ status: 'updated' });
+    expect(addItem(cola)).toEqual({ status: 'rejected', limit: { max: 1, reason: 'inventory' } });
+    expect(useCartStore.getState().items).toEqual([line(cola, 1)]);
+  });
+});
+
+describe('switchStore', () => {
+  const cola = product('cola');
+  const chips = product('chips', { storeId: 'store-2', vmId: 'vm-3' });
+  const water = product('water', { storeId: 'store-2', vmId: 'vm-4' });
+
+  it('keeps the current cart for later and brings back the one kept for the machine', () => {
+    useCartStore.setState({ items: [line(cola, 2)], couponCode: 'WELCOME10' });
+
+    useCartStore.getState().switchStore({ storeId: 'store-2', vmId: 'vm-3' }, true);
+    expect(useCartStore.getState()).toMatchObject({ items: [], couponCode: null, revalidationNeeded: false });
+
+    useCartStore.getState().addItem(chips);
+    useCartStore.getState().switchStore({ storeId: 'store-1', vmId: 'vm-1' }, true);
+
+    const state = useCartStore.getState();
+    expect(state.items).toEqual([line(cola, 2)]);
+    // Prices and stock may have changed while the cart was kept
+    expect(state.revalidationNeeded).toBe(true);
+    expect(state.parkedCarts).toEqual({ 'store-2:vm-3': [line(chips, 1)] });
+  });
+
+  it('drops the current cart when asked to', () => {
+    useCartStore.setState({ items: [line(cola, 2)] });
+
+    useCartStore.getState().switchStore({ storeId: 'store-2' }, false);
+
+    expect(useCartStore.getState()).toMatchObject({ items: [], parkedCarts: {} });
+  });
+
+  it('brings back a kept cart without the machine only if it is the only one for the store', () => {
+    useCartStore.setState({ items: [line(cola, 1)], parkedCarts: { 'store-2:vm-3': [line(chips, 1)] } });
+    useCartStore.getState().switchStore({ storeId: 'store-2' }, true);
+    expect(useCartStore.getState().items).toEqual([line(chips, 1)]);
+
+    useCartStore.setState({
+      items: [line(cola, 1)],
+      parkedCarts: { 'store-2:vm-3': [line(chips, 1)], 'store-2:vm-4': [line(water, 1)] },
+    });
+    useCartStore.getState().switchStore({ storeId: 'store-2' }, true);
+
+    // Two machines in the store: which cart the customer wants is not known
+    const state = useCartStore.getState();
+    expect(state.items).toEqual([]);
+    expect(Object.keys(state.parkedCarts).sort()).toEqual(['store-1:vm-1', 'store-2:vm-3', 'store-2:vm-4']);
+  });
+});
@@ -1,80 +1,387 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { CartItem, Product } from '../types';
+import { CartItem, Money, Product } from '../types';
+import { fromLegacyAmount } from '../money';
+import { calculateTax, getTaxRegion, toTaxableItems, type TaxBreakdown } from '../tax';
+import type { CartLineIssue, CartRevalidation } from '../cartRevalidation';
+import {
+  applyPromotions,
+  findPromotionByCode,
+  normalizeCode,
+  type CouponRejection,
+  type PromotionResult,
+} from '../promotions';
+import { CART } from '../../config/constants';
+
+/**
+ * Cart items persisted with major-unit number prices (before version 1)
+ */
+export function migrateCartItems(items: CartItem[]): CartItem[] {
+  return items.map((item) => ({
+    ...item,
+    product: {
+      ...item.product,
+      price: fromLegacyAmount(item.product.price),
+      depositAmount: fromLegacyAmount(item.product.depositAmount),
+    },
+  }));
+}
+
+/**
+ * The store and vending machine a cart buys from; an order is placed with one machine
+ */
+export interface CartScope {
+  storeId: string;
+  vmId: string;
+}
+
+/**
+ * Scope of the cart's products (products without spring data have none)
+ */
+export function getCartScope(items: CartItem[]): CartScope | null {
+  const product = items.find((item) => item.product.storeId && item.product.vmId)?.product;
+  return product ? { storeId: product.storeId, vmId: product.vmId } : null;
+}
+
+export function cartScopeKey(scope: CartScope): string {
+  return `${scope.storeId}:${scope.vmId}`;
+}
+
+function hasSameLines(a: CartItem[], b: CartItem[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every((item) => b.some((other) => other.product.id === item.product.id && other.quantity === item.quantity))
+  );
+}
+
+/**
+ * Why a product cannot have more units in the cart
+ *
+ * - `other_machine`: the cart holds products of another store or vending machine
+ * - `out_of_stock` / `inventory`: the spring holds no more units
+ * - `product_limit`: `CART.MAX_QUANTITY_PER_PRODUCT`
+ * - `cart_limit`: `CART.MAX_ITEMS` units in the whole cart
+ */
+export type CartLimitReason = 'other_machine' | 'out_of_stock' | 'inventory' | 'product_limit' | 'cart_limit';
+
+export interface QuantityLimit {
+  /** Most units of the product the cart may hold */
+  max: number;
+  /** The rule that sets `max` */
+  reason: CartLimitReason;
+}
+
+export type CartChangeResult = { status: 'updated' } | { status: 'rejected'; limit: QuantityLimit };
+
+/**
+ * The tightest of the product's inventory and the cart's configured caps
+ */
+export function calculateQuantityLimit(product: Product, items: CartItem[]): QuantityLimit {
+  const scope = getCartScope(items);
+  if (
+    scope &&
+    product.storeId &&
+    product.vmId &&
+    (product.storeId !== scope.storeId || product.vmId !== scope.vmId)
+  ) {
+    return { max: 0, reason: 'other_machine' };
+  }
+
+  const otherUnits = items.reduce(
+    (total, item) => (item.product.id === product.id ? total : total + item.quantity),
+    0
+  );
+  const limits: QuantityLimit[] = [
+    { max: CART.MAX_QUANTITY_PER_PRODUCT, reason: 'product_limit' },
+    { max: Math.max(0, CART.MAX_ITEMS - otherUnits), reason: 'cart_limit' },
+  ];
+  // Inventory is unknown for products that did not come from a spring
+  if (product.inventory !== undefined) {
+    const inventory = Math.max(0, product.inventory);
+    limits.unshift({ max: inventory, reason: inventory > 0 ? 'inventory' : 'out_of_stock' });
+  }
+  return limits.reduce((tightest, limit) => (limit.max < tightest.max ? limit : tightest));
+}
+
+/**
+ * Short explanation of a limit for the customer
+ */
+export function getCartLimitMessage(limit: QuantityLimit): string {
+  switch (limit.reason) {
+    case 'other_machine':
+      return 'Your cart is for another machine';
+    case 'out_of_stock':
+      return 'Out of stock';
+    case 'inventory':
+      return `Only ${limit.max} left`;
+    case 'product_limit':
+      return `Max ${limit.max} per product`;
+    case 'cart_limit':
+      return `Cart is full (${CART.MAX_ITEMS} items)`;
+  }
+}
+
+function withoutIssue(
+  lineIssues: Record<string, CartLineIssue> | null,
+  productId: string
+): Record<string, CartLineIssue> | null {
+  if (!lineIssues?.[productId]) return lineIssues;
+  const { [productId]: _fixed, ...rest } = lineIssues;
+  return rest;
+}
 
 interface CartState {
   items: CartItem[];
-  addItem: (product: Product) => void;
+  /**
+   * Add one unit, refreshing the cart's copy of the product (and its inventory).
+   * Rejected when the product is at its limit.
+   */
+  addItem: (product: Product) => CartChangeResult;
   removeItem: (productId: string) => void;
-  updateQuantity: (productId: string, quantity: number) => void;
+  /** Set a line's quantity (0 removes it); an increase past the limit is rejected */
+  updateQuantity: (productId: string, quantity: number) => CartChangeResult;
+  /** Most units of the product the cart may hold right now */
+  getQuantityLimit: (product: Product) => QuantityLimit;
+  /** Empty the cart; a cart `restoreItems` kept for the same machine comes back */
   clearCart: () => void;
-  getTotal: () => number;
+  /**
+   * Put back the items of an order that was paid for (payment recovery). The
+   * customer's own cart is kept in `parkedCarts` until the order is cleared.
+   */
+  restoreItems: (items: CartItem[]) => void;
+  /** Springs are being refetched to revalidate the cart (not persisted) */
+  revalidating: boolean;
+  /** Changes the customer has to accept before paying (not persisted) */
+  pendingChanges: CartRevalidation | null;
+  setRevalidating: (revalidating: boolean) => void;
+  /** Take fresh product data silently, or hold the changes for the customer to accept */
+  applyRevalidation: (result: CartRevalidation) => void;
+  acceptChanges: () => void;
+  /**
+   * Lines vm-service refused before payment, by product ID (not persisted).
+   * Null while the cart has not failed validation; fixing a line removes its
+   * issue, the cart is validated again before checkout continues.
+   */
+  lineIssues: Record<string, CartLineIssue> | null;
+  setLineIssues: (lineIssues: Record<string, CartLineIssue> | null) => void;
+  /** Carts kept for other stores, by `cartScopeKey` */
+  parkedCarts: Record<string, CartItem[]>;
+  /**
+   * Make the store being shopped `target.storeId`: keep the current cart for
+   * later or drop it, and bring back the cart kept for the new scope. Without
+   * `target.vmId`, a kept cart comes back only if it is the store's only one.
+   */
+  switchStore: (target: Pick<CartScope, 'storeId'> & Partial<CartScope>, keepCurrent: boolean) => void;
+  /** A kept cart came back with old product data and has to be revalidated (not persisted) */
+  revalidationNeeded: boolean;
+  /** Discount code the customer entered (null: none) */
+  couponCode: string | null;
+  /** Use a discount code; rejected when it is unknown or saves nothing on this cart */
+  applyCoupon: (code: string) => { status: 'applied' } | { status: 'rejected'; reason: CouponRejection };
+  removeCoupon: () => void;
+  /** Promotions that apply to the cart, with the discount code if any */
+  getDiscounts: () => PromotionResult;
+  /** Lines, tax and payable total under the tax rules of the cart's store */
+  getTax: () => TaxBreakdown;
+  /** What the customer pays: goods less discounts, deposits and rounding */
+  getTotal: () => Money;
   getTotalItems: () => number;
   hasAgeRestrictedItems: () => boolean;
 }
 
+type PersistedCartState = Pick<CartState, 'items' | 'parkedCarts' | 'couponCode'>;
+
 export const useCartStore = create<CartState>()(
   persist(
     (set, get) => ({
       items: [],
       
       addItem: (product: Product) => {
-        set((state) => {
-          const existingItem = state.items.find(
-            (item) => item.product.id === product.id
-          );
-          
-          if (existingItem) {
-            return {
-              items: state.items.map((item) =>
-                item.product.id === product.id
-                  ? { ...item, quantity: item.quantity + 1 }
-                  : item
-              ),
-            };
-          }
-          
-          return {
-            items: [...state.items, { product, quantity: 1 }],
-          };
+        const { items } = get();
+        const existingItem = items.find((item) => item.product.id === product.id);
+        const limit = calculateQuantityLimit(product, items);
+
+        if ((existingItem?.quantity ?? 0) + 1 > limit.max) {
+          return { status: 'rejected', limit };
+        }
+
+        set({
+          items: existingItem
+            ? items.map((item) =>
+                item.product.id === product.id ? { product, quantity: item.quantity + 1 } : item
+              )
+            : [...items, { product, quantity: 1 }],
         });
+        return { status: 'updated' };
       },
       
       removeItem: (productId: string) => {
         set((state) => ({
           items: state.items.filter((item) => item.product.id !== productId),
+          lineIssues: withoutIssue(state.lineIssues, productId),
         }));
       },
       
       updateQuantity: (productId: string, quantity: number) => {
-        set((state) => {
-          if (quantity <= 0) {
-            return {
-              items: state.items.filter((item) => item.product.id !== productId),
-            };
-          }
-          
-          return {
-            items: state.items.map((item) =>
-              item.product.id === productId
-                ? { ...item, quantity }
-                : item
-            ),
-          };
+        const { items } = get();
+
+        if (quantity <= 0) {
+          set({
+            items: items.filter((item) => item.product.id !== productId),
+            lineIssues: withoutIssue(get().lineIssues, productId),
+          });
+          return { status: 'updated' };
+        }
+
+        const existingItem = items.find((item) => item.product.id === productId);
+        if (!existingItem) {
+          return { status: 'updated' };
+        }
+
+        // Lowering a quantity is always allowed, even when it is still over the limit
+        const limit = calculateQuantityLimit(existingItem.product, items);
+        if (quantity > existingItem.quantity && quantity > limit.max) {
+          return { status: 'rejected', limit };
+        }
+
+        set({
+          items: items.map((item) => (item.product.id === productId ? { ...item, quantity } : item)),
+          lineIssues: withoutIssue(get().lineIssues, productId),
         });
+        return { status: 'updated' };
       },
+
+      getQuantityLimit: (product: Product) => calculateQuantityLimit(product, get().items),
       
       clearCart: () => {
-        set({ items: [] });
+        const { items, parkedCarts } = get();
+        const scope = getCartScope(items);
+        const parked = { ...parkedCarts };
+        const key = scope ? cartScopeKey(scope) : null;
+        const restored = (key && parked[key]) || [];
+        if (key) {
+          delete parked[key];
+        }
+
+        set({
+          items: restored,
+          parkedCarts: parked,
+          pendingChanges: null,
+          lineIssues: null,
+          couponCode: null,
+          revalidationNeeded: restored.length > 0,
+        });
+      },
+
+      restoreItems: (restored) => {
+        const { items, parkedCarts } = get();
+        const scope = getCartScope(items);
+        const parked = { ...parkedCarts };
+
+        // The cart is still the paid one when the app closed during payment
+        if (scope && items.length > 0 && !hasSameLines(items, restored)) {
+          parked[cartScopeKey(scope)] = items;
+        }
+
+        set({ items: restored, parkedCarts: parked, pendingChanges: null, lineIssues: null });
+      },
+
+      revalidating: false,
+      pendingChanges: null,
+
+      setRevalidating: (revalidating) => {
+        set({ revalidating });
+      },
+
+      applyRevalidation: (result) => {
+        if (result.changes.length === 0) {
+          set({ items: result.items, pendingChanges: null, revalidationNeeded: false });
+        } else {
+          set({ pendingChanges: result, revalidationNeeded: false });
+        }
+      },
+
+      acceptChanges: () => {
+        const { pendingChanges } = get();
+        if (pendingChanges) {
+          set({ items: pendingChanges.items, pendingChanges: null });
+        }
+      },
+
+      lineIssues: null,
+
+      setLineIssues: (lineIssues) => {
+        set({ lineIssues });
+      },
+
+      parkedCarts: {},
+      revalidationNeeded: false,
+
+      switchStore: (target, keepCurrent) => {
+        const { items, parkedCarts } = get();
+        const scope = getCartScope(items);
+        const parked = { ...parkedCarts };
+
+        if (keepCurrent && scope && items.length > 0) {
+          parked[cartScopeKey(scope)] = items;
+        }
+
+        // A store can have several machines; without the machine, only an unambiguous cart comes back
+        const candidates = target.vmId
+          ? [cartScopeKey({ storeId: target.storeId, vmId: target.vmId })].filter((key) => parked[key])
+          : Object.keys(parked).filter((key) => getCartScope(parked[key])?.storeId === target.storeId);
+        const restoreKey = candidates.length === 1 ? candidates[0] : null;
+        const restored = restoreKey ? parked[restoreKey] : [];
+        if (restoreKey) {
+          delete parked[restoreKey];
+        }
+
+        set({
+          items: restored,
+          parkedCarts: parked,
+          pendingChanges: null,
+          lineIssues: null,
+          couponCode: null,
+          revalidationNeeded: restored.length > 0,
+        });
       },
       
-      getTotal: () => {
+      couponCode: null,
+
+      applyCoupon: (code) => {
+        const promotion = findPromotionByCode(code);
+        if (!promotion) {
+          return { status: 'rejected', reason: 'unknown' };
+        }
+
+        const { items } = get();
+        const result = applyPromotions(items, { code, storeId: getCartScope(items)?.storeId });
+        if (!result.discounts.some((discount) => discount.promotionId === promotion.id)) {
+          return { status: 'rejected', reason: 'not_applicable' };
+        }
+
+        set({ couponCode: normalizeCode(code) });
+        return { status: 'applied' };
+      },
+
+      removeCoupon: () => {
+        set({ couponCode: null });
+      },
+
+      getDiscounts: () => {
+        const { items, couponCode } = get();
+        return applyPromotions(items, { code: couponCode, storeId: getCartScope(items)?.storeId });
+      },
+
+      getTax: () => {
         const state = get();
-        return state.items.reduce(
-          (total, item) => total + item.product.price * item.quantity,
-          0
+        return calculateTax(
+          toTaxableItems(state.items, state.getDiscounts().lineDiscounts),
+          getTaxRegion(getCartScope(state.items)?.storeId)
         );
       },
+
+      getTotal: () => get().getTax().total,
       
       getTotalItems: () => {
         const state = get();
@@ -88,6 +395,20 @@ export const useCartStore = create<CartState>()(
     }),
     {
       name: 'vm-cart-storage',
+      // Version 1: prices are Money instead of major-unit numbers
+      version: 1,
+      partialize: (state): PersistedCartState => ({
+        items: state.items,
+        parkedCarts: state.parkedCarts,
+        couponCode: state.couponCode,
+      }),
+      migrate: (persisted, version) => {
+        const state = (persisted ?? {}) as Record<string, unknown>;
+        if (version < 1 && Array.isArray(state.items)) {
+          state.items = migrateCartItems(state.items as CartItem[]);
+        }
+        return state as PersistedCartState;
+      },
     }
   )
 );
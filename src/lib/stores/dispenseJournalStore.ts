@@ -0,0 +1,143 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { Order, OrderItem, Product } from '../types';
+import { fromLegacyAmount } from '../money';
+import { DispenseContext, isDispenseFinished } from '../dispense/orchestrator';
+import { VM } from '../../config/constants';
+
+export interface DispenseJournalEntry {
+  orderId: string;
+  storeId: string;
+  // Order and cart products as they were when the run started, so it can be resumed after a reload
+  order: Order;
+  cartProducts: Product[];
+  // Latest orchestrator context: per-unit outcomes and unsent status updates
+  context: DispenseContext;
+  // Runs of this order that ended interrupted again
+  interruptions: number;
+  updatedAt: number;
+}
+
+/**
+ * Amounts persisted as major-unit numbers (before version 1)
+ */
+function migrateAmounts<T extends Pick<OrderItem, 'price' | 'depositAmount'>>(item: T): T {
+  return { ...item, price: fromLegacyAmount(item.price), depositAmount: fromLegacyAmount(item.depositAmount) };
+}
+
+function migrateEntry(entry: DispenseJournalEntry): DispenseJournalEntry {
+  const { order, context } = entry;
+  return {
+    ...entry,
+    order: {
+      ...order,
+      items: order.items.map(migrateAmounts),
+      totalAmount: fromLegacyAmount(order.totalAmount),
+      refundItems: order.refundItems?.map(migrateAmounts),
+      refundAmount: fromLegacyAmount(order.refundAmount),
+    },
+    cartProducts: entry.cartProducts.map(migrateAmounts),
+    context: {
+      ...context,
+      units: context.units.map(migrateAmounts),
+      failedItems: context.failedItems.map(migrateAmounts),
+      refund: context.refund && { ...context.refund, amount: fromLegacyAmount(context.refund.amount) },
+    },
+  };
+}
+
+interface DispenseJournalState {
+  entries: Record<string, DispenseJournalEntry>;
+  saveEntry: (entry: Omit<DispenseJournalEntry, 'updatedAt' | 'interruptions'>) => void;
+  removeEntry: (orderId: string) => void;
+  /** Count a run that ended interrupted again */
+  recordInterruption: (orderId: string) => void;
+  /** Drop runs too old to resume (VM.DISPENSE_JOURNAL_TTL) */
+  removeExpired: () => void;
+  /**
+   * Most recently updated run that was interrupted before it finished, unless
+   * it is too old or keeps being interrupted (VM.DISPENSE_MAX_INTERRUPTIONS)
+   */
+  getUnfinished: () => DispenseJournalEntry | null;
+}
+
+type PersistedDispenseJournalState = Pick<DispenseJournalState, 'entries'>;
+
+function isExpired(entry: DispenseJournalEntry, now = Date.now()): boolean {
+  return now - entry.updatedAt > VM.DISPENSE_JOURNAL_TTL;
+}
+
+export const useDispenseJournalStore = create<DispenseJournalState>()(
+  persist(
+    (set, get) => ({
+      entries: {},
+
+      saveEntry: (entry) =>
+        set((state) => ({
+          entries: {
+            ...state.entries,
+            [entry.orderId]: {
+              ...entry,
+              interruptions: state.entries[entry.orderId]?.interruptions ?? 0,
+              updatedAt: Date.now(),
+            },
+          },
+        })),
+      removeEntry: (orderId) =>
+        set((state) => {
+          const { [orderId]: _removed, ...entries } = state.entries;
+          return { entries };
+        }),
+      recordInterruption: (orderId) =>
+        set((state) => {
+          const entry = state.entries[orderId];
+          if (!entry) return state;
+          return { entries: { ...state.entries, [orderId]: { ...entry, interruptions: entry.interruptions + 1 } } };
+        }),
+      removeExpired: () =>
+        set((state) => ({
+          entries: Object.fromEntries(Object.entries(state.entries).filter(([, entry]) => !isExpired(entry))),
+        })),
+      getUnfinished: () => {
+        const unfinished = Object.values(get().entries)
+          .filter(
+            (entry) =>
+              !isDispenseFinished(entry.context) &&
+              !isExpired(entry) &&
+              entry.interruptions < VM.DISPENSE_MAX_INTERRUPTIONS
+          )
+          .sort((a, b) => b.updatedAt - a.updatedAt);
+        return unfinished[0] || null;
+      },
+    }),
+    {
+      name: 'vm-dispense-journal',
+      // Version 1: amounts are Money instead of major-unit numbers
+      // Version 2: entries count their interruptions
+      version: 2,
+      partialize: (state): PersistedDispenseJournalState => ({ entries: state.entries }),
+      migrate: (persisted, version) => {
+        const state = (persisted ?? {}) as Record<string, unknown>;
+        const stored = state.entries && typeof state.entries === 'object' ? state.entries : {};
+        const entries = stored as Record<string, DispenseJournalEntry>;
+        if (version < 1) {
+          for (const [orderId, entry] of Object.entries(entries)) {
+            entries[orderId] = migrateEntry(entry);
+          }
+        }
+        if (version < 2) {
+          for (const entry of Object.values(entries)) {
+            entry.interruptions = 0;
+          }
+        }
+        return { ...state, entries } as PersistedDispenseJournalState;
+      },
+      // Dates come back from localStorage as strings
+      onRehydrateStorage: () => (state) => {
+        Object.values(state?.entries || {}).forEach((entry) => {
+          entry.order.paymentDate = new Date(entry.order.paymentDate);
+        });
+      },
+    }
+  )
+);
@@ -0,0 +1,69 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { CartItem, Money, PaymentMethod } from '../types';
+import type { AppliedDiscount } from '../promotions';
+import { fromLegacyAmount } from '../money';
+import { migrateCartItems } from './cartStore';
+
+export interface PaymentJournalEntry {
+  orderId: string;
+  orderNumber: string;
+  storeId: string;
+  method: PaymentMethod;
+  // Cart as it was paid for, so dispensing can continue after the app was closed
+  items: CartItem[];
+  total: Money;
+  /** Promotions the total was reduced by */
+  discounts?: AppliedDiscount[];
+  createdAt: number;
+}
+
+interface PaymentJournalState {
+  entries: Record<string, PaymentJournalEntry>;
+  saveEntry: (entry: Omit<PaymentJournalEntry, 'createdAt'>) => void;
+  removeEntry: (orderId: string) => void;
+  /** Payments that were opened but never reported back, most recent first */
+  getPending: () => PaymentJournalEntry[];
+}
+
+type PersistedPaymentJournalState = Pick<PaymentJournalState, 'entries'>;
+
+export const usePaymentJournalStore = create<PaymentJournalState>()(
+  persist(
+    (set, get) => ({
+      entries: {},
+
+      saveEntry: (entry) =>
+        set((state) => ({
+          entries: {
+            ...state.entries,
+            [entry.orderId]: { ...entry, createdAt: state.entries[entry.orderId]?.createdAt ?? Date.now() },
+          },
+        })),
+      removeEntry: (orderId) =>
+        set((state) => {
+          const { [orderId]: _removed, ...entries } = state.entries;
+          return { entries };
+        }),
+      getPending: () => Object.values(get().entries).sort((a, b) => b.createdAt - a.createdAt),
+    }),
+    {
+      name: 'vm-payment-journal',
+      // Version 1: amounts are Money instead of major-unit numbers
+      version: 1,
+      partialize: (state): PersistedPaymentJournalState => ({ entries: state.entries }),
+      migrate: (persisted, version) => {
+        const state = (persisted ?? {}) as Record<string, unknown>;
+        const stored = state.entries && typeof state.entries === 'object' ? state.entries : {};
+        const entries = stored as Record<string, PaymentJournalEntry>;
+        if (version < 1) {
+          Object.values(entries).forEach((entry) => {
+            entry.items = migrateCartItems(entry.items);
+            entry.total = fromLegacyAmount(entry.total);
+          });
+        }
+        return { ...state, entries } as PersistedPaymentJournalState;
+      },
+    }
+  )
+);
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { money } from '@/lib/money';
+import { calculateTax, chargedUnitPrice, extractTax, type TaxableItem } from './tax';
+
+function item(overrides: Partial<TaxableItem> & Pick<TaxableItem, 'price'>): TaxableItem {
+  return { productId: 'product-1', name: 'Product', quantity: 1, taxRate: 12, ...overrides };
+}
+
+const sek = (amount: number) => money(amount, 'SEK');
+const inr = (amount: number) => money(amount, 'INR');
+
+describe('calculateTax', () => {
+  it('extracts the tax per rate from the rate total, not from the rounded lines', () => {
+    const items = ['a', 'b', 'c'].map((productId) => item({ productId, price: sek(100) }));
+
+    const breakdown = calculateTax(items, 'SE', 'SEK');
+
+    // Each line holds 10.71 öre of VAT (shown as 11), the rate total 32.14
+    expect(breakdown.lines.map((line) => line.tax.amount)).toEqual([11, 11, 11]);
+    expect(breakdown.rates).toEqual([expect.objectContaining({ taxRate: 12, gross: sek(300), tax: sek(32) })]);
+    expect(breakdown.tax).toEqual(sek(32));
+  });
+
+  describe('SE', () => {
+    it('taxes pant at the product rate', () => {
+      const breakdown = calculateTax([item({ price: sek(2000), depositAmount: sek(100), quantity: 2 })], 'SE', 'SEK');
+
+      expect(breakdown.deposits).toEqual(sek(200));
+      expect(breakdown.tax).toEqual(extractTax(sek(4200), 12));
+      expect(breakdown.total).toEqual(sek(4200));
+    });
+
+    it('charges electronic payments to the öre', () => {
+      const breakdown = calculateTax([item({ price: sek(1995), quantity: 3 })], 'SE', 'SEK');
+
+      expect(breakdown.total).toEqual(sek(5985));
+      expect(breakdown.rounding).toEqual(sek(0));
+    });
+
+    it('rounds a cash payment to whole kronor, up or down', () => {
+      const up = calculateTax([item({ price: sek(1995), quantity: 3 })], 'SE', 'SEK', { cash: true });
+      const down = calculateTax([item({ price: sek(1980), quantity: 3 })], 'SE', 'SEK', { cash: true });
+
+      expect(up.total).toEqual(sek(6000));
+      expect(up.rounding).toEqual(sek(15));
+      expect(down.total).toEqual(sek(5900));
+      expect(down.rounding).toEqual(sek(-40));
+      // Rounding does not change the tax
+      expect(up.tax).toEqual(extractTax(sek(5985), 12));
+    });
+
+    it('takes promotion discounts off the taxable amount', () => {
+      const breakdown = calculateTax([item({ price: sek(2500), quantity: 2, discount: sek(500) })], 'SE', 'SEK');
+
+      expect(breakdown.discount).toEqual(sek(500));
+      expect(breakdown.tax).toEqual(extractTax(sek(4500), 12));
+      expect(breakdown.total).toEqual(sek(4500));
+    });
+  });
+
+  describe('IN', () => {
+    it('splits GST into CGST and SGST halves that add up to the tax', () => {
+      // 11.21 INR at 18% holds 1.71 INR of GST: the halves are 0.86 and 0.85
+      const breakdown = calculateTax([item({ price: inr(1121), taxRate: 18 })], 'IN', 'INR');
+      const [rate] = breakdown.rates;
+
+      expect(rate.tax).toEqual(inr(171));
+      expect(rate.components).toEqual([
+        { label: 'CGST', rate: 9, amount: inr(86) },
+        { label: 'SGST', rate: 9, amount: inr(85) },
+      ]);
+    });
+
+    it('leaves deposits out of the taxable value and does not round the total', () => {
+      const breakdown = calculateTax([item({ price: inr(1121), taxRate: 18, depositAmount: inr(500) })], 'IN', 'INR', {
+        cash: true,
+      });
+
+      expect(breakdown.tax).toEqual(inr(171));
+      expect(breakdown.total).toEqual(inr(1621));
+      expect(breakdown.rounding).toEqual(inr(0));
+    });
+  });
+
+  it('is empty for an empty cart', () => {
+    const breakdown = calculateTax([], 'SE', 'SEK');
+
+    expect(breakdown.total).toEqual(sek(0));
+    expect(breakdown.rates).toEqual([]);
+  });
+});
+
+describe('chargedUnitPrice', () => {
+  it('adds the deposit to the price', () => {
+    expect(chargedUnitPrice({ price: sek(2000), depositAmount: sek(100) })).toEqual(sek(2100));
+    expect(chargedUnitPrice({ price: sek(2000) })).toEqual(sek(2000));
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Tax calculation for carts, orders and receipts
+ *
+ * Shelf prices include tax. Each store belongs to a tax region whose rules
+ * decide how the tax is shown and how the payable total is reached:
+ *
+ * - SE: VAT (moms). Pant is part of the taxable amount at the product's rate,
+ *   and a cash payment is rounded to whole kronor (öresavrundning); card and
+ *   other electronic payments are charged to the öre.
+ * - IN: GST, split into CGST and SGST halves (intra-state sale). Refundable
+ *   deposits are not part of the taxable value.
+ *
+ * Tax per rate is extracted from the rate's total rather than summed over the
+ * lines, so rounding cannot add up across lines; the per-line tax is
+ * informational. Promotion discounts lower the taxable amount of their line.
+ *
+ * @module lib/tax
+ */
+
+import { CURRENCY, TAX, type TaxRegion } from '@/config/constants';
+import type { CartItem, Money } from '@/lib/types';
+import { add, money, multiply, roundMinor, subtract, sum, zero } from '@/lib/money';
+
+/**
+ * Anything priced that can be taxed: cart lines and order items alike
+ */
+export interface TaxableItem {
+  productId: string;
+  name: string;
+  /** Unit price including tax */
+  price: Money;
+  quantity: number;
+  /** Percentage */
+  taxRate: number;
+  /** Deposit (pant) per unit, on top of the price */
+  depositAmount?: Money;
+  /** Promotion discount on the whole line (deposits are not discounted) */
+  discount?: Money;
+}
+
+export interface TaxRules {
+  region: TaxRegion;
+  /** Name of the tax on receipts */
+  taxLabel: string;
+  /** Parts a rate is reported in, as shares of the rate (GST: CGST + SGST) */
+  components: readonly { label: string; share: number }[];
+  /** Deposits are taxed at the product's rate */
+  depositTaxable: boolean;
+  depositLabel: string;
+  /** A cash payment's total is rounded to a multiple of this many minor units */
+  cashRoundingUnit: number;
+}
+
+const TAX_RULES: Record<TaxRegion, TaxRules> = {
+  SE: {
+    region: 'SE',
+    taxLabel: 'VAT',
+    components: [{ label: 'VAT', share: 1 }],
+    depositTaxable: true,
+    depositLabel: 'Pant',
+    cashRoundingUnit: 100, // whole kronor
+  },
+  IN: {
+    region: 'IN',
+    taxLabel: 'GST',
+    components: [
+      { label: 'CGST', share: 0.5 },
+      { label: 'SGST', share: 0.5 },
+    ],
+    depositTaxable: false,
+    depositLabel: 'Deposit',
+    cashRoundingUnit: 1,
+  },
+};
+
+export interface TaxLine {
+  productId: string;
+  name: string;
+  quantity: number;
+  taxRate: number;
+  /** Price × quantity, including tax */
+  goods: Money;
+  /** Taken off `goods` by promotions */
+  discount: Money;
+  /** Deposit × quantity */
+  deposit: Money;
+  /** Tax contained in this line */
+  tax: Money;
+}
+
+export interface TaxComponent {
+  label: string;
+  /** Percentage */
+  rate: number;
+  amount: Money;
+}
+
+export interface TaxRateSummary {
+  /** Percentage */
+  taxRate: number;
+  /** Taxable amount including tax */
+  gross: Money;
+  tax: Money;
+  /** Taxable amount excluding tax */
+  net: Money;
+  components: TaxComponent[];
+}
+
+export interface TaxBreakdown {
+  rules: TaxRules;
+  lines: TaxLine[];
+  /** Per tax rate, lowest rate first */
+  rates: TaxRateSummary[];
+  /** Goods including tax, before discounts and without deposits */
+  subtotal: Money;
+  /** Promotion discounts */
+  discount: Money;
+  deposits: Money;
+  /** Tax contained in the total */
+  tax: Money;
+  /** Added to reach the payable total (negative when rounded down) */
+  rounding: Money;
+  /** What the customer pays */
+  total: Money;
+}
+
+/**
+ * Region whose tax rules apply to a store
+ */
+export function getTaxRegion(storeId?: string | null): TaxRegion {
+  return (storeId && TAX.STORE_REGIONS[storeId]) || TAX.DEFAULT_REGION;
+}
+
+export function getTaxRules(region: TaxRegion): TaxRules {
+  return TAX_RULES[region];
+}
+
+/**
+ * Tax contained in an amount that includes tax at `rate` percent
+ */
+export function extractTax(gross: Money, rate: number): Money {
+  return multiply(gross, rate / (100 + rate));
+}
+
+/**
+ * Split a rate's tax into the region's components; the last one takes the
+ * rounding remainder so the parts always add up to the tax
+ */
+function splitTax(tax: Money, taxRate: number, rules: TaxRules): TaxComponent[] {
+  let remaining = tax;
+  return rules.components.map((component, index) => {
+    const amount = index === rules.components.length - 1 ? remaining : multiply(tax, component.share);
+    remaining = subtract(remaining, amount);
+    return { label: component.label, rate: taxRate * component.share, amount };
+  });
+}
+
+/**
+ * What one unit is charged (and refunded) at: the price plus its deposit
+ */
+export function chargedUnitPrice(item: Pick<TaxableItem, 'price' | 'depositAmount'>): Money {
+  return item.depositAmount ? add(item.price, item.depositAmount) : item.price;
+}
+
+/**
+ * @param lineDiscounts - Promotion discounts by product ID (see lib/promotions)
+ */
+export function toTaxableItems(items: CartItem[], lineDiscounts: Record<string, Money> = {}): TaxableItem[] {
+  return items.map((item) => ({
+    productId: item.product.id,
+    name: item.product.name,
+    price: item.product.price,
+    quantity: item.quantity,
+    taxRate: item.product.taxRate,
+    depositAmount: item.product.depositAmount,
+    discount: lineDiscounts[item.product.id],
+  }));
+}
+
+/**
+ * Lines, tax per rate and the payable total for a set of items
+ *
+ * @param currency - Currency of an empty list
+ * @param options.cash - The total is paid in cash and rounded by the region's rules
+ */
+export function calculateTax(
+  items: TaxableItem[],
+  region: TaxRegion = TAX.DEFAULT_REGION,
+  currency: string = CURRENCY.DEFAULT,
+  options: { cash?: boolean } = {}
+): TaxBreakdown {
+  const rules = getTaxRules(region);
+  const itemCurrency = items[0]?.price.currency ?? currency;
+
+  const lines: TaxLine[] = items.map((item) => {
+    const goods = multiply(item.price, item.quantity);
+    const discount = item.discount ?? zero(itemCurrency);
+    const deposit = item.depositAmount ? multiply(item.depositAmount, item.quantity) : zero(itemCurrency);
+    const paidGoods = subtract(goods, discount);
+    const taxable = rules.depositTaxable ? add(paidGoods, deposit) : paidGoods;
+    return {
+      productId: item.productId,
+      name: item.name,
+      quantity: item.quantity,
+      taxRate: item.taxRate,
+      goods,
+      discount,
+      deposit,
+      tax: extractTax(taxable, item.taxRate),
+    };
+  });
+
+  const grossByRate = new Map<number, Money>();
+  for (const line of lines) {
+    const paidGoods = subtract(line.goods, line.discount);
+    const taxable = rules.depositTaxable ? add(paidGoods, line.deposit) : paidGoods;
+    grossByRate.set(line.taxRate, add(grossByRate.get(line.taxRate) ?? zero(itemCurrency), taxable));
+  }
+
+  const rates: TaxRateSummary[] = [...grossByRate.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([taxRate, gross]) => {
+      const tax = extractTax(gross, taxRate);
+      return { taxRate, gross, tax, net: subtract(gross, tax), components: splitTax(tax, taxRate, rules) };
+    });
+
+  const subtotal = sum(lines.map((line) => line.goods), itemCurrency);
+  const discount = sum(lines.map((line) => line.discount), itemCurrency);
+  const deposits = sum(lines.map((line) => line.deposit), itemCurrency);
+  const unrounded = add(subtract(subtotal, discount), deposits);
+  const unit = options.cash ? rules.cashRoundingUnit : 1;
+  const total = money(roundMinor(unrounded.amount / unit) * unit, itemCurrency);
+
+  return {
+    rules,
+    lines,
+    rates,
+    subtotal,
+    discount,
+    deposits,
+    tax: sum(rates.map((rate) => rate.tax), itemCurrency),
+    rounding: subtract(total, unrounded),
+    total,
+  };
+}
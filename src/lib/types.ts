@@ -1,13 +1,21 @@
+// Money Types (arithmetic and formatting in lib/money)
+export interface Money {
+  /** Integer amount in the currency's minor unit (öre, paise, cents) */
+  amount: number;
+  /** ISO 4217 currency code */
+  currency: string;
+}
+
 // Product Types
 export interface Product {
   id: string;
   name: string;
-  price: number;
+  price: Money; // including tax
   image: string;
   category: string;
   isAgeRestricted: boolean;
   taxRate: number; // percentage
-  depositAmount?: number; // pant
+  depositAmount?: Money; // pant
   // Additional fields from spring data (optional, added when fetched from API)
   selectionNumber?: number;
   inventory?: number;
@@ -25,27 +33,41 @@ export interface CartItem {
 }
 
 // Order Types
-export type PaymentMethod = 'swish' | 'card' | 'razorpay';
+export type PaymentMethod = 'swish' | 'card' | 'razorpay' | 'test';
 
 export interface OrderItem {
   productId: string;
   name: string;
-  price: number;
+  price: Money;
   quantity: number;
   taxRate: number;
-  depositAmount?: number;
+  depositAmount?: Money;
+  discount?: Money; // taken off the whole line by promotions
+}
+
+// A promotion applied to an order (rules in lib/promotions)
+export interface OrderDiscount {
+  promotionId: string;
+  label: string;
+  code?: string; // discount code the customer entered
+  amount: Money;
+}
+
+export interface RefundItem extends OrderItem {
+  reason?: string; // why the item was not dispensed
 }
 
 export interface Order {
   id: string;
   items: OrderItem[];
-  totalAmount: number;
+  totalAmount: Money;
+  discounts?: OrderDiscount[];
   paymentMethod: PaymentMethod;
   paymentDate: Date;
   referenceNumber: string;
   dispensed: boolean;
-  refundItems?: OrderItem[];
-  refundAmount?: number;
+  refundItems?: RefundItem[];
+  refundAmount?: Money;
   refundId?: string;
 }
 
@@ -72,11 +94,3 @@ export interface VendingMachine {
   name: string;
   location: string;
 }
-
-// Receipt Tax Breakdown
-export interface TaxBreakdown {
-  taxRate: number;
-  taxAmount: number;
-  excludingTax: number;
-  includingTax: number;
-}
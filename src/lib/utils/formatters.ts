@@ -1,15 +1,18 @@
+import { formatMoney } from '../money';
+import type { Money } from '../types';
+
 /**
- * Format price in SEK
+ * Format price in its currency (decimals only when there are any)
  */
-export const formatPrice = (amount: number): string => {
-  return `${amount} SEK`;
+export const formatPrice = (price: Money): string => {
+  return formatMoney(price);
 };
 
 /**
- * Format price with comma for decimal
+ * Format price in its currency, always with decimals (receipts)
  */
-export const formatPriceDecimal = (amount: number): string => {
-  return `${amount.toFixed(2).replace('.', ',')} SEK`;
+export const formatPriceDecimal = (price: Money): string => {
+  return formatMoney(price, { decimals: 'always' });
 };
 
 /**
@@ -31,6 +34,16 @@ export const formatTime = (date: Date): string => {
   return `${hours}:${minutes}`;
 };
 
+/**
+ * Format a remaining duration (in milliseconds) as m:ss
+ */
+export const formatCountdown = (milliseconds: number): string => {
+  const totalSeconds = Math.max(0, Math.ceil(milliseconds / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = (totalSeconds % 60).toString().padStart(2, '0');
+  return `${minutes}:${seconds}`;
+};
+
 /**
  * Generate reference number
  */
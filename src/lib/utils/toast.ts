@@ -9,6 +9,7 @@
 
 import { toast as sonnerToast } from 'sonner';
 import { TOAST, ERROR_CODES, type ErrorCode } from '@/config/constants';
+import { getErrorCode } from '@/lib/api/errors';
 
 /**
  * Toast notification types
@@ -263,10 +264,33 @@ export function showErrorByCode(
       title: 'Invalid Order',
       description: 'There was a problem with your order. Please try again.',
     },
+    INVALID_RESPONSE: {
+      title: 'Unexpected Response',
+      description: 'The server sent data we could not understand. Please try again or contact support.',
+    },
     SESSION_EXPIRED: {
       title: 'Session Expired',
       description: 'Your session has expired. Please start over.',
     },
+    REQUEST_TIMEOUT: {
+      title: 'Request Timed Out',
+      description: 'The server took too long to respond. Please try again.',
+    },
+    REQUEST_CANCELLED: {
+      title: 'Request Cancelled',
+    },
+    CONFLICT: {
+      title: 'Order Already Updated',
+      description: 'This order was changed elsewhere. Please refresh and try again.',
+    },
+    SERVER_ERROR: {
+      title: 'Server Error',
+      description: 'Something went wrong on our side. Please try again shortly.',
+    },
+    UNKNOWN_ERROR: {
+      title: 'Something Went Wrong',
+      description: 'An unexpected error occurred. Please try again.',
+    },
   };
 
   const errorInfo = errorMessages[errorCode] || {
@@ -279,6 +303,26 @@ export function showErrorByCode(
   });
 }
 
+/**
+ * Show error toast for any thrown API error
+ *
+ * Uses the ErrorCode carried by typed vm-service errors (see lib/api/errors),
+ * so callers don't need to inspect error messages.
+ *
+ * @param error - Caught error
+ * @param customMessage - Optional custom title to override default
+ *
+ * @example
+ * try {
+ *   await createOrder(request);
+ * } catch (error) {
+ *   showApiError(error);
+ * }
+ */
+export function showApiError(error: unknown, customMessage?: string): void {
+  showErrorByCode(getErrorCode(error), customMessage);
+}
+
 /**
  * Show VM status toast notifications
  *
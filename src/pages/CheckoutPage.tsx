@@ -5,6 +5,7 @@ import { Header } from '@/components/layout/Header';
 import { useCartStore } from '@/lib/stores/cartStore';
 import { useAppStore } from '@/lib/stores/appStore';
 import { formatPrice } from '@/lib/utils/formatters';
+import { multiply } from '@/lib/money';
 import { AlertTriangle } from 'lucide-react';
 
 const CheckoutPage = () => {
@@ -61,7 +62,7 @@ const CheckoutPage = () => {
                   </div>
                 </div>
                 <span className="font-semibold text-foreground">
-                  {formatPrice(item.product.price * item.quantity)}
+                  {formatPrice(multiply(item.product.price, item.quantity))}
                 </span>
               </div>
             ))}
@@ -3,6 +3,7 @@ import { useState } from 'react';
 import { StatusScreen } from '@/components/ui/StatusScreen';
 import { useCartStore } from '@/lib/stores/cartStore';
 import { useAppStore } from '@/lib/stores/appStore';
+import { formatPrice } from '@/lib/utils/formatters';
 import { AlertCircle, Package } from 'lucide-react';
 
 // This file is kept for reference but is not used.
@@ -54,7 +55,7 @@ const DispensingPage = () => {
                 quantity: 1,
                 taxRate: items[0].product.taxRate,
               } : null].filter(Boolean) as any,
-              refundAmount: items[0]?.product.price || 0,
+              refundAmount: items[0]?.product.price,
               refundId: `REF-${Date.now()}`,
             });
           }
@@ -140,7 +141,7 @@ const DispensingPage = () => {
                 <div>
                   <p className="font-semibold text-foreground">{item.name}</p>
                   <p className="text-sm text-muted-foreground">
-                    {item.price} SEK x{item.quantity}
+                    {formatPrice(item.price)} x{item.quantity}
                   </p>
                 </div>
               </div>
@@ -155,7 +156,7 @@ const DispensingPage = () => {
           <div className="bg-card rounded-2xl p-6 shadow-sm text-center">
             <p className="text-muted-foreground mb-2">Total Refund Amount</p>
             <p className="text-3xl font-bold text-price mb-4">
-              {currentOrder.refundAmount} kr
+              {currentOrder.refundAmount && formatPrice(currentOrder.refundAmount)}
             </p>
             <p className="text-xs text-muted-foreground">
               Refund ID: {currentOrder.refundId}
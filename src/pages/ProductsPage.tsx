@@ -5,134 +5,141 @@ import { useSearchParams } from 'next/navigation';
 import { Header } from '@/components/layout/Header';
 import { CartBar } from '@/components/layout/CartBar';
 import { ProductGrid } from '@/components/product/ProductGrid';
-import { getSpringsByStoreId } from '@/lib/api/vmService';
+import { StoreSwitchPrompt } from '@/components/cart/StoreSwitchPrompt';
+import { useSprings, useRealtimeChannel } from '@/lib/api/hooks';
+import { AuthError } from '@/lib/api/errors';
 import { mapSpringsToProducts, filterAvailableSprings } from '@/lib/api/productMapper';
-import { storeCredentials, getAccessToken } from '@/lib/api/auth';
+import { storeCredentials, clearToken, isTokenBrokerEnabled } from '@/lib/api/auth';
 import { useAppStore } from '@/lib/stores/appStore';
+import { getCartScope, useCartStore } from '@/lib/stores/cartStore';
 import { Product } from '@/lib/types';
 import { AlertCircle } from 'lucide-react';
 
 const ProductsPage = () => {
   const searchParams = useSearchParams();
   const { storeId: storeIdFromStore, setStoreId } = useAppStore();
+  const { items: cartItems, switchStore, getTotalItems } = useCartStore();
   
   const [searchQuery, setSearchQuery] = useState('');
-  const [products, setProducts] = useState<Product[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [rawSpringsCount, setRawSpringsCount] = useState<number>(0);
 
   // Extract URL parameters (store_id from URL takes precedence, then use store/Zustand)
   const storeIdFromUrl = searchParams.get('store_id') || '';
-  const clientId = searchParams.get('client_id') || undefined; // Optional override
-  const clientSecret = searchParams.get('client_secret') || undefined; // Optional override
+  // Machine the link was opened at, if it names one (picks the kept cart of a store with several machines)
+  const vmIdFromUrl = searchParams.get('vm_id') || undefined;
+  // Credential overrides for local development only: a secret in a link leaks through
+  // history, logs and referrers, and would be kept in localStorage
+  const brokerEnabled = isTokenBrokerEnabled();
+  const urlCredentialsAllowed = process.env.NODE_ENV === 'development' && !brokerEnabled;
+  const clientId = urlCredentialsAllowed ? searchParams.get('client_id') || undefined : undefined;
+  const clientSecret = urlCredentialsAllowed ? searchParams.get('client_secret') || undefined : undefined;
   
   // Use store_id from URL if provided, otherwise use from store (Zustand/Redux)
   // This allows navigation back without requiring URL params
   const storeId = storeIdFromUrl || storeIdFromStore || '';
 
+  // A cart is paid at one store's machine; opening another store asks what to do with it
+  const cartScope = getCartScope(cartItems);
+  const storeSwitchPending = !!storeIdFromUrl && !!cartScope && cartScope.storeId !== storeIdFromUrl;
+
+  const handleStoreSwitch = (keepCurrent: boolean) => {
+    switchStore({ storeId: storeIdFromUrl, vmId: vmIdFromUrl }, keepCurrent);
+    setStoreId(storeIdFromUrl);
+  };
+
   useEffect(() => {
-    // Validate required parameters
-    if (!storeId) {
-      setError('Store ID is required. Please provide store_id in URL parameters or ensure it is set in the app.');
-      setLoading(false);
-      return;
-    }
+    if (!storeId) return;
 
     // Store credentials if provided via URL (optional override)
     if (clientId && clientSecret) {
       storeCredentials(clientId, clientSecret);
+    } else if (searchParams.get('client_secret')) {
+      console.warn('Ignoring client_secret URL parameter: it is only accepted in development builds without the token broker');
     }
     
     // If store_id came from URL and differs from store, update the store
     // This ensures the store always has the latest store_id
-    if (storeIdFromUrl && storeIdFromUrl !== storeIdFromStore) {
+    if (storeIdFromUrl && storeIdFromUrl !== storeIdFromStore && !storeSwitchPending) {
       console.log('Updating store ID in Zustand:', storeIdFromUrl);
+      // Brings back a cart kept for this store
+      switchStore({ storeId: storeIdFromUrl, vmId: vmIdFromUrl }, true);
       setStoreId(storeIdFromUrl);
     } else if (storeIdFromStore && !storeIdFromUrl) {
       // If we're using store_id from store (back button scenario), log it
       console.log('Using store ID from Zustand store:', storeIdFromStore);
     }
+  }, [
+    storeId,
+    storeIdFromUrl,
+    vmIdFromUrl,
+    storeIdFromStore,
+    storeSwitchPending,
+    clientId,
+    clientSecret,
+    brokerEnabled,
+    searchParams,
+    setStoreId,
+    switchStore,
+  ]);
+
+  // Waits until a store_id from the URL has reached the app store, so broker tokens are requested for this store
+  const storeReady = !storeIdFromUrl || storeIdFromUrl === storeIdFromStore;
+
+  // Live inventory updates; background polling only while the channel is down
+  const { isLive } = useRealtimeChannel(storeId, { enabled: storeReady });
+
+  // Fetch springs from vm-service (cached and refetched in the background)
+  const springsQuery = useSprings(storeId, {
+    clientId, // Optional: if not provided, will use env vars
+    clientSecret, // Optional: if not provided, will use env vars
+    enabled: storeReady,
+    pollInterval: isLive ? 0 : undefined,
+  });
+  const springs = springsQuery.data?.data;
+  const rawSpringsCount = springs?.length || 0;
+  const loading = !!storeId && springsQuery.isPending;
+
+  useEffect(() => {
+    if (!springsQuery.error) return;
+
+    console.error('Failed to fetch products:', springsQuery.error);
+    if (springsQuery.error instanceof AuthError) {
+      // Clear any invalid tokens
+      clearToken();
+    }
+  }, [springsQuery.error]);
+
+  // Filter available springs and map to products
+  const products = useMemo<Product[]>(() => {
+    if (!springs) return [];
+
+    const availableSprings = filterAvailableSprings(springs);
+    console.log('Available springs (after filtering):', availableSprings.length);
+
+    const mappedProducts = mapSpringsToProducts(availableSprings);
+    console.log('Mapped products:', mappedProducts.length);
+
+    if (mappedProducts.length === 0 && springs.length > 0) {
+      console.warn('No products mapped. Possible reasons:');
+      console.warn('- Springs missing linked_product');
+      console.warn('- Springs have inventory = 0');
+      console.warn('- Springs have broken/maintenance status');
+      console.warn('Raw springs data:', springs);
+    }
+
+    return mappedProducts;
+  }, [springs]);
 
-    // Fetch springs from vm-service
-    // Step 1: Get access token first, then make API calls
-    const fetchProducts = async () => {
-      try {
-        setLoading(true);
-        setError(null);
-        
-        // STEP 1: Get access token first using credentials from env vars or URL params
-        // This ensures we have a valid token before making any REST API calls
-        try {
-          const token = await getAccessToken(clientId, clientSecret);
-          if (!token || token.trim().length === 0) {
-            throw new Error('Failed to obtain access token: token is empty');
-          }
-          console.log('Access token obtained successfully, length:', token.length);
-        } catch (tokenError) {
-          console.error('Failed to get access token:', tokenError);
-          // Clear any invalid tokens
-          if (typeof window !== 'undefined') {
-            localStorage.removeItem('vm-service-token');
-          }
-          // Re-throw with the original error message which now includes detailed info
-          throw tokenError;
-        }
-        
-        // STEP 2: Now make the API call with the token (token is automatically included in headers)
-        console.log('Fetching springs for store:', storeId);
-        const response = await getSpringsByStoreId(
-          storeId,
-          100,
-          0,
-          clientId, // Optional: if not provided, will use env vars
-          clientSecret // Optional: if not provided, will use env vars
-        );
-
-        const totalSprings = response.data?.length || 0;
-        setRawSpringsCount(totalSprings);
-        
-        console.log('Springs response:', {
-          totalSprings,
-          springs: response.data,
-        });
-
-        if (totalSprings === 0) {
-          console.warn('No springs found for store:', storeId);
-          setProducts([]);
-          setError('No products available for this store. Please check if the store has any springs configured.');
-          return;
-        }
-
-        // Filter available springs and map to products
-        const availableSprings = filterAvailableSprings(response.data || []);
-        console.log('Available springs (after filtering):', availableSprings.length);
-        
-        const mappedProducts = mapSpringsToProducts(availableSprings);
-        console.log('Mapped products:', mappedProducts.length);
-        
-        if (mappedProducts.length === 0 && totalSprings > 0) {
-          console.warn('No products mapped. Possible reasons:');
-          console.warn('- Springs missing linked_product');
-          console.warn('- Springs have inventory = 0');
-          console.warn('- Springs have broken/maintenance status');
-          console.warn('Raw springs data:', response.data);
-          setError(`Found ${totalSprings} spring(s) but none are available for purchase. Springs may need linked products or have no inventory.`);
-        } else {
-          setError(null); // Clear any previous errors
-        }
-        
-        setProducts(mappedProducts);
-      } catch (err) {
-        console.error('Failed to fetch products:', err);
-        setError(err instanceof Error ? err.message : 'Failed to fetch products from vending machine. Please check your environment variables (NEXT_PUBLIC_VM_SERVICE_CLIENT_ID and NEXT_PUBLIC_VM_SERVICE_CLIENT_SECRET).');
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchProducts();
-  }, [storeId, storeIdFromUrl, storeIdFromStore, clientId, clientSecret, setStoreId]);
+  let error: string | null = null;
+  if (!storeId) {
+    error = 'Store ID is required. Please provide store_id in URL parameters or ensure it is set in the app.';
+  } else if (springsQuery.error && !springs) {
+    // A failed background refetch keeps showing the last loaded products
+    error = springsQuery.error.message || 'Failed to fetch products from vending machine. Please check your environment variables (NEXT_PUBLIC_VM_SERVICE_CLIENT_ID and NEXT_PUBLIC_VM_SERVICE_CLIENT_SECRET).';
+  } else if (springs && rawSpringsCount === 0) {
+    error = 'No products available for this store. Please check if the store has any springs configured.';
+  } else if (springs && products.length === 0) {
+    error = `Found ${rawSpringsCount} spring(s) but none are available for purchase. Springs may need linked products or have no inventory.`;
+  }
 
   const filteredProducts = useMemo(() => {
     if (!searchQuery.trim()) {
@@ -146,6 +153,16 @@ const ProductsPage = () => {
     );
   }, [products, searchQuery]);
 
+  if (storeSwitchPending) {
+    return (
+      <StoreSwitchPrompt
+        itemCount={getTotalItems()}
+        onKeep={() => handleStoreSwitch(true)}
+        onClear={() => handleStoreSwitch(false)}
+      />
+    );
+  }
+
   // Error state
   if (error && !loading) {
     return (
@@ -2,9 +2,11 @@
 // This file is kept for reference but is not used.
 // The actual page is at src/app/receipt/page.tsx
 import { useAppStore } from '@/lib/stores/appStore';
-import { formatDate, formatTime, formatPriceDecimal } from '@/lib/utils/formatters';
+import { formatDate, formatTime, formatPrice, formatPriceDecimal } from '@/lib/utils/formatters';
+import { Fragment } from 'react';
+import { multiply } from '@/lib/money';
+import { calculateTax, getTaxRegion } from '@/lib/tax';
 import { Download, CheckCircle } from 'lucide-react';
-import { TaxBreakdown } from '@/lib/types';
 
 const ReceiptPage = () => {
   // Navigation removed - use Next.js router in app/receipt/page.tsx instead
@@ -13,37 +15,15 @@ const ReceiptPage = () => {
       window.location.href = path;
     }
   };
-  const { currentOrder, setCurrentOrder, setSelectedPaymentMethod } = useAppStore();
+  const { currentOrder, storeId, setCurrentOrder, setSelectedPaymentMethod } = useAppStore();
 
   if (!currentOrder) {
     navigate('/');
     return null;
   }
 
-  // Calculate tax breakdown
-  const taxBreakdowns: TaxBreakdown[] = [];
-  const taxGroups: { [key: number]: { taxRate: number; total: number } } = {};
-  
-  currentOrder.items.forEach((item) => {
-    if (!taxGroups[item.taxRate]) {
-      taxGroups[item.taxRate] = { taxRate: item.taxRate, total: 0 };
-    }
-    taxGroups[item.taxRate].total += item.price * item.quantity;
-  });
-
-  Object.values(taxGroups).forEach((group) => {
-    const includingTax = group.total;
-    const taxMultiplier = group.taxRate / (100 + group.taxRate);
-    const taxAmount = includingTax * taxMultiplier;
-    const excludingTax = includingTax - taxAmount;
-    
-    taxBreakdowns.push({
-      taxRate: group.taxRate,
-      taxAmount,
-      excludingTax,
-      includingTax,
-    });
-  });
+  // Same rules the order was priced with at checkout
+  const tax = calculateTax(currentOrder.items, getTaxRegion(storeId), currentOrder.totalAmount.currency);
 
   const handleDone = () => {
     setCurrentOrder(null);
@@ -80,7 +60,7 @@ const ReceiptPage = () => {
         <div className="text-center mb-6">
           <p className="text-muted-foreground text-sm">TOTAL</p>
           <p className="text-3xl font-bold text-foreground">
-            {currentOrder.totalAmount} SEK
+            {formatPrice(currentOrder.totalAmount)}
           </p>
         </div>
         
@@ -92,17 +72,34 @@ const ReceiptPage = () => {
                 {item.name} x{item.quantity}
               </span>
               <span className="text-foreground">
-                {item.price * item.quantity} SEK
+                {formatPrice(multiply(item.price, item.quantity))}
+              </span>
+            </div>
+          ))}
+          {/* Promotions */}
+          {currentOrder.discounts?.map((discount) => (
+            <div key={discount.promotionId} className="flex justify-between text-sm">
+              <span className="text-foreground uppercase">
+                {discount.label}
+                {discount.code && ` (${discount.code})`}
               </span>
+              <span className="text-foreground">-{formatPrice(discount.amount)}</span>
             </div>
           ))}
           {/* Deposit (Pant) */}
-          {currentOrder.items.some((item) => item.depositAmount) && (
+          {tax.deposits.amount !== 0 && (
             <div className="flex justify-between text-sm">
-              <span className="text-foreground">PANT x{currentOrder.items.filter(i => i.depositAmount).length}</span>
-              <span className="text-foreground">
-                {currentOrder.items.reduce((sum, i) => sum + (i.depositAmount || 0) * i.quantity, 0)} SEK
+              <span className="text-foreground uppercase">
+                {tax.rules.depositLabel} x{tax.lines.filter((line) => line.deposit.amount !== 0).length}
               </span>
+              <span className="text-foreground">{formatPrice(tax.deposits)}</span>
+            </div>
+          )}
+          {/* Öresavrundning and the like */}
+          {tax.rounding.amount !== 0 && (
+            <div className="flex justify-between text-sm">
+              <span className="text-foreground">ROUNDING</span>
+              <span className="text-foreground">{formatPriceDecimal(tax.rounding)}</span>
             </div>
           )}
         </div>
@@ -112,20 +109,34 @@ const ReceiptPage = () => {
           <table className="w-full text-xs">
             <thead>
               <tr className="text-muted-foreground">
-                <th className="text-left py-1">TAX%</th>
+                <th className="text-left py-1">{tax.rules.taxLabel}%</th>
                 <th className="text-right py-1">TAX AMOUNT</th>
                 <th className="text-right py-1">EXCL. TAX</th>
                 <th className="text-right py-1">INCL. TAX</th>
               </tr>
             </thead>
             <tbody>
-              {taxBreakdowns.map((tax, index) => (
-                <tr key={index} className="text-foreground">
-                  <td className="py-1">{tax.taxRate}%</td>
-                  <td className="text-right">{formatPriceDecimal(tax.taxAmount)}</td>
-                  <td className="text-right">{formatPriceDecimal(tax.excludingTax)}</td>
-                  <td className="text-right">{formatPriceDecimal(tax.includingTax)}</td>
-                </tr>
+              {tax.rates.map((rate) => (
+                <Fragment key={rate.taxRate}>
+                  <tr className="text-foreground">
+                    <td className="py-1">{rate.taxRate}%</td>
+                    <td className="text-right">{formatPriceDecimal(rate.tax)}</td>
+                    <td className="text-right">{formatPriceDecimal(rate.net)}</td>
+                    <td className="text-right">{formatPriceDecimal(rate.gross)}</td>
+                  </tr>
+                  {/* GST: CGST and SGST parts */}
+                  {rate.components.length > 1 &&
+                    rate.components.map((component) => (
+                      <tr key={component.label} className="text-muted-foreground">
+                        <td className="py-1 pl-3">
+                          {component.label} {component.rate}%
+                        </td>
+                        <td className="text-right">{formatPriceDecimal(component.amount)}</td>
+                        <td />
+                        <td />
+                      </tr>
+                    ))}
+                </Fragment>
               ))}
             </tbody>
           </table>